@@ -26,6 +26,7 @@ const App: React.FC = () => {
             <Route path="/login" element={<Login />} />
             <Route path="/admin" element={<Admin />} />
             <Route path="/quote" element={<QuotationFlow />} />
+            <Route path="/quote/:projectId" element={<QuotationFlow />} />
             <Route path="/design-ai" element={<DesignAI />} />
             <Route path="*" element={<Navigate to="/" replace />} />
           </Routes>
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Truck, Plus, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import { FreightMethod, FreightTable, FreightZone, Manufacturer } from '../types';
+
+interface FreightTableEditorProps {
+  manufacturer: Manufacturer;
+  onSave: (freight: FreightTable | undefined) => Promise<void>;
+}
+
+const METHOD_LABELS: Record<FreightMethod, string> = {
+  'flat': 'Flat per order',
+  'per-cube': 'Per cubic foot',
+  'per-box': 'Per box'
+};
+
+const EMPTY_TABLE: FreightTable = { method: 'per-box', rate: 0 };
+
+const parseAmount = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+export const FreightTableEditor: React.FC<FreightTableEditorProps> = ({ manufacturer, onSave }) => {
+  const [table, setTable] = useState<FreightTable | undefined>(manufacturer.freight);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Switching manufacturers (or an external save) resets the draft
+  useEffect(() => {
+    setTable(manufacturer.freight);
+    setIsDirty(false);
+  }, [manufacturer]);
+
+  const update = (updates: Partial<FreightTable>) => {
+    setTable(prev => ({ ...(prev || EMPTY_TABLE), ...updates }));
+    setIsDirty(true);
+  };
+
+  const updateZone = (index: number, updates: Partial<FreightZone>) =>
+    update({ zones: (table?.zones || []).map((z, i) => i === index ? { ...z, ...updates } : z) });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(table ? { ...table, zones: (table.zones || []).filter(z => z.zipPrefix.trim()) } : undefined);
+      setIsDirty(false);
+    } catch (err: any) {
+      alert("Failed to save freight table: " + (err.message || err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "block mt-0.5 border border-slate-300 rounded px-2 py-1 text-xs w-28";
+
+  return (
+    <section>
+      <div className="flex justify-between mb-4 gap-4">
+        <div>
+          <h4 className="font-semibold text-slate-800 flex items-center gap-2"><Truck className="w-5 h-5 text-sky-600"/> Freight</h4>
+          <p className="text-xs text-slate-500">Fills shipping and fuel on quotes from box count or cubic volume. Estimators can still type their own.</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          {table ? (
+            <Button size="sm" variant="outline" onClick={() => { setTable(undefined); setIsDirty(true); }}>Turn Off</Button>
+          ) : (
+            <Button size="sm" variant="outline" onClick={() => update({})}>Set Up</Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={!isDirty} isLoading={isSaving}>Save</Button>
+        </div>
+      </div>
+
+      <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-4 text-sm">
+        {!table ? (
+          <p className="text-slate-400 italic text-xs">No freight table. Shipping and fuel are entered by hand on each quote.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-4">
+              <label className="text-xs text-slate-600">
+                Method
+                <select className={`${inputClass} w-36 bg-white`} value={table.method} onChange={e => update({ method: e.target.value as FreightMethod })}>
+                  {(Object.keys(METHOD_LABELS) as FreightMethod[]).map(m => <option key={m} value={m}>{METHOD_LABELS[m]}</option>)}
+                </select>
+              </label>
+              <label className="text-xs text-slate-600">
+                Rate ($)
+                <input type="number" min="0" step="0.01" className={inputClass} value={table.rate} onChange={e => update({ rate: parseAmount(e.target.value) || 0 })} />
+              </label>
+              <label className="text-xs text-slate-600">
+                Minimum ($)
+                <input type="number" min="0" step="0.01" className={inputClass} value={table.minimumCharge ?? ''} onChange={e => update({ minimumCharge: parseAmount(e.target.value) })} />
+              </label>
+              <label className="text-xs text-slate-600">
+                Free over ($)
+                <input type="number" min="0" className={inputClass} value={table.freeOverAmount ?? ''} onChange={e => update({ freeOverAmount: parseAmount(e.target.value) })} />
+              </label>
+              <label className="text-xs text-slate-600">
+                Fuel (% of freight)
+                <input type="number" min="0" step="0.1" className={inputClass} value={table.fuelSurchargePct ?? ''} onChange={e => update({ fuelSurchargePct: parseAmount(e.target.value) })} />
+              </label>
+              <label className="text-xs text-slate-600">
+                Lbs per cu ft
+                <input type="number" min="0" step="0.5" className={inputClass} placeholder="9" value={table.poundsPerCubicFoot ?? ''} onChange={e => update({ poundsPerCubicFoot: parseAmount(e.target.value) })} />
+              </label>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Zip Zone Surcharges <span className="normal-case font-normal">(longest matching prefix applies)</span></div>
+                <button className="text-xs text-brand-600 hover:underline flex items-center gap-1" onClick={() => update({ zones: [...(table.zones || []), { zipPrefix: '', surcharge: 0 }] })}><Plus className="w-3 h-3"/> Add Zone</button>
+              </div>
+              {(table.zones || []).length === 0 && <p className="text-slate-400 italic text-xs">No zones.</p>}
+              <div className="space-y-1">
+                {(table.zones || []).map((zone, i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <input className="border border-slate-300 rounded px-2 py-1 text-xs w-24 font-mono" placeholder="Zip prefix" value={zone.zipPrefix} onChange={e => updateZone(i, { zipPrefix: e.target.value.trim() })} />
+                    <input className="border border-slate-300 rounded px-2 py-1 text-xs w-40" placeholder="Label (e.g. Alaska)" value={zone.label || ''} onChange={e => updateZone(i, { label: e.target.value || undefined })} />
+                    <span className="text-xs text-slate-400">+$</span>
+                    <input type="number" min="0" className="border border-slate-300 rounded px-2 py-1 text-xs w-24" value={zone.surcharge} onChange={e => updateZone(i, { surcharge: parseAmount(e.target.value) || 0 })} />
+                    <button className="text-slate-400 hover:text-red-600" onClick={() => update({ zones: (table.zones || []).filter((_, j) => j !== i) })}><Trash2 className="w-3 h-3"/></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from 'react';
+import { HardHat, Plus, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import { CabinetType, LaborRateCard, LaborServiceRate, LaborSpecialRate, Manufacturer } from '../types';
+
+interface LaborRateCardsEditorProps {
+  cards: LaborRateCard[];
+  manufacturers: Manufacturer[];
+  onSave: (cards: LaborRateCard[]) => Promise<void>;
+}
+
+const ANY = '';
+
+// Types a special item can claim outright, regardless of SKU
+const SPECIAL_TYPES: CabinetType[] = ['Panel', 'Filler', 'Accessory', 'Modification'];
+
+const newCard = (): LaborRateCard => ({
+  id: crypto.randomUUID(),
+  name: 'Standard Install',
+  perBox: 0,
+  perLinearFoot: 0,
+  specialItems: [
+    { id: crypto.randomUUID(), label: 'Crown molding', codePrefixes: ['CM'], rate: 0, unit: 'linear-foot' },
+    { id: crypto.randomUUID(), label: 'Light rail', codePrefixes: ['LR'], rate: 0, unit: 'linear-foot' },
+    { id: crypto.randomUUID(), label: 'Panels', codePrefixes: [], types: ['Panel'], rate: 0, unit: 'each' }
+  ],
+  services: [
+    { id: crypto.randomUUID(), label: 'Demo of existing cabinets', rate: 0, unit: 'flat' },
+    { id: crypto.randomUUID(), label: 'Haul-away', rate: 0, unit: 'flat' },
+    { id: crypto.randomUUID(), label: 'Delivery', rate: 0, unit: 'flat' }
+  ]
+});
+
+export const LaborRateCardsEditor: React.FC<LaborRateCardsEditorProps> = ({ cards, manufacturers, onSave }) => {
+  const [draft, setDraft] = useState<LaborRateCard[]>(cards);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // An external save resets the draft
+  useEffect(() => {
+    setDraft(cards);
+    setIsDirty(false);
+  }, [cards]);
+
+  const dealers = Array.from(new Set(manufacturers.map(m => m.dealerName).filter(Boolean))).sort() as string[];
+
+  const update = (id: string, updates: Partial<LaborRateCard>) => {
+    setDraft(prev => prev.map(c => c.id === id ? { ...c, ...updates } : c));
+    setIsDirty(true);
+  };
+
+  const updateSpecial = (card: LaborRateCard, specialId: string, updates: Partial<LaborSpecialRate>) =>
+    update(card.id, { specialItems: card.specialItems.map(s => s.id === specialId ? { ...s, ...updates } : s) });
+
+  const updateService = (card: LaborRateCard, serviceId: string, updates: Partial<LaborServiceRate>) =>
+    update(card.id, { services: card.services.map(s => s.id === serviceId ? { ...s, ...updates } : s) });
+
+  const add = () => {
+    setDraft(prev => [...prev, newCard()]);
+    setIsDirty(true);
+  };
+
+  const remove = (id: string) => {
+    setDraft(prev => prev.filter(c => c.id !== id));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft.map(c => ({ ...c, specialItems: c.specialItems.map(s => ({ ...s, codePrefixes: s.codePrefixes.filter(Boolean) })) })));
+      setIsDirty(false);
+    } catch (err: any) {
+      alert("Failed to save labor rates: " + (err.message || err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = "border border-slate-300 rounded px-2 py-1 text-xs bg-white";
+  const rateInput = (value: number | undefined, onChange: (value: number | undefined) => void, placeholder?: string) => (
+    <div className="relative w-24">
+      <span className="absolute left-2 top-1 text-slate-400 text-xs">$</span>
+      <input type="number" min="0" step="0.01" className={`${inputClass} w-full pl-5`} placeholder={placeholder} value={value ?? ''} onChange={e => { const n = parseFloat(e.target.value); onChange(isNaN(n) ? undefined : n); }} />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex justify-between mb-4 gap-4">
+        <div>
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2"><HardHat className="w-5 h-5 text-brand-600"/> Installation Labor Rates</h2>
+          <p className="text-xs text-slate-500">Installer pricing per box, per linear foot of cabinets and per special item. Estimators pick a card and any services on the quote.</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button size="sm" variant="outline" onClick={add} className="gap-1"><Plus className="w-3 h-3"/> Add Rate Card</Button>
+          <Button size="sm" onClick={handleSave} disabled={!isDirty} isLoading={isSaving}>Save</Button>
+        </div>
+      </div>
+
+      {draft.length === 0 ? (
+        <p className="text-slate-400 italic text-xs">No rate cards. Quotes are product only.</p>
+      ) : (
+        <div className="space-y-4">
+          {draft.map(card => (
+            <div key={card.id} className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-4 text-sm">
+              <div className="flex flex-wrap items-end gap-4">
+                <label className="text-xs text-slate-600">
+                  Name
+                  <input className={`${inputClass} block mt-0.5 w-44`} value={card.name} onChange={e => update(card.id, { name: e.target.value })} />
+                </label>
+                <label className="text-xs text-slate-600">
+                  Dealer
+                  <select className={`${inputClass} block mt-0.5`} value={card.dealerName || ANY} onChange={e => update(card.id, { dealerName: e.target.value || undefined })}>
+                    <option value={ANY}>Any dealer</option>
+                    {dealers.map(d => <option key={d} value={d}>{d}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs text-slate-600">Per box{rateInput(card.perBox, v => update(card.id, { perBox: v || 0 }))}</label>
+                <label className="text-xs text-slate-600">Per linear ft{rateInput(card.perLinearFoot, v => update(card.id, { perLinearFoot: v || 0 }))}</label>
+                <label className="text-xs text-slate-600">Minimum{rateInput(card.minimumCharge, v => update(card.id, { minimumCharge: v }), 'None')}</label>
+                <button className="ml-auto text-slate-400 hover:text-red-600" onClick={() => remove(card.id)} title="Remove rate card"><Trash2 className="w-4 h-4"/></button>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Special Items <span className="normal-case font-normal">(priced instead of the per-box rate)</span></div>
+                  <button className="text-xs text-brand-600 hover:underline flex items-center gap-1" onClick={() => update(card.id, { specialItems: [...card.specialItems, { id: crypto.randomUUID(), label: '', codePrefixes: [], rate: 0, unit: 'each' }] })}><Plus className="w-3 h-3"/> Add Item</button>
+                </div>
+                {card.specialItems.length === 0 && <p className="text-slate-400 italic text-xs">No special items.</p>}
+                <div className="space-y-1">
+                  {card.specialItems.map(s => (
+                    <div key={s.id} className="flex flex-wrap items-center gap-2">
+                      <input className={`${inputClass} w-40`} placeholder="Label (e.g. Crown molding)" value={s.label} onChange={e => updateSpecial(card, s.id, { label: e.target.value })} />
+                      <input className={`${inputClass} w-36 font-mono`} placeholder="SKU prefixes: CM, LR" value={s.codePrefixes.join(', ')} onChange={e => updateSpecial(card, s.id, { codePrefixes: e.target.value.split(',').map(p => p.trim().toUpperCase()) })} />
+                      <select className={inputClass} value={s.types?.[0] || ANY} onChange={e => updateSpecial(card, s.id, { types: e.target.value ? [e.target.value as CabinetType] : undefined })}>
+                        <option value={ANY}>Any type</option>
+                        {SPECIAL_TYPES.map(t => <option key={t} value={t}>All {t} lines</option>)}
+                      </select>
+                      {rateInput(s.rate, v => updateSpecial(card, s.id, { rate: v || 0 }))}
+                      <select className={inputClass} value={s.unit} onChange={e => updateSpecial(card, s.id, { unit: e.target.value as LaborSpecialRate['unit'] })}>
+                        <option value="each">each</option>
+                        <option value="linear-foot">per linear ft</option>
+                      </select>
+                      <button className="text-slate-400 hover:text-red-600" onClick={() => update(card.id, { specialItems: card.specialItems.filter(x => x.id !== s.id) })}><Trash2 className="w-3 h-3"/></button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">Optional Services</div>
+                  <button className="text-xs text-brand-600 hover:underline flex items-center gap-1" onClick={() => update(card.id, { services: [...card.services, { id: crypto.randomUUID(), label: '', rate: 0, unit: 'flat' }] })}><Plus className="w-3 h-3"/> Add Service</button>
+                </div>
+                {card.services.length === 0 && <p className="text-slate-400 italic text-xs">No services.</p>}
+                <div className="space-y-1">
+                  {card.services.map(s => (
+                    <div key={s.id} className="flex items-center gap-2">
+                      <input className={`${inputClass} w-52`} placeholder="Label (e.g. Haul-away)" value={s.label} onChange={e => updateService(card, s.id, { label: e.target.value })} />
+                      {rateInput(s.rate, v => updateService(card, s.id, { rate: v || 0 }))}
+                      <select className={inputClass} value={s.unit} onChange={e => updateService(card, s.id, { unit: e.target.value as LaborServiceRate['unit'] })}>
+                        <option value="flat">flat</option>
+                        <option value="per-box">per box</option>
+                      </select>
+                      <button className="text-slate-400 hover:text-red-600" onClick={() => update(card.id, { services: card.services.filter(x => x.id !== s.id) })}><Trash2 className="w-3 h-3"/></button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -10,6 +10,7 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
 
   const handleLogout = () => {
     sessionStorage.removeItem('kabs_is_admin');
+    sessionStorage.removeItem('kabs_admin_user');
     navigate('/');
   };
 
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { X, Scale, Loader2, ChevronRight, Link2 } from 'lucide-react';
+import { Button } from './Button';
+import { Manufacturer, Project } from '../types';
+import { storage } from '../services/storage';
+import { buildComparisonMatrix, ComparisonMatrix, ComparisonTarget, comparisonKey } from '../services/manufacturerComparison';
+import { formatCents, toCents } from '../services/money';
+import { GENERAL_ROOM } from '../services/quoteTotals';
+
+interface ManufacturerComparisonProps {
+  project: Project;
+  manufacturers: Manufacturer[];
+  dealerName?: string | null; // Pre-filters to one dealer's lines
+  onUse: (manufacturer: Manufacturer, tierId: string) => void;
+  onClose: () => void;
+}
+
+export const ManufacturerComparison: React.FC<ManufacturerComparisonProps> = ({ project, manufacturers, dealerName, onUse, onClose }) => {
+  const [dealer, setDealer] = useState<string>(dealerName || '');
+  const [targets, setTargets] = useState<ComparisonTarget[]>([]);
+  const [matrix, setMatrix] = useState<ComparisonMatrix | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [showLines, setShowLines] = useState(false);
+
+  const dealers = Array.from(new Set(manufacturers.map(m => m.dealerName).filter(Boolean))).sort() as string[];
+  const visible = manufacturers.filter(m => !dealer || m.dealerName === dealer);
+
+  const isSelected = (target: ComparisonTarget) => targets.some(t => comparisonKey(t) === comparisonKey(target));
+  const toggle = (target: ComparisonTarget) => {
+    setTargets(prev => isSelected(target) ? prev.filter(t => comparisonKey(t) !== comparisonKey(target)) : [...prev, target]);
+  };
+
+  const handleCompare = async () => {
+    setIsRunning(true);
+    try {
+      const ids = Array.from(new Set(targets.map(t => t.manufacturerId)));
+      for (const id of ids) {
+        const mfg = manufacturers.find(m => m.id === id);
+        if (mfg && (!mfg.catalog || Object.keys(mfg.catalog).length === 0)) {
+          mfg.catalog = await storage.getManufacturerCatalog(id);
+        }
+      }
+      setMatrix(buildComparisonMatrix(project.items, targets, manufacturers, project.financials));
+    } catch (err: any) {
+      alert("Comparison failed: " + (err.message || err));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const selectClass = "p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none";
+  const cellBorder = "border-l border-slate-200";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-xl w-full max-w-6xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Scale className="w-5 h-5 text-brand-600"/> Compare Manufacturers</h3>
+          <button onClick={onClose}><X className="w-6 h-6 text-slate-400"/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-8 flex-1">
+          <section>
+            <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+              <h4 className="font-semibold text-slate-800">Lines and Tiers to Price</h4>
+              {dealers.length > 0 && (
+                <select className={selectClass} value={dealer} onChange={e => setDealer(e.target.value)}>
+                  <option value="">All Dealers</option>
+                  {dealers.map(d => <option key={d} value={d}>{d}</option>)}
+                </select>
+              )}
+            </div>
+            <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-3">
+              {visible.map(mfg => (
+                <div key={mfg.id} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="font-medium text-slate-800 w-48 truncate">{mfg.name}</span>
+                  {mfg.tiers.map(tier => {
+                    const target = { manufacturerId: mfg.id, tierId: tier.id };
+                    const on = isSelected(target);
+                    return (
+                      <button key={tier.id} onClick={() => toggle(target)} className={`text-xs px-2 py-0.5 rounded-full border ${on ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-600 border-slate-300 hover:border-brand-400'}`}>
+                        {tier.name}
+                      </button>
+                    );
+                  })}
+                </div>
+              ))}
+              {visible.length === 0 && <p className="text-slate-400 italic text-xs">No manufacturers for this dealer.</p>}
+            </div>
+            <div className="flex items-center justify-between mt-3">
+              <p className="text-xs text-slate-500">Prices {project.items.length} items with default specs, each line's own multiplier and the project margin.</p>
+              <Button onClick={handleCompare} isLoading={isRunning} disabled={targets.length === 0}>Compare {targets.length > 0 ? `(${targets.length})` : ''}</Button>
+            </div>
+          </section>
+
+          {isRunning && !matrix && <div className="p-6 flex justify-center"><Loader2 className="w-5 h-5 animate-spin text-brand-600"/></div>}
+
+          {matrix && matrix.columns.length > 0 && (
+            <section>
+              <h4 className="font-semibold text-slate-800 mb-2">Results</h4>
+              <div className="border border-slate-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-600">
+                    <tr>
+                      <th className="p-3 text-left w-40"></th>
+                      {matrix.columns.map(col => (
+                        <th key={col.key} className={`p-3 text-right align-top min-w-[150px] ${cellBorder} ${col.key === matrix.cheapestColumnKey ? 'bg-green-50' : ''}`}>
+                          <div className="font-bold text-slate-900">{col.manufacturer.name}</div>
+                          <div className="text-xs font-normal text-slate-500">{col.tier.name}</div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {matrix.rooms.map(room => (
+                      <tr key={room}>
+                        <td className="p-3 text-slate-600">{room === GENERAL_ROOM ? 'General / Additional' : room}</td>
+                        {matrix.columns.map(col => (
+                          <td key={col.key} className={`p-3 text-right font-mono ${cellBorder}`}>{col.roomSubtotals[room] !== undefined ? formatCents(col.roomSubtotals[room]) : '—'}</td>
+                        ))}
+                      </tr>
+                    ))}
+                    <tr className="bg-slate-100">
+                      <td className="p-3 font-bold text-slate-900">Grand Total</td>
+                      {matrix.columns.map(col => (
+                        <td key={col.key} className={`p-3 text-right font-mono font-bold ${cellBorder} ${col.key === matrix.cheapestColumnKey ? 'text-green-700' : 'text-slate-900'}`}>{formatCents(col.totals.grandTotal)}</td>
+                      ))}
+                    </tr>
+                    <tr>
+                      <td className="p-3 text-slate-600">Unmatched</td>
+                      {matrix.columns.map(col => (
+                        <td key={col.key} className={`p-3 text-right ${cellBorder} ${col.unmatchedCount > 0 ? 'text-red-600 font-bold' : 'text-slate-400'}`}>
+                          {col.unmatchedCount}{col.fallbackCount > 0 && <span className="text-amber-600 font-normal"> (+{col.fallbackCount} fallback)</span>}
+                        </td>
+                      ))}
+                    </tr>
+                    <tr>
+                      <td className="p-3"></td>
+                      {matrix.columns.map(col => (
+                        <td key={col.key} className={`p-3 text-right ${cellBorder}`}>
+                          <button className="text-xs text-brand-600 hover:underline inline-flex items-center gap-1" onClick={() => onUse(col.manufacturer, col.tier.id)}><Link2 className="w-3 h-3"/> Use this line</button>
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              {matrix.columns.length > 1 && !matrix.cheapestColumnKey && (
+                <p className="text-xs text-amber-700 mt-2">Every option has unmatched lines, so none is marked cheapest. Totals leave unmatched lines out.</p>
+              )}
+
+              <button className="mt-4 text-sm text-slate-600 hover:text-brand-600 flex items-center gap-1" onClick={() => setShowLines(!showLines)}>
+                <ChevronRight className={`w-4 h-4 transition-transform ${showLines ? 'rotate-90' : ''}`}/> Line by line ({matrix.rows.length})
+              </button>
+              {showLines && (
+                <div className="mt-2 border border-slate-200 rounded-lg overflow-x-auto max-h-96 overflow-y-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500 uppercase sticky top-0">
+                      <tr>
+                        <th className="p-2 text-left">Room</th>
+                        <th className="p-2 text-left">Code</th>
+                        <th className="p-2 text-center">Qty</th>
+                        {matrix.columns.map(col => <th key={col.key} className={`p-2 text-right ${cellBorder}`}>{col.manufacturer.name} · {col.tier.name}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {matrix.rows.map(row => (
+                        <tr key={row.item.id}>
+                          <td className="p-2 text-slate-500">{row.item.room || GENERAL_ROOM}</td>
+                          <td className="p-2 font-mono font-bold text-slate-800">{row.item.originalCode}</td>
+                          <td className="p-2 text-center">{row.item.quantity}</td>
+                          {matrix.columns.map(col => {
+                            const cell = row.cells[col.key];
+                            if (!cell || cell.status === 'unmatched') return <td key={col.key} className={`p-2 text-right text-red-500 ${cellBorder}`}>No match</td>;
+                            const cheapest = row.cheapestKey === col.key;
+                            return (
+                              <td key={col.key} className={`p-2 text-right font-mono ${cellBorder} ${cheapest ? 'bg-green-50 text-green-700 font-bold' : ''}`} title={cell.matchedSku ? `Matched ${cell.matchedSku}` : undefined}>
+                                {formatCents(toCents(cell.totalPrice))}
+                                {cell.status === 'fallback' && <span className="ml-1 text-[9px] font-bold text-amber-600">FALLBACK</span>}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
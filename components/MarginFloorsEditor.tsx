@@ -0,0 +1,126 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, Plus, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import { Manufacturer, MarginFloor } from '../types';
+
+interface MarginFloorsEditorProps {
+  floors: MarginFloor[];
+  manufacturers: Manufacturer[];
+  onSave: (floors: MarginFloor[]) => Promise<void>;
+}
+
+const ANY = '';
+
+export const MarginFloorsEditor: React.FC<MarginFloorsEditorProps> = ({ floors, manufacturers, onSave }) => {
+  const [draft, setDraft] = useState<MarginFloor[]>(floors);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // An external save resets the draft
+  useEffect(() => {
+    setDraft(floors);
+    setIsDirty(false);
+  }, [floors]);
+
+  const dealers = Array.from(new Set(manufacturers.map(m => m.dealerName).filter(Boolean))).sort() as string[];
+
+  const update = (id: string, updates: Partial<MarginFloor>) => {
+    setDraft(prev => prev.map(f => f.id === id ? { ...f, ...updates } : f));
+    setIsDirty(true);
+  };
+
+  const add = () => {
+    setDraft(prev => [...prev, { id: crypto.randomUUID(), minMargin: 20 }]);
+    setIsDirty(true);
+  };
+
+  const remove = (id: string) => {
+    setDraft(prev => prev.filter(f => f.id !== id));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      setIsDirty(false);
+    } catch (err: any) {
+      alert("Failed to save margin floors: " + (err.message || err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectClass = "border border-slate-300 rounded px-2 py-1 text-xs bg-white";
+
+  return (
+    <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
+      <div className="flex justify-between mb-4 gap-4">
+        <div>
+          <h2 className="font-semibold text-slate-800 flex items-center gap-2"><ShieldAlert className="w-5 h-5 text-brand-600"/> Margin Floors</h2>
+          <p className="text-xs text-slate-500">Minimum gross margin after dealer discount. Quotes under their floor need an admin's approval before a PDF can be issued. The most specific matching row applies.</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button size="sm" variant="outline" onClick={add} className="gap-1"><Plus className="w-3 h-3"/> Add Floor</Button>
+          <Button size="sm" onClick={handleSave} disabled={!isDirty} isLoading={isSaving}>Save</Button>
+        </div>
+      </div>
+
+      {draft.length === 0 ? (
+        <p className="text-slate-400 italic text-xs">No floors set. Any margin is allowed.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead className="text-xs text-slate-500 uppercase">
+            <tr>
+              <th className="text-left p-2">Dealer</th>
+              <th className="text-left p-2">Manufacturer</th>
+              <th className="text-left p-2">Tier</th>
+              <th className="text-left p-2">Min Margin</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {draft.map(floor => {
+              const mfg = manufacturers.find(m => m.id === floor.manufacturerId);
+              return (
+                <tr key={floor.id}>
+                  <td className="p-2">
+                    <select className={selectClass} value={floor.dealerName || ANY} onChange={e => update(floor.id, { dealerName: e.target.value || undefined })}>
+                      <option value={ANY}>Any dealer</option>
+                      {dealers.map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    <select className={selectClass} value={floor.manufacturerId || ANY} onChange={e => update(floor.id, { manufacturerId: e.target.value || undefined, tierName: undefined })}>
+                      <option value={ANY}>Any manufacturer</option>
+                      {manufacturers.filter(m => !floor.dealerName || m.dealerName === floor.dealerName).map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+                    </select>
+                  </td>
+                  <td className="p-2">
+                    {mfg ? (
+                      <select className={selectClass} value={floor.tierName || ANY} onChange={e => update(floor.id, { tierName: e.target.value || undefined })}>
+                        <option value={ANY}>Any tier</option>
+                        {mfg.tiers.map(t => <option key={t.id} value={t.name}>{t.name}</option>)}
+                      </select>
+                    ) : (
+                      <input className={`${selectClass} w-32`} placeholder="Any tier" value={floor.tierName || ''} onChange={e => update(floor.id, { tierName: e.target.value || undefined })} />
+                    )}
+                  </td>
+                  <td className="p-2">
+                    <div className="relative w-24">
+                      <input type="number" step="0.5" className={`${selectClass} w-full pr-6`} value={floor.minMargin} onChange={e => update(floor.id, { minMargin: parseFloat(e.target.value) || 0 })} />
+                      <span className="absolute right-2 top-1 text-slate-400 text-xs">%</span>
+                    </div>
+                  </td>
+                  <td className="p-2 text-right">
+                    <button className="text-slate-400 hover:text-red-600" onClick={() => remove(floor.id)} title="Remove floor"><Trash2 className="w-4 h-4"/></button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React from 'react';
+import { CheckCircle2, XCircle, AlertTriangle, Info } from 'lucide-react';
+import { MatchPass, PricingLineItem, TierResolution } from '../types';
+
+interface MatchTracePanelProps {
+  item: PricingLineItem;
+}
+
+const PASS_LABELS: Record<MatchPass, string> = {
+  'alias': '0. Manufacturer alias / rule',
+  'original': '1. Original code',
+  'exact-keys': '2. Smart keys (exact)',
+  'similar-keys': '3. Smart keys (similar)',
+  'loose': '4. Loose match on original',
+  'global-prefix': '5. Global prefix scan',
+  'extracted-price': 'Price from plan'
+};
+
+const TIER_LABELS: Record<TierResolution, string> = {
+  'direct': 'requested column',
+  'fuzzy': 'similar column name',
+  'single-column': 'only column in the row',
+  'generic': 'generic price column',
+  'blind': 'first column (blind fallback)'
+};
+
+export const MatchTracePanel: React.FC<MatchTracePanelProps> = ({ item }) => {
+  const trace = item.matchTrace;
+  if (!trace) {
+    return <div className="text-xs text-slate-500 flex items-center gap-2"><Info className="w-4 h-4" /> No match trace for this line. Re-run pricing to generate one.</div>;
+  }
+
+  // Group consecutive steps by pass, keeping the order they ran in
+  const passes: { pass: MatchPass; steps: typeof trace.steps }[] = [];
+  trace.steps.forEach(step => {
+    const last = passes[passes.length - 1];
+    if (last && last.pass === step.pass) last.steps.push(step);
+    else passes.push({ pass: step.pass, steps: [step] });
+  });
+
+  return (
+    <div className="text-xs space-y-3">
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-slate-600">
+        <span><span className="font-bold text-slate-800">Result:</span> {trace.acceptedPass
+          ? <>{trace.matchedSku ? <span className="font-mono font-bold">{trace.matchedSku}</span> : item.originalCode} via {PASS_LABELS[trace.acceptedPass]}{trace.method ? ` (${trace.method})` : ''}</>
+          : <span className="text-red-600 font-bold">No catalog match</span>}
+        </span>
+        <span><span className="font-bold text-slate-800">Requested tier:</span> {trace.requestedTier || '—'}</span>
+        {trace.tierColumn && (
+          <span className={trace.usedFallbackTier ? 'text-amber-700 font-bold' : ''}>
+            <span className="font-bold text-slate-800">Price column:</span> {trace.tierColumn} ({TIER_LABELS[trace.tierResolution!]})
+          </span>
+        )}
+      </div>
+
+      {trace.usedFallbackTier && (
+        <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 rounded p-2">
+          <AlertTriangle className="w-4 h-4 shrink-0" />
+          <span>The catalog row for {trace.matchedSku} has no "{trace.requestedTier}" column, so the price was read from "{trace.tierColumn}". Verify it against the price book.</span>
+        </div>
+      )}
+      {item.source === 'Manual Override' && (
+        <div className="flex items-center gap-2 text-slate-500"><Info className="w-4 h-4" /> The unit price was overridden manually after matching.</div>
+      )}
+
+      <div className="border border-slate-200 rounded divide-y divide-slate-100 bg-white">
+        {passes.map((group, i) => (
+          <div key={i} className="p-2">
+            <div className="font-bold text-slate-500 uppercase tracking-wider text-[10px] mb-1">{PASS_LABELS[group.pass]}</div>
+            <div className="space-y-0.5">
+              {group.steps.map((step, j) => (
+                <div key={j} className={`flex items-center gap-2 ${step.accepted ? 'text-green-700 font-bold' : 'text-slate-500'}`}>
+                  {step.accepted ? <CheckCircle2 className="w-3 h-3 shrink-0" /> : <XCircle className="w-3 h-3 shrink-0 text-slate-300" />}
+                  <span className="font-mono w-28 shrink-0">{step.key}</span>
+                  <span>{step.reason}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { SlidersHorizontal, ChevronRight, RotateCcw } from 'lucide-react';
+import { Button } from './Button';
+import { CabinetType, Manufacturer, ManufacturerOption, OptionApplicability, OptionChargeBasis, OptionConstraints } from '../types';
+import { ALL_CABINET_TYPES, CHARGE_BASIS_LABELS, describeApplicability, getChargeBasis, getOptionApplicability } from '../services/optionApplicability';
+
+interface OptionRulesEditorProps {
+  manufacturer: Manufacturer;
+  onSave: (options: ManufacturerOption[]) => Promise<void>;
+}
+
+const PAGE_SIZE = 50;
+
+const parseWidth = (value: string): number | undefined => {
+  const n = parseFloat(value);
+  return isNaN(n) ? undefined : n;
+};
+
+// Comma-separated list input that commits on blur (remounts when the saved value changes)
+const ListField = ({ label, values, placeholder, mono = false, upperCase = false, onCommit }: {
+  label: string; values?: string[]; placeholder: string; mono?: boolean; upperCase?: boolean; onCommit: (values: string[] | undefined) => void;
+}) => (
+  <label className="text-xs text-slate-600">
+    {label}
+    <input
+      key={(values || []).join(',')}
+      className={`block mt-0.5 border border-slate-300 rounded px-2 py-1 text-xs w-56 ${mono ? 'font-mono' : ''}`}
+      placeholder={placeholder}
+      defaultValue={(values || []).join(', ')}
+      onBlur={e => {
+        const next = e.target.value.split(',').map(p => upperCase ? p.trim().toUpperCase() : p.trim()).filter(Boolean);
+        if (next.join(',') === (values || []).join(',')) return;
+        onCommit(next.length > 0 ? next : undefined);
+      }}
+    />
+  </label>
+);
+
+export const OptionRulesEditor: React.FC<OptionRulesEditorProps> = ({ manufacturer, onSave }) => {
+  const [options, setOptions] = useState<ManufacturerOption[]>(manufacturer.options || []);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  // Switching manufacturers (or an external save) resets the draft
+  useEffect(() => {
+    setOptions(manufacturer.options || []);
+    setIsDirty(false);
+  }, [manufacturer]);
+
+  const update = (id: string, updates: Partial<ManufacturerOption>) => {
+    setOptions(prev => prev.map(o => o.id === id ? { ...o, ...updates } : o));
+    setIsDirty(true);
+  };
+
+  // The first edit copies the name/section default so the option keeps behaving the same until changed
+  const updateRules = (opt: ManufacturerOption, updates: Partial<OptionApplicability>) =>
+    update(opt.id, { appliesTo: { ...getOptionApplicability(opt), ...updates } });
+
+  const updateConstraints = (opt: ManufacturerOption, updates: Partial<OptionConstraints>) =>
+    update(opt.id, { constraints: { ...opt.constraints, ...updates } });
+
+  const toggleType = (opt: ManufacturerOption, type: CabinetType) => {
+    const current = getOptionApplicability(opt).cabinetTypes || [];
+    const next = current.includes(type) ? current.filter(t => t !== type) : [...current, type];
+    updateRules(opt, { cabinetTypes: next.length > 0 ? next : undefined });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave(options);
+      setIsDirty(false);
+    } catch (err: any) {
+      alert("Failed to save option rules: " + (err.message || err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const filtered = options.filter(o => !query || o.name.toLowerCase().includes(query) || o.section.toLowerCase().includes(query));
+  const visible = showAll ? filtered : filtered.slice(0, PAGE_SIZE);
+
+  return (
+    <section>
+      <div className="flex justify-between mb-4 gap-4">
+        <div>
+          <h4 className="font-semibold text-slate-800 flex items-center gap-2"><SlidersHorizontal className="w-5 h-5 text-orange-600"/> Option Rules</h4>
+          <p className="text-xs text-slate-500">Which cabinets each option is charged on, how often, and what it can be combined with. Options without rules use their section's default.</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <Button size="sm" onClick={handleSave} disabled={!isDirty} isLoading={isSaving}>Save</Button>
+        </div>
+      </div>
+
+      <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-2 text-sm">
+        <input className="w-full border border-slate-300 rounded px-2 py-1 text-xs" placeholder={`Filter ${options.length} options by name or section...`} value={search} onChange={e => setSearch(e.target.value)} />
+
+        {options.length === 0 && <p className="text-slate-400 italic text-xs">No options imported yet.</p>}
+
+        <div className="space-y-1 max-h-96 overflow-y-auto">
+          {visible.map(opt => {
+            const rules = getOptionApplicability(opt);
+            const isOpen = expandedId === opt.id;
+            return (
+              <div key={opt.id} className="bg-white border border-slate-200 rounded">
+                <button className="w-full flex items-center gap-2 px-2 py-1 text-left" onClick={() => setExpandedId(isOpen ? null : opt.id)}>
+                  <ChevronRight className={`w-3 h-3 text-slate-400 shrink-0 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                  <span className="font-medium text-slate-800 truncate flex-1">{opt.name}</span>
+                  <span className="text-[10px] text-slate-400 shrink-0">{opt.section}</span>
+                  <span className="text-xs text-slate-600 w-16 text-right shrink-0">{opt.pricingType === 'percentage' ? `${(opt.price > 1 ? opt.price : opt.price * 100).toFixed(0)}%` : opt.pricingType === 'included' ? 'Incl.' : `$${opt.price}`}</span>
+                </button>
+                {!isOpen && <div className="px-7 pb-1 text-[10px] text-slate-500 truncate">{describeApplicability(opt)}</div>}
+
+                {isOpen && (
+                  <div className="px-7 pb-3 pt-1 space-y-3 border-t border-slate-100">
+                    <div>
+                      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Cabinet Types <span className="normal-case font-normal">(none selected = all cabinets; hardware, appliances and finishing must be picked)</span></div>
+                      <div className="flex flex-wrap gap-1">
+                        {ALL_CABINET_TYPES.map(type => {
+                          const on = (rules.cabinetTypes || []).includes(type);
+                          return (
+                            <button key={type} onClick={() => toggleType(opt, type)} className={`text-xs px-2 py-0.5 rounded-full border ${on ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-600 border-slate-300 hover:border-brand-400'}`}>
+                              {type}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-4">
+                      <ListField label="SKU patterns" values={rules.skuPatterns} placeholder="e.g. W, SB*, !BF" mono upperCase onCommit={skuPatterns => updateRules(opt, { skuPatterns })} />
+                      <label className="text-xs text-slate-600">
+                        Width from
+                        <input type="number" className="block mt-0.5 border border-slate-300 rounded px-2 py-1 text-xs w-20" value={rules.minWidth ?? ''} onChange={e => updateRules(opt, { minWidth: parseWidth(e.target.value) })} />
+                      </label>
+                      <label className="text-xs text-slate-600">
+                        to
+                        <input type="number" className="block mt-0.5 border border-slate-300 rounded px-2 py-1 text-xs w-20" value={rules.maxWidth ?? ''} onChange={e => updateRules(opt, { maxWidth: parseWidth(e.target.value) })} />
+                      </label>
+                      <label className="text-xs text-slate-600">
+                        Charge
+                        <select
+                          className="block mt-0.5 border border-slate-300 rounded px-2 py-1 text-xs disabled:bg-slate-100"
+                          value={getChargeBasis(opt)}
+                          disabled={opt.pricingType !== 'fixed'}
+                          title={opt.pricingType !== 'fixed' ? 'Percentage options always apply to each cabinet' : undefined}
+                          onChange={e => update(opt.id, { chargeBasis: e.target.value as OptionChargeBasis })}
+                        >
+                          {(Object.keys(CHARGE_BASIS_LABELS) as OptionChargeBasis[]).map(basis => <option key={basis} value={basis}>{CHARGE_BASIS_LABELS[basis]}</option>)}
+                        </select>
+                      </label>
+                    </div>
+
+                    <div>
+                      <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-1">Constraints <span className="normal-case font-normal">(option names, comma-separated)</span></div>
+                      <div className="flex flex-wrap gap-4">
+                        <ListField label="Requires" values={opt.constraints?.requires} placeholder="e.g. Soft Close Hinges" onCommit={requires => updateConstraints(opt, { requires })} />
+                        <ListField label="Can't combine with" values={opt.constraints?.excludes} placeholder="e.g. Painted White" onCommit={excludes => updateConstraints(opt, { excludes })} />
+                        <ListField label="Only with species" values={opt.constraints?.onlyWithSpecies} placeholder={opt.availability && !/^(yes|no)$/i.test(opt.availability) ? `From workbook: ${opt.availability}` : 'e.g. Maple, Cherry'} onCommit={onlyWithSpecies => updateConstraints(opt, { onlyWithSpecies })} />
+                        <ListField label="Only with door styles" values={opt.constraints?.onlyWithDoorStyles} placeholder="e.g. Shaker" onCommit={onlyWithDoorStyles => updateConstraints(opt, { onlyWithDoorStyles })} />
+                      </div>
+                    </div>
+
+                    {opt.appliesTo && (
+                      <button className="text-xs text-slate-500 hover:text-brand-600 flex items-center gap-1" onClick={() => update(opt.id, { appliesTo: undefined })}>
+                        <RotateCcw className="w-3 h-3"/> Reset to default
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {filtered.length > PAGE_SIZE && (
+          <button className="text-xs text-slate-500 hover:underline" onClick={() => setShowAll(!showAll)}>
+            {showAll ? 'Show fewer' : `Show all ${filtered.length}`}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, History, Save, ArrowRight, FileText, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import { Project, QuoteRevision } from '../types';
+import { storage } from '../services/storage';
+import { diffRevisions, getProjectGrandTotal, RevisionLine } from '../services/revisions';
+
+interface RevisionHistoryProps {
+  project: Project;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const fmt = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const LineCell: React.FC<{ line?: RevisionLine; highlight?: string[] }> = ({ line, highlight = [] }) => {
+  if (!line) return <td className="p-2 text-slate-300 text-center" colSpan={3}>—</td>;
+  const hl = (field: string) => highlight.includes(field) ? 'font-bold text-amber-700' : '';
+  return (
+    <>
+      <td className="p-2">
+        <div className="font-mono font-bold text-slate-800">{line.code}</div>
+        <div className={`text-[10px] text-slate-500 truncate max-w-[180px] ${hl('description')}`}>{line.description}</div>
+      </td>
+      <td className={`p-2 text-center ${hl('quantity')}`}>{line.quantity}</td>
+      <td className={`p-2 text-right ${hl('total')}`}>{fmt(line.total)}</td>
+    </>
+  );
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ project, onClose }) => {
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [note, setNote] = useState('');
+  const [baseId, setBaseId] = useState<string>('');
+  const [targetId, setTargetId] = useState<string>(CURRENT);
+
+  useEffect(() => {
+    storage.listRevisions(project.id).then(list => {
+        setRevisions(list);
+        if (list.length > 0) setBaseId(list[list.length - 1].id);
+        setIsLoading(false);
+    });
+  }, [project.id]);
+
+  // The live project is presented as a pseudo-revision so it can be compared against history
+  const currentAsRevision = useMemo(() => ({
+    snapshot: { items: project.items, pricing: project.pricing },
+    grandTotal: getProjectGrandTotal(project)
+  }), [project]);
+
+  const resolve = (id: string) => id === CURRENT ? currentAsRevision : revisions.find(r => r.id === id);
+  const labelFor = (id: string) => {
+    if (id === CURRENT) return 'Current (unsaved)';
+    const rev = revisions.find(r => r.id === id);
+    return rev ? `Rev ${rev.revisionNumber}` : '';
+  };
+
+  const base = resolve(baseId);
+  const target = resolve(targetId);
+  const diff = useMemo(() => (base && target ? diffRevisions(base, target) : null), [base, target]);
+
+  const handleSaveRevision = async () => {
+    setIsSaving(true);
+    try {
+        const rev = await storage.createRevision(project, 'manual', note);
+        setRevisions(prev => [...prev, rev]);
+        setBaseId(rev.id);
+        setNote('');
+    } catch (e) {
+        console.error("Revision save failed", e);
+        alert("Failed to save revision.");
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  const selectClass = "p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-xl w-full max-w-5xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h3 className="text-xl font-bold flex items-center gap-2"><History className="w-5 h-5 text-brand-600"/> Quote Revisions</h3>
+          <button onClick={onClose}><X className="w-6 h-6 text-slate-400"/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-8 flex-1">
+          <section>
+            <h4 className="font-semibold text-slate-800 mb-2">Save Current Quote as Revision</h4>
+            <div className="flex gap-2">
+              <input
+                className="flex-1 border border-slate-300 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                placeholder="Optional note (e.g. 'Before switching to painted')"
+                value={note}
+                onChange={e => setNote(e.target.value)}
+              />
+              <Button onClick={handleSaveRevision} isLoading={isSaving} className="gap-2"><Save className="w-4 h-4"/> Save Revision</Button>
+            </div>
+          </section>
+
+          <section>
+            <h4 className="font-semibold text-slate-800 mb-2">History</h4>
+            {isLoading ? (
+              <div className="p-6 flex justify-center"><Loader2 className="w-5 h-5 animate-spin text-brand-600"/></div>
+            ) : revisions.length === 0 ? (
+              <p className="text-sm text-slate-400 italic">No revisions yet. One is saved automatically every time a PDF is generated.</p>
+            ) : (
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-56 overflow-y-auto">
+                {[...revisions].reverse().map(rev => (
+                  <div key={rev.id} className="px-4 py-2 flex items-center justify-between text-sm">
+                    <div>
+                      <span className="font-bold text-slate-900">Rev {rev.revisionNumber}</span>
+                      <span className="text-slate-500 ml-3">{new Date(rev.createdAt).toLocaleString()}</span>
+                      <span className={`ml-3 text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${rev.trigger === 'pdf' ? 'bg-blue-50 text-blue-700' : 'bg-slate-100 text-slate-600'}`}>
+                        {rev.trigger === 'pdf' ? <><FileText className="w-3 h-3 inline -mt-0.5"/> PDF</> : 'Manual'}
+                      </span>
+                      {rev.note && <span className="text-slate-600 ml-3 italic">{rev.note}</span>}
+                    </div>
+                    <span className="font-mono font-bold text-slate-800">{fmt(rev.grandTotal)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {revisions.length > 0 && (
+            <section>
+              <div className="flex flex-wrap items-center gap-3 mb-4">
+                <h4 className="font-semibold text-slate-800">Compare</h4>
+                <select className={selectClass} value={baseId} onChange={e => setBaseId(e.target.value)}>
+                  {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.revisionNumber}</option>)}
+                </select>
+                <ArrowRight className="w-4 h-4 text-slate-400"/>
+                <select className={selectClass} value={targetId} onChange={e => setTargetId(e.target.value)}>
+                  <option value={CURRENT}>Current (unsaved)</option>
+                  {revisions.map(r => <option key={r.id} value={r.id}>Rev {r.revisionNumber}</option>)}
+                </select>
+              </div>
+
+              {diff && (
+                <>
+                  <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+                    <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                      <div className="text-xs text-slate-500 uppercase font-bold">{labelFor(baseId)}</div>
+                      <div className="font-mono font-bold text-lg">{fmt(diff.totalBefore)}</div>
+                    </div>
+                    <div className="bg-slate-50 border border-slate-200 rounded-lg p-3">
+                      <div className="text-xs text-slate-500 uppercase font-bold">{labelFor(targetId)}</div>
+                      <div className="font-mono font-bold text-lg">{fmt(diff.totalAfter)}</div>
+                    </div>
+                    <div className={`border rounded-lg p-3 ${diff.totalDelta > 0 ? 'bg-red-50 border-red-100 text-red-700' : diff.totalDelta < 0 ? 'bg-green-50 border-green-100 text-green-700' : 'bg-slate-50 border-slate-200 text-slate-600'}`}>
+                      <div className="text-xs uppercase font-bold">Change in Total</div>
+                      <div className="font-mono font-bold text-lg">{diff.totalDelta >= 0 ? '+' : '-'}{fmt(Math.abs(diff.totalDelta))}</div>
+                    </div>
+                  </div>
+
+                  <p className="text-xs text-slate-500 mb-2">
+                    {diff.added.length} added, {diff.removed.length} removed, {diff.changed.length} changed, {diff.unchangedCount} unchanged
+                  </p>
+
+                  {diff.added.length + diff.removed.length + diff.changed.length === 0 ? (
+                    <p className="text-sm text-slate-400 italic">No line item differences.</p>
+                  ) : (
+                    <div className="border border-slate-200 rounded-lg overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead className="bg-slate-50 text-slate-500 uppercase">
+                          <tr>
+                            <th className="p-2 text-left">Room</th>
+                            <th className="p-2 text-left" colSpan={3}>{labelFor(baseId)}</th>
+                            <th className="p-2 text-left border-l border-slate-200" colSpan={3}>{labelFor(targetId)}</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {diff.removed.map(line => (
+                            <tr key={`r-${line.key}`} className="bg-red-50/60">
+                              <td className="p-2 font-medium text-red-700">{line.room}</td>
+                              <LineCell line={line} />
+                              <td className="border-l border-slate-200 p-2 text-red-600 font-bold" colSpan={3}>Removed</td>
+                            </tr>
+                          ))}
+                          {diff.added.map(line => (
+                            <tr key={`a-${line.key}`} className="bg-green-50/60">
+                              <td className="p-2 font-medium text-green-700">{line.room}</td>
+                              <td className="p-2 text-green-600 font-bold" colSpan={3}>Added</td>
+                              <LineCell line={line} />
+                            </tr>
+                          ))}
+                          {diff.changed.map(change => (
+                            <tr key={`c-${change.key}`} className="bg-amber-50/40">
+                              <td className="p-2 font-medium text-amber-700">{change.after.room}</td>
+                              <LineCell line={change.before} highlight={change.changedFields} />
+                              <LineCell line={change.after} highlight={change.changedFields} />
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </>
+              )}
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { X, Columns3, Plus, RefreshCw, Trash2, Upload, Download, AlertTriangle } from 'lucide-react';
+import { Button } from './Button';
+import { Manufacturer, PricingScenario, Project } from '../types';
+import { compareScenarios, createScenario, describeScenario, isScenarioStale, suggestScenarioName } from '../services/scenarios';
+import { formatCents } from '../services/money';
+import { GENERAL_ROOM, QuoteTotals } from '../services/quoteTotals';
+
+interface ScenarioComparisonProps {
+  project: Project;
+  manufacturer?: Manufacturer;
+  onSave: (scenarios: PricingScenario[]) => Promise<void>;
+  onReprice: (scenarios: PricingScenario[], ids: string[]) => Promise<void>; // Prices the listed ids, then saves the list
+  onLoad: (scenario: PricingScenario) => void;
+  onExportProposal: () => void;
+  onClose: () => void;
+}
+
+// Summary rows under the room subtotals; zero rows are hidden when no scenario has them
+const SUMMARY_ROWS: { label: string; value: (t: QuoteTotals) => number; sign?: string }[] = [
+  { label: 'Subtotal', value: t => t.subtotal },
+  { label: 'Discount', value: t => t.discount, sign: '-' },
+  { label: 'Upcharge', value: t => t.upcharge },
+  { label: 'Tax', value: t => t.tax },
+  { label: 'Freight', value: t => t.shipping },
+  { label: 'Fuel', value: t => t.fuel },
+  { label: 'Misc', value: t => t.misc },
+  { label: 'Installation', value: t => t.labor }
+];
+
+export const ScenarioComparison: React.FC<ScenarioComparisonProps> = ({ project, manufacturer, onSave, onReprice, onLoad, onExportProposal, onClose }) => {
+  const scenarios = project.scenarios || [];
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (err: any) {
+      alert("Failed to update scenarios: " + (err.message || err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const comparison = compareScenarios(scenarios);
+  const staleIds = scenarios.filter(s => isScenarioStale(s, project.items)).map(s => s.id);
+
+  const handleAdd = () => run(async () => {
+    await onSave([...scenarios, createScenario(project, newName || suggestScenarioName(scenarios))]);
+    setNewName('');
+  });
+
+  // Keeps id, name and creation date; everything else comes from the working quote
+  const handleUpdateFromCurrent = (scenario: PricingScenario) => {
+    if (!window.confirm(`Replace "${scenario.name}" with the current specs and pricing?`)) return;
+    const fresh = createScenario(project, scenario.name);
+    run(() => onSave(scenarios.map(s => s.id === scenario.id ? { ...fresh, id: s.id, createdAt: s.createdAt } : s)));
+  };
+
+  const handleRename = (scenario: PricingScenario, name: string) => {
+    if (!name.trim() || name.trim() === scenario.name) return;
+    run(() => onSave(scenarios.map(s => s.id === scenario.id ? { ...s, name: name.trim() } : s)));
+  };
+
+  const handleTierChange = (scenario: PricingScenario, tierId: string) => {
+    const next = scenarios.map(s => s.id === scenario.id ? { ...s, selectedTierId: tierId } : s);
+    run(() => onReprice(next, [scenario.id]));
+  };
+
+  const handleDelete = (scenario: PricingScenario) => {
+    if (!window.confirm(`Delete scenario "${scenario.name}"?`)) return;
+    run(() => onSave(scenarios.filter(s => s.id !== scenario.id)));
+  };
+
+  const visibleSummaryRows = SUMMARY_ROWS.filter(row => row.label === 'Subtotal' || comparison.columns.some(c => row.value(c.totals) !== 0));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-xl w-full max-w-6xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <h3 className="text-xl font-bold flex items-center gap-2"><Columns3 className="w-5 h-5 text-brand-600"/> Pricing Scenarios</h3>
+          <button onClick={onClose}><X className="w-6 h-6 text-slate-400"/></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-8 flex-1">
+          <section>
+            <h4 className="font-semibold text-slate-800 mb-2">Save Current Quote as Scenario</h4>
+            <div className="flex gap-2">
+              <input
+                className="flex-1 border border-slate-300 rounded-lg px-4 py-2 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+                placeholder={`Name (e.g. '${suggestScenarioName(scenarios)}')`}
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+              />
+              <Button onClick={handleAdd} isLoading={busy} disabled={!project.pricing} className="gap-2"><Plus className="w-4 h-4"/> Add Scenario</Button>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">Each scenario keeps its own specs, room specs, tier and financials. To change a scenario's specs, load it, edit Specs, then update it from the current quote.</p>
+          </section>
+
+          {scenarios.length === 0 ? (
+            <p className="text-sm text-slate-400 italic">No scenarios yet.</p>
+          ) : (
+            <section>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+                <h4 className="font-semibold text-slate-800">Side by Side</h4>
+                <div className="flex gap-2">
+                  {staleIds.length > 0 && (
+                    <Button size="sm" variant="outline" onClick={() => run(() => onReprice(scenarios, staleIds))} disabled={busy} className="gap-1 text-amber-700 border-amber-300">
+                      <RefreshCw className="w-3 h-3"/> Reprice {staleIds.length} Out of Date
+                    </Button>
+                  )}
+                  <Button size="sm" variant="outline" onClick={() => run(() => onReprice(scenarios, scenarios.map(s => s.id)))} disabled={busy} className="gap-1">
+                    <RefreshCw className="w-3 h-3"/> Reprice All
+                  </Button>
+                  <Button size="sm" onClick={onExportProposal} disabled={busy || staleIds.length > 0} title={staleIds.length > 0 ? 'Reprice out-of-date scenarios first' : undefined} className="gap-1">
+                    <Download className="w-3 h-3"/> Export Proposal
+                  </Button>
+                </div>
+              </div>
+
+              <div className="border border-slate-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-slate-50 text-slate-600">
+                    <tr>
+                      <th className="p-3 text-left w-40"></th>
+                      {comparison.columns.map(({ scenario }) => (
+                        <th key={scenario.id} className="p-3 text-left align-top border-l border-slate-200 min-w-[200px]">
+                          <input
+                            key={scenario.name}
+                            className="font-bold text-slate-900 bg-transparent border-b border-transparent hover:border-slate-300 focus:border-brand-500 outline-none w-full"
+                            defaultValue={scenario.name}
+                            onBlur={e => handleRename(scenario, e.target.value)}
+                          />
+                          <div className="text-[11px] font-normal text-slate-500 mt-1">{describeScenario(scenario, manufacturer)}</div>
+                          {manufacturer && (
+                            <select
+                              className="mt-2 w-full p-1 border border-slate-300 rounded text-xs font-normal bg-white"
+                              value={scenario.selectedTierId || ''}
+                              onChange={e => handleTierChange(scenario, e.target.value)}
+                              disabled={busy}
+                            >
+                              {!scenario.selectedTierId && <option value="">Default tier</option>}
+                              {manufacturer.tiers.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                            </select>
+                          )}
+                          {scenario.pricingError ? (
+                            <div className="mt-2 text-[11px] font-normal text-red-600 flex gap-1"><AlertTriangle className="w-3 h-3 shrink-0 mt-0.5"/> {scenario.pricingError}</div>
+                          ) : staleIds.includes(scenario.id) && (
+                            <div className="mt-2 text-[11px] font-normal text-amber-700 flex gap-1"><AlertTriangle className="w-3 h-3 shrink-0 mt-0.5"/> Items changed since this was priced</div>
+                          )}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {comparison.rooms.map(room => (
+                      <tr key={room}>
+                        <td className="p-3 text-slate-600">{room === GENERAL_ROOM ? 'General / Additional' : room}</td>
+                        {comparison.columns.map(({ scenario, roomSubtotals }) => (
+                          <td key={scenario.id} className="p-3 text-right font-mono border-l border-slate-200">{roomSubtotals[room] !== undefined ? formatCents(roomSubtotals[room]) : '—'}</td>
+                        ))}
+                      </tr>
+                    ))}
+                    {visibleSummaryRows.map(row => (
+                      <tr key={row.label} className="bg-slate-50/60">
+                        <td className="p-3 font-medium text-slate-700">{row.label}</td>
+                        {comparison.columns.map(({ scenario, totals }) => (
+                          <td key={scenario.id} className="p-3 text-right font-mono border-l border-slate-200">{row.sign && row.value(totals) > 0 ? row.sign : ''}{formatCents(row.value(totals))}</td>
+                        ))}
+                      </tr>
+                    ))}
+                    <tr className="bg-slate-100">
+                      <td className="p-3 font-bold text-slate-900">Grand Total</td>
+                      {comparison.columns.map(({ scenario, totals }) => (
+                        <td key={scenario.id} className={`p-3 text-right font-mono font-bold border-l border-slate-200 ${totals.grandTotal === comparison.lowestGrandTotal && comparison.columns.length > 1 ? 'text-green-700' : 'text-slate-900'}`}>
+                          {formatCents(totals.grandTotal)}
+                        </td>
+                      ))}
+                    </tr>
+                    <tr>
+                      <td className="p-3 text-xs text-slate-400">Est. Profit</td>
+                      {comparison.columns.map(({ scenario, totals }) => (
+                        <td key={scenario.id} className="p-3 text-right text-xs text-slate-400 border-l border-slate-200">{formatCents(totals.profit)} ({totals.marginPct.toFixed(1)}%)</td>
+                      ))}
+                    </tr>
+                    <tr>
+                      <td className="p-3"></td>
+                      {comparison.columns.map(({ scenario }) => (
+                        <td key={scenario.id} className="p-3 border-l border-slate-200">
+                          <div className="flex flex-wrap gap-2 justify-end">
+                            <button className="text-xs text-brand-600 hover:underline flex items-center gap-1 disabled:opacity-50" disabled={busy || !scenario.pricing} onClick={() => onLoad(scenario)}><Upload className="w-3 h-3"/> Load</button>
+                            <button className="text-xs text-slate-600 hover:underline disabled:opacity-50" disabled={busy} onClick={() => handleUpdateFromCurrent(scenario)}>Update from current</button>
+                            <button className="text-xs text-red-600 hover:underline flex items-center gap-1 disabled:opacity-50" disabled={busy} onClick={() => handleDelete(scenario)}><Trash2 className="w-3 h-3"/></button>
+                          </div>
+                        </td>
+                      ))}
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
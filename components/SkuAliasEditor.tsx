@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowRightLeft, Plus, Trash2, Download, Upload, ChevronUp, ChevronDown } from 'lucide-react';
+import { Button } from './Button';
+import { Manufacturer, SkuAlias, SkuRewriteRule } from '../types';
+import { aliasKey, compileRewriteRule, mergeSkuAliasImport, parseSkuAliasCsv, resolveSkuAlias, skuAliasesToCsv, SkuAliasSource } from '../services/skuAliases';
+
+interface SkuAliasEditorProps {
+  manufacturer: Manufacturer;
+  onSave: (updates: Required<SkuAliasSource>) => Promise<void>;
+}
+
+export const SkuAliasEditor: React.FC<SkuAliasEditorProps> = ({ manufacturer, onSave }) => {
+  const [aliases, setAliases] = useState<SkuAlias[]>(manufacturer.skuAliases || []);
+  const [rules, setRules] = useState<SkuRewriteRule[]>(manufacturer.skuRewriteRules || []);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const [newFrom, setNewFrom] = useState('');
+  const [newTo, setNewTo] = useState('');
+  const [newPattern, setNewPattern] = useState('');
+  const [newReplacement, setNewReplacement] = useState('');
+  const [testCode, setTestCode] = useState('');
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  // Switching manufacturers (or an external save) resets the draft
+  useEffect(() => {
+    setAliases(manufacturer.skuAliases || []);
+    setRules(manufacturer.skuRewriteRules || []);
+    setIsDirty(false);
+    setImportErrors([]);
+  }, [manufacturer]);
+
+  const change = (nextAliases: SkuAlias[], nextRules: SkuRewriteRule[]) => {
+    setAliases(nextAliases);
+    setRules(nextRules);
+    setIsDirty(true);
+  };
+
+  const addAlias = () => {
+    if (!newFrom.trim() || !newTo.trim()) return;
+    const from = aliasKey(newFrom);
+    change([...aliases.filter(a => aliasKey(a.from) !== from), { id: crypto.randomUUID(), from, to: aliasKey(newTo) }], rules);
+    setNewFrom('');
+    setNewTo('');
+  };
+
+  const patternValid = !newPattern || !!compileRewriteRule(newPattern);
+  const addRule = () => {
+    if (!newPattern.trim() || !patternValid) return;
+    change(aliases, [...rules, { id: crypto.randomUUID(), pattern: newPattern.trim(), replacement: newReplacement.trim(), enabled: true }]);
+    setNewPattern('');
+    setNewReplacement('');
+  };
+
+  const moveRule = (index: number, dir: -1 | 1) => {
+    const next = [...rules];
+    const target = index + dir;
+    if (target < 0 || target >= next.length) return;
+    [next[index], next[target]] = [next[target], next[index]];
+    change(aliases, next);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([skuAliasesToCsv(aliases, rules)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${manufacturer.name.replace(/[^a-z0-9]+/gi, '_')}_sku_aliases.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const imported = parseSkuAliasCsv(await file.text());
+    const merged = mergeSkuAliasImport({ skuAliases: aliases, skuRewriteRules: rules }, imported);
+    change(merged.skuAliases, merged.skuRewriteRules);
+    setImportErrors(imported.errors);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSave({ skuAliases: aliases, skuRewriteRules: rules });
+      setIsDirty(false);
+    } catch (err: any) {
+      alert("Failed to save aliases: " + (err.message || err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const testResult = testCode ? resolveSkuAlias(testCode, { skuAliases: aliases, skuRewriteRules: rules }) : null;
+
+  return (
+    <section>
+      <div className="flex justify-between mb-4 gap-4">
+        <div>
+          <h4 className="font-semibold text-slate-800 flex items-center gap-2"><ArrowRightLeft className="w-5 h-5 text-purple-600"/> SKU Aliases & Rewrite Rules</h4>
+          <p className="text-xs text-slate-500">Map drawing codes to this manufacturer's SKUs. Checked before any fuzzy matching.</p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <input type="file" ref={csvInputRef} className="hidden" accept=".csv,text/csv" onChange={handleImport} />
+          <Button size="sm" variant="ghost" onClick={() => csvInputRef.current?.click()} title="Import CSV (type,from,to,note)"><Upload className="w-4 h-4"/></Button>
+          <Button size="sm" variant="ghost" onClick={handleExport} title="Export CSV"><Download className="w-4 h-4"/></Button>
+          <Button size="sm" onClick={handleSave} disabled={!isDirty} isLoading={isSaving}>Save</Button>
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="mb-3 text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded p-2 space-y-0.5">
+          <div className="font-bold">Some CSV lines were skipped:</div>
+          {importErrors.slice(0, 8).map((err, i) => <div key={i}>{err}</div>)}
+          {importErrors.length > 8 && <div>…and {importErrors.length - 8} more</div>}
+        </div>
+      )}
+
+      <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 space-y-5 text-sm">
+        {/* Aliases */}
+        <div>
+          <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Aliases ({aliases.length})</h5>
+          <div className="space-y-1 max-h-48 overflow-y-auto">
+            {aliases.map(alias => (
+              <div key={alias.id} className="flex items-center gap-2 bg-white border border-slate-200 rounded px-2 py-1">
+                <span className="font-mono font-bold w-32 truncate">{alias.from}</span>
+                <span className="text-slate-400">→</span>
+                <span className="font-mono text-brand-700 w-32 truncate">{alias.to}</span>
+                <span className="text-xs text-slate-400 flex-1 truncate">{alias.note}</span>
+                <button onClick={() => change(aliases.filter(a => a.id !== alias.id), rules)} className="p-1 text-slate-400 hover:text-red-600"><Trash2 className="w-3 h-3"/></button>
+              </div>
+            ))}
+            {aliases.length === 0 && <p className="text-slate-400 italic text-xs">No aliases yet.</p>}
+          </div>
+          <div className="flex gap-2 mt-2">
+            <input className="border border-slate-300 rounded px-2 py-1 font-mono text-xs w-32" placeholder="Drawing code" value={newFrom} onChange={e => setNewFrom(e.target.value)} />
+            <input className="border border-slate-300 rounded px-2 py-1 font-mono text-xs w-32" placeholder="Catalog SKU" value={newTo} onChange={e => setNewTo(e.target.value)} onKeyDown={e => e.key === 'Enter' && addAlias()} />
+            <Button size="sm" variant="outline" onClick={addAlias} disabled={!newFrom.trim() || !newTo.trim()}><Plus className="w-3 h-3"/></Button>
+          </div>
+        </div>
+
+        {/* Rules */}
+        <div>
+          <h5 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Rewrite Rules ({rules.length}) <span className="normal-case font-normal">· applied top to bottom, case-insensitive</span></h5>
+          <div className="space-y-1">
+            {rules.map((rule, index) => (
+              <div key={rule.id} className={`flex items-center gap-2 bg-white border border-slate-200 rounded px-2 py-1 ${rule.enabled ? '' : 'opacity-50'}`}>
+                <input type="checkbox" checked={rule.enabled} onChange={() => change(aliases, rules.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))} title="Enabled" />
+                <span className="font-mono text-xs w-40 truncate" title={rule.pattern}>/{rule.pattern}/</span>
+                <span className="text-slate-400">→</span>
+                <span className="font-mono text-xs text-brand-700 flex-1 truncate">{rule.replacement || '(remove)'}</span>
+                <button onClick={() => moveRule(index, -1)} className="p-0.5 text-slate-400 hover:text-slate-700" title="Move Up"><ChevronUp className="w-3 h-3"/></button>
+                <button onClick={() => moveRule(index, 1)} className="p-0.5 text-slate-400 hover:text-slate-700" title="Move Down"><ChevronDown className="w-3 h-3"/></button>
+                <button onClick={() => change(aliases, rules.filter(r => r.id !== rule.id))} className="p-1 text-slate-400 hover:text-red-600"><Trash2 className="w-3 h-3"/></button>
+              </div>
+            ))}
+            {rules.length === 0 && <p className="text-slate-400 italic text-xs">No rewrite rules yet.</p>}
+          </div>
+          <div className="flex gap-2 mt-2">
+            <input className={`border rounded px-2 py-1 font-mono text-xs w-40 ${patternValid ? 'border-slate-300' : 'border-red-400 bg-red-50'}`} placeholder="Pattern e.g. ^DHW(\d+)$" value={newPattern} onChange={e => setNewPattern(e.target.value)} />
+            <input className="border border-slate-300 rounded px-2 py-1 font-mono text-xs w-32" placeholder="Replacement e.g. DW$1" value={newReplacement} onChange={e => setNewReplacement(e.target.value)} onKeyDown={e => e.key === 'Enter' && addRule()} />
+            <Button size="sm" variant="outline" onClick={addRule} disabled={!newPattern.trim() || !patternValid}><Plus className="w-3 h-3"/></Button>
+          </div>
+        </div>
+
+        {/* Tester */}
+        <div className="flex items-center gap-2 border-t border-slate-200 pt-3">
+          <span className="text-xs font-bold text-slate-500">Test:</span>
+          <input className="border border-slate-300 rounded px-2 py-1 font-mono text-xs w-32" placeholder="e.g. DHW24" value={testCode} onChange={e => setTestCode(e.target.value)} />
+          {testCode && (
+            <span className="text-xs text-slate-600">
+              {testResult ? <><span className="font-mono font-bold text-brand-700">{testResult.sku}</span> <span className="text-slate-400">({testResult.detail})</span></> : 'No alias or rule applies'}
+            </span>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles, Check, X, Trash2, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import { Manufacturer, SkuAliasSuggestion } from '../types';
+import { storage } from '../services/storage';
+
+interface SkuSuggestionReviewProps {
+  manufacturer: Manufacturer;
+  onPromote: (suggestion: SkuAliasSuggestion) => Promise<void>; // Adds the permanent alias
+}
+
+export const SkuSuggestionReview: React.FC<SkuSuggestionReviewProps> = ({ manufacturer, onPromote }) => {
+  const [suggestions, setSuggestions] = useState<SkuAliasSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showRejected, setShowRejected] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    storage.listSkuAliasSuggestions(manufacturer.id)
+      .then(list => { if (!cancelled) setSuggestions(list); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [manufacturer.id]);
+
+  const run = async (suggestion: SkuAliasSuggestion, action: () => Promise<void>) => {
+    setBusyId(suggestion.id);
+    try {
+      await action();
+    } catch (err: any) {
+      alert("Action failed: " + (err.message || err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const promote = (suggestion: SkuAliasSuggestion) => run(suggestion, async () => {
+    await onPromote(suggestion);
+    await storage.deleteSkuAliasSuggestion(suggestion.id);
+    setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+  });
+
+  const setStatus = (suggestion: SkuAliasSuggestion, status: SkuAliasSuggestion['status']) => run(suggestion, async () => {
+    const updated = { ...suggestion, status };
+    await storage.saveSkuAliasSuggestion(updated);
+    setSuggestions(prev => prev.map(s => s.id === suggestion.id ? updated : s));
+  });
+
+  const remove = (suggestion: SkuAliasSuggestion) => run(suggestion, async () => {
+    await storage.deleteSkuAliasSuggestion(suggestion.id);
+    setSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+  });
+
+  const pending = suggestions.filter(s => s.status === 'pending');
+  const rejected = suggestions.filter(s => s.status === 'rejected');
+
+  return (
+    <section>
+      <div className="mb-4">
+        <h4 className="font-semibold text-slate-800 flex items-center gap-2"><Sparkles className="w-5 h-5 text-purple-600"/> Learned Corrections</h4>
+        <p className="text-xs text-slate-500">Code fixes estimators made in the Pricing step. Promote one to make it a permanent alias.</p>
+      </div>
+
+      <div className="bg-slate-50 rounded-lg border border-slate-200 p-4 text-sm space-y-1">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-slate-400 text-xs"><Loader2 className="w-4 h-4 animate-spin"/> Loading...</div>
+        ) : pending.length === 0 ? (
+          <p className="text-slate-400 italic text-xs">No pending suggestions.</p>
+        ) : pending.map(s => (
+          <div key={s.id} className="flex items-center gap-2 bg-white border border-slate-200 rounded px-2 py-1">
+            <span className="font-mono font-bold w-32 truncate">{s.from}</span>
+            <span className="text-slate-400">→</span>
+            <span className="font-mono text-brand-700 w-32 truncate">{s.to}</span>
+            <span className="text-xs text-slate-500 flex-1" title={`First seen ${new Date(s.firstSeen).toLocaleDateString()}`}>
+              applied {s.count}× · last {new Date(s.lastSeen).toLocaleDateString()}
+            </span>
+            {busyId === s.id ? <Loader2 className="w-4 h-4 animate-spin text-slate-400"/> : (
+              <>
+                <Button size="sm" variant="outline" className="gap-1 py-0.5" onClick={() => promote(s)}><Check className="w-3 h-3"/> Promote</Button>
+                <button onClick={() => setStatus(s, 'rejected')} className="p-1 text-slate-400 hover:text-red-600" title="Reject (stop offering it)"><X className="w-4 h-4"/></button>
+              </>
+            )}
+          </div>
+        ))}
+
+        {rejected.length > 0 && (
+          <div className="pt-2">
+            <button className="text-xs text-slate-500 hover:underline" onClick={() => setShowRejected(!showRejected)}>
+              {showRejected ? 'Hide' : 'Show'} {rejected.length} rejected
+            </button>
+            {showRejected && rejected.map(s => (
+              <div key={s.id} className="flex items-center gap-2 px-2 py-1 text-slate-400">
+                <span className="font-mono w-32 truncate line-through">{s.from}</span>
+                <span>→</span>
+                <span className="font-mono w-32 truncate line-through">{s.to}</span>
+                <span className="text-xs flex-1">{s.count}×</span>
+                <button onClick={() => setStatus(s, 'pending')} className="text-xs hover:text-brand-600 hover:underline">Restore</button>
+                <button onClick={() => remove(s)} className="p-1 hover:text-red-600" title="Delete"><Trash2 className="w-3 h-3"/></button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, FileSearch, Loader2, UploadCloud } from 'lucide-react';
+import { loadPdfDocument, renderPdfPage, findTextPositions, TextHighlight } from '../services/pdfUtils';
+
+interface SourcePageViewerProps {
+  file: File | null;
+  pageNumber: number;
+  highlightCode?: string; // Code of the selected item; its positions on the page are outlined
+  onPageChange: (page: number) => void;
+  onFileSelected: (file: File) => void; // After a reload the original upload is gone; let the user pick it again
+  onClose: () => void;
+}
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+
+export const SourcePageViewer: React.FC<SourcePageViewerProps> = ({ file, pageNumber, highlightCode, onPageChange, onFileSelected, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<any>(null);
+  const [pageCount, setPageCount] = useState(0);
+  const [scale, setScale] = useState(1.2);
+  const [highlights, setHighlights] = useState<TextHighlight[]>([]);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState('');
+
+  const isImage = !!file && file.type.startsWith('image/');
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  // Load document
+  useEffect(() => {
+    setPdf(null);
+    setPageCount(0);
+    setError('');
+    if (!file) return;
+
+    if (isImage) {
+        const url = URL.createObjectURL(file);
+        setImageUrl(url);
+        setPageCount(1);
+        return () => URL.revokeObjectURL(url);
+    }
+
+    let cancelled = false;
+    loadPdfDocument(file)
+        .then(doc => {
+            if (cancelled) return;
+            setPdf(doc);
+            setPageCount(doc.numPages);
+        })
+        .catch(err => {
+            console.error("Source viewer failed to load PDF", err);
+            if (!cancelled) setError('Could not open this PDF.');
+        });
+    return () => { cancelled = true; };
+  }, [file, isImage]);
+
+  const currentPage = Math.min(Math.max(pageNumber || 1, 1), pageCount || 1);
+
+  // Render page + look up highlight boxes
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) return;
+    let cancelled = false;
+    let renderTask: any = null;
+
+    setIsRendering(true);
+    setHighlights([]);
+    (async () => {
+        try {
+            const rendered = await renderPdfPage(pdf, currentPage, canvasRef.current!, scale);
+            renderTask = rendered.task;
+            await renderTask.promise;
+            if (cancelled) return;
+
+            if (highlightCode) {
+                const boxes = await findTextPositions(pdf, currentPage, highlightCode, scale);
+                if (!cancelled) setHighlights(boxes);
+            }
+        } catch (err: any) {
+            // pdf.js rejects cancelled renders - that's expected when paging quickly
+            if (err?.name !== 'RenderingCancelledException') console.error("Page render failed", err);
+        } finally {
+            if (!cancelled) setIsRendering(false);
+        }
+    })();
+
+    return () => {
+        cancelled = true;
+        renderTask?.cancel?.();
+    };
+  }, [pdf, currentPage, scale, highlightCode]);
+
+  return (
+    <div className="flex flex-col h-full border border-slate-200 rounded-lg bg-slate-50 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200 bg-white text-sm">
+        <div className="flex items-center gap-2 font-semibold text-slate-700">
+          <FileSearch className="w-4 h-4 text-brand-600" /> Source
+          {highlightCode && <span className="font-mono text-xs bg-yellow-100 text-yellow-800 px-2 py-0.5 rounded">{highlightCode}</span>}
+        </div>
+        <div className="flex items-center gap-1">
+          <button className="p-1 rounded hover:bg-slate-100 disabled:opacity-30" disabled={currentPage <= 1} onClick={() => onPageChange(currentPage - 1)} title="Previous Page"><ChevronLeft className="w-4 h-4" /></button>
+          <span className="text-xs text-slate-500 w-16 text-center">{pageCount ? `${currentPage} / ${pageCount}` : '-'}</span>
+          <button className="p-1 rounded hover:bg-slate-100 disabled:opacity-30" disabled={currentPage >= pageCount} onClick={() => onPageChange(currentPage + 1)} title="Next Page"><ChevronRight className="w-4 h-4" /></button>
+          <button className="p-1 rounded hover:bg-slate-100 ml-2" onClick={() => setScale(s => Math.max(MIN_SCALE, s - 0.2))} title="Zoom Out"><ZoomOut className="w-4 h-4" /></button>
+          <button className="p-1 rounded hover:bg-slate-100" onClick={() => setScale(s => Math.min(MAX_SCALE, s + 0.2))} title="Zoom In"><ZoomIn className="w-4 h-4" /></button>
+          <button className="p-1 rounded hover:bg-slate-100 ml-2" onClick={onClose} title="Close Viewer"><X className="w-4 h-4 text-slate-400" /></button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto relative">
+        {!file ? (
+          <div className="h-full flex flex-col items-center justify-center text-center p-8 text-sm text-slate-500 gap-3">
+            <UploadCloud className="w-8 h-8 text-slate-300" />
+            <p>The original plan isn't loaded in this session.<br/>Select the same file to view source pages.</p>
+            <label className="cursor-pointer text-brand-600 font-bold hover:underline">
+              Choose File
+              <input type="file" className="hidden" accept="image/*,.pdf" onChange={e => e.target.files?.[0] && onFileSelected(e.target.files[0])} />
+            </label>
+          </div>
+        ) : error ? (
+          <div className="p-8 text-center text-sm text-red-600">{error}</div>
+        ) : isImage ? (
+          imageUrl && <img src={imageUrl} alt="Uploaded plan" style={{ width: `${scale * 100}%` }} className="max-w-none" />
+        ) : (
+          <div className="relative inline-block">
+            <canvas ref={canvasRef} className="block bg-white shadow" />
+            {highlights.map((h, i) => (
+              <div
+                key={i}
+                className="absolute border-2 border-yellow-500 bg-yellow-300/30 rounded-sm pointer-events-none"
+                style={{ left: h.left - 2, top: h.top - 2, width: h.width + 4, height: h.height + 4 }}
+                title={h.text}
+              />
+            ))}
+            {isRendering && <div className="absolute top-2 right-2"><Loader2 className="w-4 h-4 animate-spin text-brand-600" /></div>}
+          </div>
+        )}
+      </div>
+
+      {highlightCode && pdf && !isRendering && (
+        <div className="px-3 py-1.5 border-t border-slate-200 bg-white text-[11px] text-slate-500">
+          {highlights.length > 0
+            ? `${highlights.length} match${highlights.length > 1 ? 'es' : ''} for ${highlightCode} on this page`
+            : `No text-layer match for ${highlightCode} on this page (scanned page or different label).`}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, SearchX, Check, Loader2, AlertOctagon, ShieldAlert, Search } from 'lucide-react';
+import { Button } from './Button';
+import { PricingLineItem, Project } from '../types';
+import { getBlockingLines, getLineMatchStatus, isCabinetLine, rankCatalogCandidates, SkuCandidate } from '../services/unmatchedSkus';
+import { aliasKey } from '../services/skuAliases';
+
+interface UnmatchedWorkbenchProps {
+  project: Project;
+  catalog: Record<string, Record<string, number>> | null; // null while loading
+  tierName?: string; // Column to highlight in the preview
+  blockedDownload?: boolean; // Opened because a PDF was requested
+  onAccept: (line: PricingLineItem, sku: string, saveAsAlias: boolean) => Promise<void>;
+  onConfirm: (line: PricingLineItem) => void; // Keep a fallback match as-is
+  onOverride: (reason: string) => void;
+  onClose: () => void;
+}
+
+const fmt = (n: number) => `$${n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const UnmatchedWorkbench: React.FC<UnmatchedWorkbenchProps> = ({ project, catalog, tierName, blockedDownload, onAccept, onConfirm, onOverride, onClose }) => {
+  const lines = useMemo(
+    () => (project.pricing || []).filter(line => getLineMatchStatus(line) !== 'ok'),
+    [project.pricing]
+  );
+  const blocking = getBlockingLines(project.pricing);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [saveAsAlias, setSaveAsAlias] = useState(true);
+  const [search, setSearch] = useState('');
+  const [previewSku, setPreviewSku] = useState<string | null>(null);
+  const [acceptingSku, setAcceptingSku] = useState<string | null>(null);
+  const [overrideReason, setOverrideReason] = useState('');
+
+  // Keep a valid selection as lines get resolved
+  useEffect(() => {
+    if (!selectedId || !lines.some(l => l.id === selectedId)) setSelectedId(lines[0]?.id || null);
+  }, [lines, selectedId]);
+
+  const selected = lines.find(l => l.id === selectedId) || null;
+
+  useEffect(() => {
+    setSearch('');
+    setPreviewSku(null);
+  }, [selectedId]);
+
+  const candidates: SkuCandidate[] = useMemo(() => {
+    if (!selected || !catalog) return [];
+    const query = aliasKey(search);
+    if (query) {
+      return Object.keys(catalog)
+        .filter(sku => aliasKey(sku).includes(query))
+        .sort((a, b) => a.length - b.length || a.localeCompare(b))
+        .slice(0, 12)
+        .map(sku => ({ sku, score: 0, distance: 0, reasons: ['Search result'], prices: catalog[sku] }));
+    }
+    return rankCatalogCandidates(selected, catalog);
+  }, [selected, catalog, search]);
+
+  const preview = candidates.find(c => c.sku === previewSku) || candidates[0];
+  const highlightColumn = (selected?.matchTrace?.tierColumn || tierName || '').toLowerCase();
+
+  const accept = async (sku: string) => {
+    if (!selected) return;
+    setAcceptingSku(sku);
+    try {
+      await onAccept(selected, sku, saveAsAlias);
+    } finally {
+      setAcceptingSku(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 backdrop-blur-sm">
+      <div className="bg-white rounded-xl w-full max-w-5xl shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="flex items-center justify-between p-6 border-b border-slate-100">
+          <div>
+            <h3 className="text-xl font-bold flex items-center gap-2"><SearchX className="w-5 h-5 text-red-500"/> Resolve Unmatched SKUs</h3>
+            <p className="text-xs text-slate-500">{lines.length} line(s) need attention · {blocking.length} unpriced cabinet line(s) block the PDF</p>
+          </div>
+          <button onClick={onClose}><X className="w-6 h-6 text-slate-400"/></button>
+        </div>
+
+        {blockedDownload && blocking.length > 0 && (
+          <div className="mx-6 mt-4 bg-red-50 border border-red-200 text-red-800 text-sm rounded-lg p-3 flex items-center gap-2">
+            <AlertOctagon className="w-5 h-5 shrink-0"/> The PDF can't be generated while {blocking.length} cabinet line(s) are priced at $0. Resolve them below or override.
+          </div>
+        )}
+
+        <div className="flex-1 overflow-hidden flex flex-col md:flex-row min-h-0">
+          {/* Lines */}
+          <div className="md:w-72 border-r border-slate-100 overflow-y-auto">
+            {lines.length === 0 && (
+              <div className="p-6 text-sm text-green-600 flex items-center gap-2"><Check className="w-4 h-4"/> Everything is matched.</div>
+            )}
+            {lines.map(line => {
+              const status = getLineMatchStatus(line);
+              return (
+                <button
+                  key={line.id}
+                  onClick={() => setSelectedId(line.id)}
+                  className={`w-full text-left px-4 py-3 border-b border-slate-100 text-sm hover:bg-slate-50 ${selectedId === line.id ? 'bg-brand-50 border-l-4 border-l-brand-500' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono font-bold text-slate-800">{line.originalCode}</span>
+                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${status === 'unmatched' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'}`}>
+                      {status === 'unmatched' ? 'NO MATCH' : 'FALLBACK'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-0.5">{line.room || 'General'} · Qty {line.quantity}{isCabinetLine(line) && line.totalPrice === 0 ? ' · $0' : ''}</div>
+                  {status === 'fallback' && <div className="text-[10px] text-slate-400 truncate">{line.source}</div>}
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Candidates + preview */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            {!selected ? null : !catalog ? (
+              <div className="flex items-center gap-2 text-slate-400 text-sm"><Loader2 className="w-4 h-4 animate-spin"/> Loading catalog...</div>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div>
+                    <div className="font-mono font-bold text-lg">{selected.originalCode}</div>
+                    <div className="text-xs text-slate-500">{selected.type} · {selected.width}"W x {selected.height}"H x {selected.depth}"D · {selected.description}</div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {getLineMatchStatus(selected) === 'fallback' && (
+                      <Button size="sm" variant="outline" onClick={() => onConfirm(selected)}>Keep {selected.normalizedCode}</Button>
+                    )}
+                    <label className="flex items-center gap-1.5 text-xs text-slate-600">
+                      <input type="checkbox" checked={saveAsAlias} onChange={e => setSaveAsAlias(e.target.checked)} />
+                      Save as alias for {project.specs?.manufacturer || 'this manufacturer'}
+                    </label>
+                  </div>
+                </div>
+
+                <div className="relative">
+                  <Search className="w-4 h-4 text-slate-400 absolute left-2 top-2"/>
+                  <input className="w-full border border-slate-300 rounded-lg pl-8 pr-3 py-1.5 text-sm font-mono" placeholder="Search the catalog..." value={search} onChange={e => setSearch(e.target.value)} />
+                </div>
+
+                <div className="grid lg:grid-cols-2 gap-4">
+                  <div className="border border-slate-200 rounded-lg divide-y divide-slate-100">
+                    {candidates.length === 0 && <div className="p-4 text-sm text-slate-400 italic">No similar SKUs found. Try searching.</div>}
+                    {candidates.map((c, i) => (
+                      <div
+                        key={c.sku}
+                        onMouseEnter={() => setPreviewSku(c.sku)}
+                        className={`p-3 flex items-center justify-between gap-2 text-sm ${preview?.sku === c.sku ? 'bg-slate-50' : ''}`}
+                      >
+                        <div className="min-w-0">
+                          <div className="font-mono font-bold">{i === 0 && !search ? '★ ' : ''}{c.sku}</div>
+                          <div className="text-[10px] text-slate-500 truncate">{c.reasons.join(' · ')}</div>
+                        </div>
+                        <Button size="sm" onClick={() => accept(c.sku)} isLoading={acceptingSku === c.sku} disabled={!!acceptingSku}>Accept</Button>
+                      </div>
+                    ))}
+                  </div>
+
+                  {preview && (
+                    <div className="border border-slate-200 rounded-lg p-4 text-sm">
+                      <div className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Catalog Preview · <span className="font-mono">{preview.sku}</span></div>
+                      <table className="w-full text-xs">
+                        <tbody>
+                          {Object.entries(preview.prices).map(([column, price]) => (
+                            <tr key={column} className={`border-b border-slate-100 ${highlightColumn && column.toLowerCase() === highlightColumn ? 'bg-brand-50 font-bold text-brand-800' : ''}`}>
+                              <td className="py-1 pr-2">{column}</td>
+                              <td className="py-1 text-right">{typeof price === 'number' ? fmt(price) : String(price)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+
+        {blocking.length > 0 && (
+          <div className="p-4 border-t border-slate-100 bg-slate-50 flex flex-col sm:flex-row gap-2 sm:items-center rounded-b-xl">
+            <ShieldAlert className="w-5 h-5 text-slate-400 shrink-0 hidden sm:block"/>
+            <input
+              className="flex-1 border border-slate-300 rounded-lg px-3 py-1.5 text-sm"
+              placeholder="Reason for generating the PDF with unpriced lines (required to override)"
+              value={overrideReason}
+              onChange={e => setOverrideReason(e.target.value)}
+            />
+            <Button variant="danger" size="sm" disabled={!overrideReason.trim()} onClick={() => onOverride(overrideReason.trim())}>
+              Override & Allow PDF
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
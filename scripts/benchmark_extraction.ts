@@ -0,0 +1,152 @@
+// Extraction benchmark: replays recorded provider responses for every labelled fixture through
+// analyzePlan and scores the result against the expected items.
+//
+//   npm run benchmark:extraction                           # replay recorded responses
+//   npm run benchmark:extraction -- --provider rules       # score the offline rule parser instead
+//   npm run benchmark:extraction -- --only kitchen-a       # single fixture
+//
+// Fixture layout (fixtures/extraction/<name>/):
+//   fixture.json    { "fileName": "plan.pdf", "expected": [{ "room", "code", "quantity" }] }
+//   responses.json  Recorded responses keyed by sourceKey (localStorage "kabs_extraction_fixtures"
+//                   after uploading the plan with VITE_EXTRACTION_RECORD=true)
+//   pages.json      [{ "pageNumber", "text" }] - generated from plan.pdf on first run if missing
+//   plan.pdf        Optional, only needed to (re)generate pages.json
+//
+// Results go to benchmark-results/<provider>/last-run.json; each run is diffed against the last
+// run of the same provider.
+
+import fs from 'fs';
+import path from 'path';
+import { analyzePlan } from '../services/ai';
+import { createReplayProvider, getExtractionProvider, ExtractionProvider, ExtractionProviderId } from '../services/extractionProviders';
+import { PDFPageText } from '../services/pdfUtils';
+import {
+    BenchmarkExpectedItem, BenchmarkRun, FixtureScore,
+    scoreExtraction, failedFixtureScore, summarizeBenchmark, diffBenchmarkRuns
+} from '../services/extractionBenchmark';
+
+const ROOT = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const FIXTURES_DIR = path.join(ROOT, 'fixtures', 'extraction');
+const RESULTS_DIR = path.join(ROOT, 'benchmark-results');
+
+const argValue = (flag: string) => {
+    const idx = process.argv.indexOf(flag);
+    return idx !== -1 ? process.argv[idx + 1] : undefined;
+};
+
+const readJson = (file: string) => JSON.parse(fs.readFileSync(file, 'utf8'));
+const pct = (n: number) => `${(n * 100).toFixed(1)}%`;
+
+// pdf.js in Node needs the legacy build and no worker; only used when pages.json is missing
+async function extractPagesWithPdfJs(pdfPath: string): Promise<PDFPageText[]> {
+    const pdfjs: any = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(fs.readFileSync(pdfPath)), isEvalSupported: false }).promise;
+    const pages: PDFPageText[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const content = await (await pdf.getPage(i)).getTextContent();
+        pages.push({ pageNumber: i, text: content.items.map((item: any) => item.str).join('\n') });
+    }
+    return pages;
+}
+
+async function loadPages(dir: string): Promise<PDFPageText[]> {
+    const pagesPath = path.join(dir, 'pages.json');
+    if (fs.existsSync(pagesPath)) return readJson(pagesPath);
+
+    const pdfPath = path.join(dir, 'plan.pdf');
+    if (!fs.existsSync(pdfPath)) throw new Error('Neither pages.json nor plan.pdf found.');
+    const pages = await extractPagesWithPdfJs(pdfPath);
+    fs.writeFileSync(pagesPath, JSON.stringify(pages, null, 2));
+    console.log(`  Wrote ${path.relative(ROOT, pagesPath)} (${pages.length} pages)`);
+    return pages;
+}
+
+async function runFixture(name: string, providerId: ExtractionProviderId): Promise<{ score: FixtureScore; provider: ExtractionProvider }> {
+    const dir = path.join(FIXTURES_DIR, name);
+    const fixture: { fileName: string; expected: BenchmarkExpectedItem[] } = readJson(path.join(dir, 'fixture.json'));
+    const responsesPath = path.join(dir, 'responses.json');
+    const provider = providerId === 'replay'
+        ? createReplayProvider(fs.existsSync(responsesPath) ? readJson(responsesPath) : {})
+        : getExtractionProvider(providerId);
+
+    try {
+        const pageTexts = await loadPages(dir);
+        // Only the name and type are read when page text is supplied
+        const file = new File([], fixture.fileName, { type: 'application/pdf' });
+        const result = await analyzePlan(file, undefined, undefined, { provider, useCache: false, pageTexts });
+        return { score: scoreExtraction(name, fixture.expected, result.items), provider };
+    } catch (err: any) {
+        return { score: failedFixtureScore(name, fixture.expected, err.message || String(err)), provider };
+    }
+}
+
+function printScore(score: FixtureScore) {
+    if (score.error) {
+        console.log(`  ${score.fixture}: FAILED - ${score.error}`);
+        return;
+    }
+    console.log(`  ${score.fixture}: P ${pct(score.precision)}  R ${pct(score.recall)}  Qty ${pct(score.quantityAccuracy)}  Room ${pct(score.roomAccuracy)}  (${score.matched}/${score.expectedLines} matched, ${score.extractedLines} extracted)`);
+    score.missing.forEach(m => console.log(`      - missing ${m.code} x${m.quantity} (${m.room})`));
+    score.extra.forEach(m => console.log(`      + extra   ${m.code} x${m.quantity} (${m.room})`));
+    score.mismatches.forEach(m => console.log(`      ~ ${m.code}: expected x${m.expectedQty} in ${m.expectedRoom}, got x${m.actualQty} in ${m.actualRoom}`));
+}
+
+async function main() {
+    const providerId = (argValue('--provider') || 'replay') as ExtractionProviderId;
+    const only = argValue('--only');
+
+    if (!fs.existsSync(FIXTURES_DIR)) {
+        console.error(`No fixtures directory at ${path.relative(ROOT, FIXTURES_DIR)}`);
+        process.exit(1);
+    }
+    const names = fs.readdirSync(FIXTURES_DIR)
+        .filter(n => fs.existsSync(path.join(FIXTURES_DIR, n, 'fixture.json')))
+        .filter(n => !only || n === only)
+        .sort();
+    if (names.length === 0) {
+        console.error('No fixtures found.');
+        process.exit(1);
+    }
+
+    console.log(`Running ${names.length} fixture(s) with provider "${providerId}"...\n`);
+    const scores: FixtureScore[] = [];
+    let promptVersion = '';
+    for (const name of names) {
+        const { score, provider } = await runFixture(name, providerId);
+        promptVersion = provider.version;
+        scores.push(score);
+        printScore(score);
+    }
+
+    const run: BenchmarkRun = {
+        runAt: new Date().toISOString(),
+        provider: providerId,
+        promptVersion,
+        fixtures: scores,
+        totals: summarizeBenchmark(scores)
+    };
+    console.log(`\nTOTAL: P ${pct(run.totals.precision)}  R ${pct(run.totals.recall)}  Qty ${pct(run.totals.quantityAccuracy)}  Room ${pct(run.totals.roomAccuracy)}`);
+
+    // --- Diff against previous run ---
+    // Runs are kept per provider, so switching providers doesn't lose the baseline
+    const providerDir = path.join(RESULTS_DIR, providerId);
+    const lastRun = path.join(providerDir, 'last-run.json');
+    const previous: BenchmarkRun | null = fs.existsSync(lastRun) ? readJson(lastRun) : null;
+    if (previous) {
+        const deltas = diffBenchmarkRuns(previous, run);
+        console.log(`\nCompared to ${previous.runAt} (${previous.provider}, ${previous.promptVersion}):`);
+        if (deltas.length === 0) console.log('  No change.');
+        deltas.forEach(d => console.log(`  ${d.delta > 0 ? '▲' : '▼'} ${d.fixture} ${d.metric}: ${pct(d.before)} → ${pct(d.after)}`));
+        const added = run.fixtures.filter(f => !previous.fixtures.some(p => p.fixture === f.fixture));
+        if (added.length > 0) console.log(`  New fixture(s): ${added.map(f => f.fixture).join(', ')}`);
+    }
+
+    fs.mkdirSync(providerDir, { recursive: true });
+    if (previous) fs.writeFileSync(path.join(providerDir, 'previous-run.json'), JSON.stringify(previous, null, 2));
+    fs.writeFileSync(lastRun, JSON.stringify(run, null, 2));
+}
+
+main().catch(err => {
+    console.error(err);
+    process.exit(1);
+});
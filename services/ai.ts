@@ -1,168 +1,10 @@
-import { GoogleGenAI } from "@google/genai";
-import { CabinetItem, ProjectSpecs, CabinetType } from "../types";
-import { normalizeNKBACode } from "./pricingEngine";
-import { extractTextFromPdf, convertPdfToImages } from "./pdfUtils";
-
-// Using import.meta.env.VITE_GEMINI_API_KEY as per guidelines
-const getAI = () => new GoogleGenAI({ apiKey: import.meta.env.VITE_GEMINI_API_KEY });
-
-// Updated to Flash 1.5 for maximum speed (Sub-10s extraction)
-// PRIORITY: User requested 2.5/3, but since those are not public, we use 2.0 Flash/Pro experimental and fallbacks.
-const MODEL_PRIORITY = [
-    'gemini-3-pro-preview', // User requested top priority
-    'gemini-2.5-pro',       // User requested
-    'gemini-2.5-flash',     // User requested
-    'gemini-2.0-flash-exp', // Newest real fast model
-    'gemini-1.5-pro',       // High quality fallback
-    'gemini-1.5-flash',     // Standard fast model
-    'gemini-1.0-pro'        // Legacy fallback
-];
-
-// Helper to iterate through models if one fails (e.g. 404 Not Found)
-async function generateWithFallback(ai: any, contents: any, config: any) {
-    let lastError;
-    let retries = 0;
-    const maxRetries = 5;
-    let delay = 1000; // Start with 1 second
-
-    for (const model of MODEL_PRIORITY) {
-        try {
-            console.log(`Attempting AI generation with model: ${model}`);
-            const result = await ai.models.generateContent({
-                model: model,
-                contents: contents,
-                config: config
-            });
-            console.log(`Success with model: ${model}`);
-            return result;
-        } catch (error: any) {
-            console.warn(`Model ${model} failed:`, error.message || error);
-            lastError = error;
-
-            // If it's a rate limit error (429), implement exponential backoff.
-            if (error.status === 429 && retries < maxRetries) {
-                retries++;
-                console.log(`Rate limit hit. Retrying in ${delay / 1000}s... (Attempt ${retries}/${maxRetries})`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                delay *= 2; // Double the delay for the next retry
-                continue; // Retry the same model
-            }
-        }
-    }
-    throw lastError; // All models failed
-} 
-
-const SYSTEM_INSTRUCTION = `
-You are Design AI, an expert kitchen cabinet estimator.
-
-GOAL: Extract EVERY cabinet code from the provided document (PDF or Images) with 100% ACCURACY.
-INPUT: Either extracted text from a PDF OR a sequence of images.
-OUTPUT: A JSON object with "scratchpad", "specs", and "items".
-- "items": Array of { originalCode, type, quantity, room, sourcePage, description, width, height, depth }
-- "sourcePage": The page number where the item was found (e.g., 1, 2, 5). CRITICAL for sorting.
-
-### **CRITICAL: EXCLUSION RULES (WHAT TO IGNORE)**
-❌ **DO NOT EXTRACT**:
-- **Appliances**: CKT30 (Cooktop), Dishwashers, Ranges, Microwaves, Fridges.
-- **Plumbing**: WTDP, Sinks, Faucets.
-- **Ventilation**: Vent box, Hood Liners, Power Packs.
-- **Optional Items**: Any item explicitly marked as "Optional" or "Alt" unless it is part of a valid room variant (e.g., "Opt Gourmet Kitchen").
-- **Left-Side Design Descriptions**: Ignore long paragraphs of design notes, architectural descriptions, or general notes on the left/side margins. Focus ONLY on the Floor Plan labels and Cabinet Schedules.
-- **Random Codes**: Do not extract random numbers, electrical symbols, or dimension lines.
-- **NON-KITCHEN/BATH AREAS (STRICT)**:
-  - **IGNORE ENTIRELY**: "Laundry", "Utility", "Mudroom", "Garage", "Pantry", "Living Room", "Dining Room".
-  - **EVEN IF THEY HAVE CABINETS**: Do NOT extract them. The user wants **ONLY KITCHENS AND BATHROOMS**.
-  - **Example**: If you see "OPT LAUNDRY" with "W3030", **IGNORE IT**.
-  - **Exception**: Only extract if the header explicitly says "KITCHEN" (e.g. "BUTLER'S PANTRY KITCHEN") or "BATH".
-
-### **CRITICAL: COUNTING ACCURACY**
-- **COUNT EVERY INSTANCE**: If you see 4 identical cabinets in the drawing, you MUST extract 4.
-- **VISUAL VERIFICATION**: Look at the Floor Plan. If there are 4 boxes drawn for "B15" but the text label only appears once with "Qty: 4" ensure you extract quantity: 4.
-- **MISMATCH FIX**: If the text says "Qty: 3" but you see 4 drawn boxes, TRUST THE DRAWING (4 boxes).
-- **Cabinet 4 Issue**: Specifically check for cabinets that might be hidden in corners or islands. Don't miss the 4th cabinet!
-
-### **CRITICAL: NKBA NOMENCLATURE (The #1 Priority)**
-- **You MUST understand and use NKBA (National Kitchen & Bath Association) cabinet codes.**
-- **FORMAT**: [Type][Width][Height]. Example: W3030
-- **Wall (W)**: W[Width][Height]. W3030 = 30" wide, 30" high. Standard depth is 12", so it is omitted.
-- **Base (B)**: B[Width]. B18 = 18" wide. Standard height (34.5") and depth (24") are omitted.
-- **Sink Base (SB)**: SB[Width]. SB36 = 36" wide sink base.
-- **Tall (T)**: T[Width][Height]. T1884 = 18" wide, 84" high.
-- **Vanity (V)**: V[Width]. V30 = 30" wide. Standard depth is 21".
-- **DIMENSION EXTRACTION**: From a code like W3030, you MUST extract width: 30, height: 30.
-- **If depth is non-standard, it is added at the end**: W362424 = 36"W x 24"H x 24"D.
-
-### **CRITICAL: INCLUSION & CATEGORIZATION RULES**
-✅ **EXTRACT & CATEGORIZE AS FOLLOWS**:
-
-1. **Wall Cabinets** (Type: "Wall")
-   - Codes starting with: W, DC, WDC, WBC.
-
-2. **Base Cabinets** (Type: "Base")
-   - Codes starting with: B, SB, DB, LS, BEC, BBC.
-
-3. **Vanity Cabinets** (Type: "Vanity")
-   - Codes starting with: **VSB** (Vanity Single Bowl), VDB.
-   - **VSB** MUST be categorized as "Vanity", NOT "Base".
-
-4. **Tall Cabinets** (Type: "Tall")
-   - Codes starting with: T, O, P.
-
-5. **Fillers** (Type: "Filler")
-   - Codes starting with: F, WF, TF, U, UF.
-   - **Universal Fillers (U, UF)** MUST be categorized as "Filler".
-   - **Strictly separate** Fillers from Cabinets.
-
-6. **Hardware & Finishing** (Type: "Hardware")
-   - **EXACT MATCH**: Extract hardware names/codes EXACTLY as written.
-   - Includes: Handles, Knobs, Hinges, Legs, Rods, Skin, Panel, Molding, Valance, Corbel, Toe Kick (TK), Touch-up kits, paint.
-
-### **CRITICAL: TITLE BLOCK PARSING (AVOID SPLIT ERRORS)**
-- **WARNING**: Title blocks are often split across multiple lines.
-- **Example**:
-  Line 1: "MI HOMES SARASOTA 4031 MAGNOLIA"
-  Line 2: "STANDARD 42\" KITCHEN"
-  Line 3: "GARAGE RIGHT 1951"
-- **ACTION**: This is **ONE ROOM** called "STANDARD 42\" KITCHEN".
-  - "MI HOMES..." is Builder Info -> IGNORE.
-  - "GARAGE RIGHT..." is Location Info -> IGNORE.
-- **DO NOT** create a room called "GARAGE RIGHT".
-- **DO NOT** create a room called "STANDARD 42\" KITCHEN GARAGE RIGHT".
-- **DO NOT** include "MI HOMES", "SARASOTA", "MAGNOLIA", "GARAGE RIGHT", or "1951" in the final room name.
-- **ONLY** use the functional room name: "STANDARD 42\" KITCHEN".
-
-### **CRITICAL: ROOM GROUPING & CONTEXTUAL MERGING**
-- **ONE ROOM, MULTIPLE PAGES**: A single room (like "Kitchen") often spans multiple pages (Floor Plan, Elevations A, B, C, Hardware Lists).
-- **MERGE THEM**: You MUST group all items from these related pages into **ONE single room entry**.
-- **REUSE EXACT NAMES**: If Page 1 says "STANDARD 42\" KITCHEN" and Page 2 says "STANDARD KITCHEN PLAN", output "STANDARD 42\" KITCHEN" for BOTH. Do not create variations.
-- **CONTEXTUAL ASSOCIATION RULE**: If a page does NOT contain a floor plan or elevation drawing, and primarily lists items like "Hinges", "Knobs", "Molding", "Panels", or "Fillers", you MUST assign these items to the **last major room** you identified (e.g., "STANDARD KITCHEN", "OWNERS BATH").
-- **ABSOLUTE RULE**: **NEVER** use "HARDWARE & FINISHING", "ACCESSORIES", or "HINGES & HARDWARE" as a room name. These are categories, not rooms. If you see these as a title, apply the Contextual Association Rule immediately.
-- **EXAMPLE OF CONTEXTUAL MERGING**:
-  - Page 1 contains a floor plan titled "GOURMET KITCHEN". You extract 10 cabinets for this room.
-  - Page 2 contains a list titled "HARDWARE & ACCESSORIES" with no floor plan. You extract 5 hinges and 20 knobs.
-  - **CORRECT ACTION**: Assign the 5 hinges and 20 knobs to the "GOURMET KITCHEN" room.
-  - **INCORRECT ACTION**: Creating a new room called "HARDWARE & ACCESSORIES".
-
-### **CRITICAL: ROOM SEQUENCE & NAMING**
-- **ORDER MATTERS**: You MUST process rooms in the **EXACT ORDER** they appear in the PDF pages.
-- **NO REORDERING**: Do not group all "Kitchens" together.
-- **TITLE BLOCK PRIORITY**: The Room Name is usually in the main Title Block (bottom/side of the page) or the largest text label.
-  - **Preferred**: "STANDARD 42\" KITCHEN", "OPT GOURMET KITCHEN", "STANDARD OWNERS BATH".
-  - **Avoid**: "Kitchen" (Too generic), "GARAGE RIGHT" (Not a room with cabinets), "MI HOMES" (Builder name).
-  - **Use the **Full Architectural Name** found on the page.
-
-### **INTELLIGENCE RULES**:
-1.  **Analyze All Input**: Read every page provided.
-2.  **Room Detection**: Use Title Blocks or Room Labels. Assign the "room" field for EVERY item.
-3.  **Code Reading**:
-    - **TEXT PRIORITY**: Cabinet Schedules are the SOURCE OF TRUTH.
-    - **VISUAL PRIORITY**: Floor Plans verify quantities.
-    - **DEEP SCAN**: Scan walls clockwise.
-    - **Every Label Matters**: Count every instance of a code.
-4.  **Infer Missing Codes**: If a cabinet has dimensions but no code, construct one (e.g., "B30").
-
-Your extraction must be exhaustive, accurate, and strictly follow the exclusion rules.
-`;
+import { CabinetItem, ProjectSpecs, CabinetType, PageProgress, ExtractionMeta } from "../types";
+import { normalizeNKBACode, getTypeFromCode } from "./pricingEngine";
+import { convertPdfToImages, extractPdfPageTexts, formatPageText, getPdfPageCount, PDFPageText } from "./pdfUtils";
+import { ExtractionProvider, ExtractionProviderId, ExtractionRequest, ExtractionResponse, getExtractionProvider, recordExtractionFixture } from "./extractionProviders";
+import { parseExtractionResponse, needsReask, ParsedExtraction } from "./extractionSchema";
+import { hashFile, buildExtractionCacheKey, readExtractionCache, writeExtractionCache } from "./extractionCache";
+import { applyConfidence } from "./confidence";
 
 // Helper: Merge rooms that are likely the same (e.g. "Kitchen" vs "Kitchen Plan")
 function mergeSimilarRooms(items: CabinetItem[]): CabinetItem[] {
@@ -339,6 +181,15 @@ function consolidateItems(items: any[]): any[] {
             if (item.notes && !existing.notes.includes(item.notes)) {
                 existing.notes += "; " + item.notes;
             }
+
+            // Keep every validation issue from the merged duplicates
+            if (item.validationIssues?.length) {
+                existing.validationIssues = Array.from(new Set([...(existing.validationIssues || []), ...item.validationIssues]));
+            }
+            // The least certain reading decides
+            if (typeof item.aiConfidence === 'number') {
+                existing.aiConfidence = Math.min(existing.aiConfidence ?? 1, item.aiConfidence);
+            }
         } else {
             // Clone item to avoid mutation side effects
             map.set(key, { ...item, quantity: item.quantity || 1 });
@@ -348,35 +199,6 @@ function consolidateItems(items: any[]): any[] {
     return Array.from(map.values());
 }
 
-// New: A rule-based type classifier that overrides the AI. This is the source of truth.
-function getTypeFromCode(code: string): CabinetType | null {
-    const c = code.toUpperCase().trim();
-    if (!c) return null;
-
-    // Vanity is most specific, check first
-    if (c.startsWith('VSB') || c.startsWith('VDB') || c.startsWith('V')) {
-        return 'Vanity';
-    }
-    // Wall cabinets (including corner types)
-    if (c.startsWith('W') || c.startsWith('DC') || c.startsWith('WDC') || c.startsWith('WBC')) {
-        return 'Wall';
-    }
-    // Base cabinets (including all corner and sink types)
-    if (c.startsWith('B') || c.startsWith('SB') || c.startsWith('SKB') || c.startsWith('DB') || c.startsWith('LS') || c.startsWith('BEC') || c.startsWith('BBC') || c.startsWith('K') || c.startsWith('BTK') || c.startsWith('SHB') || c.startsWith('BC') || c.startsWith('EZR') || c.startsWith('DCB')) {
-        return 'Base';
-    }
-    // Tall cabinets
-    if (c.startsWith('T') || c.startsWith('O') || c.startsWith('P')) {
-        return 'Tall';
-    }
-    // Fillers
-    if (c.startsWith('F') || c.startsWith('UF') || c.startsWith('U') || c.startsWith('WF') || c.startsWith('TF')) {
-        return 'Filler';
-    }
-
-    return null; // No rule matched
-}
-
 // New: Generate a human-readable description from an NKBA-style cabinet code.
 function generateDescriptionFromCode(code: string, type: CabinetType): string {
     const c = (code || "").toUpperCase().trim();
@@ -454,101 +276,340 @@ function generateDescriptionFromCode(code: string, type: CabinetType): string {
     return finalDesc.trim();
 }
 
+// --- Page-Batched Extraction ---
+// Large plan sets are split into page batches that run with bounded concurrency. A batch that
+// fails is retried page-by-page so one bad page can't sink the whole upload.
+
+const TEXT_PAGES_PER_BATCH = 8;
+const IMAGE_PAGES_PER_BATCH = 4; // Images are far heavier per page than text
+const MAX_CONCURRENT_BATCHES = 3;
+
+// Pages with less real text than this are treated as scans and rendered to images.
+// (Scanned sheets often still carry a few characters of stamp/title text.)
+const MIN_PAGE_TEXT_CHARS = 50;
+
+interface PageUnit {
+    pageNumber: number;
+    mode: 'text' | 'image';
+    text?: string; // Text layer (kept for image pages too, it helps with room titles)
+    image?: { data: string; mimeType: string };
+}
+
+const hasTextLayer = (text: string) => text.replace(/\s+/g, '').length >= MIN_PAGE_TEXT_CHARS;
+
+// Runs tasks with at most `limit` in flight, preserving result order
+async function runWithConcurrency<T>(tasks: (() => Promise<T>)[], limit: number): Promise<T[]> {
+    const results: T[] = new Array(tasks.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < tasks.length) {
+            const index = next++;
+            results[index] = await tasks[index]();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+    return results;
+}
+
+// Parse + validate one provider response; re-ask once with the reason if it is unusable.
+async function extractWithRepair(
+    provider: ExtractionProvider,
+    request: ExtractionRequest,
+    onReask?: () => void
+): Promise<{ parsed: ParsedExtraction; response: ExtractionResponse }> {
+    let response = await provider.extract(request);
+    let parsed = parseExtractionResponse(response.rawText);
+
+    // Repair round: local JSON repair already happened in the parser; if the result is still
+    // unusable (or was cut off) ask once more with the reason, and keep whichever is better.
+    const reaskReason = needsReask(parsed);
+    if (reaskReason) {
+        console.warn("Extraction response rejected, re-asking:", reaskReason, parsed.issues);
+        onReask?.();
+        try {
+            const retryResponse = await provider.extract({ ...request, repairHint: reaskReason });
+            const retryParsed = parseExtractionResponse(retryResponse.rawText);
+            if (retryParsed.payload && (!parsed.payload || !needsReask(retryParsed) || retryParsed.payload.items.length > parsed.payload.items.length)) {
+                response = retryResponse;
+                parsed = retryParsed;
+            }
+        } catch (e) {
+            console.warn("Re-ask failed, keeping the repaired first response", e);
+        }
+    }
+
+    if (!parsed.payload) {
+        throw new Error(`AI analysis failed. ${parsed.issues.join(' ')}`);
+    }
+    recordExtractionFixture(request.sourceKey, response);
+    return { parsed, response };
+}
+
+// The prompt's "hardware pages belong to the last room" rule can't see across batches,
+// so re-apply it after merging: category-named or room-less items join the previous page's room.
+function assignOrphanItemsToPreviousRoom(items: CabinetItem[]): CabinetItem[] {
+    const isOrphanRoom = (room?: string) => !room || room === 'General' || /HARDWARE|ACCESSOR|HINGES/i.test(room);
+    let lastRoom: string | null = null;
+    [...items]
+        .sort((a, b) => (a.sourcePage || 0) - (b.sourcePage || 0))
+        .forEach(item => {
+            if (!isOrphanRoom(item.room)) lastRoom = item.room!;
+            else if (lastRoom) item.room = lastRoom;
+        });
+    return items;
+}
+
+const formatPageRange = (pages: PageUnit[]) =>
+    pages.length === 1 ? `Page ${pages[0].pageNumber}` : `Pages ${pages[0].pageNumber}-${pages[pages.length - 1].pageNumber}`;
+
+export interface AnalyzePlanOptions {
+    provider?: ExtractionProviderId | ExtractionProvider; // Per-run override of VITE_EXTRACTION_PROVIDER
+    useCache?: boolean; // Default true. Scripts/benchmarks turn it off.
+    forceReanalyze?: boolean; // Skip the cache lookup but still refresh the cached entry
+    pageTexts?: PDFPageText[]; // Pre-extracted PDF text; lets the benchmark run under Node without pdf.js
+}
+
+export interface AnalyzePlanResult {
+    items: CabinetItem[];
+    specs: ProjectSpecs;
+    model: string;
+    issues: string[];
+    failedPages?: number[];
+    meta?: ExtractionMeta; // Only when the cache is enabled (needs the file hash)
+}
+
+type ProgressCallback = (message: string, pages?: PageProgress[]) => void;
+
 export async function analyzePlan(
     file: File, 
     nkbaRules?: any, 
-    onProgress?: (message: string) => void
-): Promise<{ items: CabinetItem[], specs: ProjectSpecs }> {
-    const ai = getAI();
+    onProgress?: ProgressCallback,
+    options: AnalyzePlanOptions = {}
+): Promise<AnalyzePlanResult> {
+    const provider = getExtractionProvider(options.provider);
+    if (options.useCache === false) {
+        return runExtraction(file, provider, nkbaRules, onProgress, options.pageTexts);
+    }
+
+    onProgress?.("Checking for a previous analysis...");
+    const fileHash = await hashFile(file);
+    const key = buildExtractionCacheKey(fileHash, provider, nkbaRules);
+
+    if (!options.forceReanalyze) {
+        const cached = await readExtractionCache(key);
+        if (cached) {
+            onProgress?.("Served from cache.");
+            return {
+                // Fresh ids so two projects built from the same file never share item ids
+                items: cached.items.map(item => ({ ...item, id: `ai_${Date.now()}_${Math.random().toString(36).substr(2, 9)}` })),
+                specs: cached.specs,
+                model: cached.model,
+                issues: cached.issues,
+                meta: {
+                    fileName: file.name,
+                    fileHash,
+                    provider: cached.provider,
+                    model: cached.model,
+                    promptVersion: cached.promptVersion,
+                    analyzedAt: cached.createdAt,
+                    fromCache: true
+                }
+            };
+        }
+    }
+
+    const result = await runExtraction(file, provider, nkbaRules, onProgress, options.pageTexts);
+    const analyzedAt = new Date().toISOString();
+
+    // Only cache complete runs: a page that failed should be retried next time, not remembered
+    if (!result.failedPages?.length) {
+        await writeExtractionCache({
+            key,
+            fileHash,
+            fileName: file.name,
+            provider: provider.id,
+            model: result.model,
+            promptVersion: provider.version,
+            createdAt: analyzedAt,
+            items: result.items,
+            specs: result.specs,
+            issues: result.issues
+        });
+    }
+
+    return {
+        ...result,
+        meta: { fileName: file.name, fileHash, provider: provider.id, model: result.model, promptVersion: provider.version, analyzedAt, fromCache: false }
+    };
+}
+
+async function runExtraction(
+    file: File,
+    provider: ExtractionProvider,
+    nkbaRules?: any,
+    onProgress?: ProgressCallback,
+    providedPageTexts?: PDFPageText[]
+): Promise<AnalyzePlanResult> {
     let items: CabinetItem[] = [];
-    let specs: ProjectSpecs = {};
+    const specs: ProjectSpecs = {};
+    const issues: string[] = [];
 
     const fileType = file.type;
 
-    let contents: any[];
+    let pages: PageUnit[];
 
     if (fileType === 'application/pdf') {
-        let text = "";
-        try {
-            onProgress?.("Extracting text from PDF...");
-            text = await extractTextFromPdf(file);
-        } catch (e) {
-            console.error("Text extraction failed, falling back to images", e);
+        let pageTexts: PDFPageText[] = providedPageTexts || [];
+        if (!providedPageTexts) {
+            try {
+                onProgress?.("Extracting text from PDF...");
+                pageTexts = await extractPdfPageTexts(file);
+            } catch (e) {
+                console.error("Text extraction failed, falling back to images", e);
+            }
         }
-        
-        if (!text || text.trim().length < 50) {
+        if (pageTexts.length === 0) {
+            const pageCount = await getPdfPageCount(file);
+            pageTexts = Array.from({ length: pageCount }, (_, i) => ({ pageNumber: i + 1, text: '' }));
+        }
+
+        // Per-page decision: vector pages go as text, scanned/sparse pages are rendered
+        pages = pageTexts.map(p => ({ pageNumber: p.pageNumber, text: p.text, mode: hasTextLayer(p.text) ? 'text' : 'image' }));
+        const scanned = pages.filter(p => p.mode === 'image');
+
+        if (scanned.length > 0 && !provider.supportsImages) {
+            if (scanned.length === pages.length) {
+                throw new Error(`${provider.label} cannot read scanned PDFs (no text layer found).`);
+            }
+            issues.push(`${scanned.length} scanned page(s) skipped (${scanned.map(p => p.pageNumber).join(', ')}): ${provider.label} cannot read images.`);
+            pages = pages.filter(p => p.mode === 'text');
+        } else if (scanned.length === pages.length) {
             onProgress?.("Text extraction failed. Converting PDF to images for analysis...");
-            const images = await convertPdfToImages(file);
-            contents = [
-                { text: SYSTEM_INSTRUCTION },
-                ...images.map(img => ({
-                    inlineData: {
-                        data: img.data,
-                        mimeType: img.mimeType
-                    }
-                }))
-            ];
-        } else {
-            contents = [
-                { text: SYSTEM_INSTRUCTION },
-                { text: `EXTRACTED TEXT:\n${text}` }
-            ];
+        } else if (scanned.length > 0) {
+            onProgress?.(`${scanned.length} scanned page(s) detected. Rendering those as images...`);
         }
 
     } else if (fileType.startsWith('image/')) {
+        if (!provider.supportsImages) {
+            throw new Error(`${provider.label} cannot read images. Upload a PDF or choose the AI provider.`);
+        }
         const base64 = await new Promise<string>((resolve, reject) => {
             const reader = new FileReader();
             reader.onload = () => resolve((reader.result as string).split(',')[1]);
             reader.onerror = reject;
             reader.readAsDataURL(file);
         });
-        contents = [
-            { text: SYSTEM_INSTRUCTION },
-            {
-                inlineData: {
-                    data: base64,
-                    mimeType: file.type
-                }
-            }
-        ];
+        pages = [{ pageNumber: 1, mode: 'image', image: { data: base64, mimeType: file.type } }];
     } else {
         throw new Error("Unsupported file type. Please upload a PDF or an image.");
     }
-    
-    if (nkbaRules) {
-        contents.unshift({ text: `ADDITIONAL NKBA RULES:\n${JSON.stringify(nkbaRules, null, 2)}` });
-    }
 
-    onProgress?.("Analyzing document with AI...");
-    const result = await generateWithFallback(ai, contents, {
-        temperature: 0.0,
-        topK: 1,
+    // --- Batch & Run ---
+    // Batches never mix modes; text and image batches are interleaved in page order
+    // and everything is merged into one extraction at the end.
+    const batches: PageUnit[][] = [];
+    pages.forEach(page => {
+        const current = batches[batches.length - 1];
+        const limit = page.mode === 'text' ? TEXT_PAGES_PER_BATCH : IMAGE_PAGES_PER_BATCH;
+        if (current && current[0].mode === page.mode && current.length < limit) current.push(page);
+        else batches.push([page]);
     });
 
-    if (!result || !result.candidates || result.candidates.length === 0) {
-        throw new Error("AI analysis failed. No valid response received.");
-    }
+    const progress: PageProgress[] = pages.map(p => ({ pageNumber: p.pageNumber, status: 'pending', mode: p.mode }));
+    const setStatus = (batch: PageUnit[], status: PageProgress['status'], itemCount?: number) => {
+        batch.forEach(p => {
+            const entry = progress.find(e => e.pageNumber === p.pageNumber)!;
+            entry.status = status;
+            if (itemCount !== undefined) entry.itemCount = itemCount;
+        });
+        const done = progress.filter(e => e.status === 'done' || e.status === 'failed').length;
+        onProgress?.(`Analyzing with ${provider.label}: ${done}/${progress.length} page(s) done...`, progress.map(e => ({ ...e })));
+    };
+
+    const buildRequest = async (batch: PageUnit[]): Promise<ExtractionRequest> => {
+        // The whole document in one batch keeps the plain file name as the fixture key
+        const sourceKey = batches.length === 1 && batch.length === pages.length
+            ? file.name
+            : `${file.name}#p${batch[0].pageNumber}-${batch[batch.length - 1].pageNumber}`;
+        const request: ExtractionRequest = { sourceKey, nkbaRules };
+        const pageTexts = batch
+            .filter(p => p.text && p.text.trim())
+            .map(p => formatPageText({ pageNumber: p.pageNumber, text: p.text! }));
+        if (pageTexts.length > 0) request.text = pageTexts.join('\n');
+
+        if (batch[0].mode === 'image') {
+            if (batch.every(p => p.image)) {
+                request.images = batch.map(p => ({ ...p.image!, pageNumber: p.pageNumber }));
+            } else {
+                // Render lazily per batch (only the sparse pages) so a 60-page scan is never held in memory all at once
+                request.images = await convertPdfToImages(file, batch.map(p => p.pageNumber));
+            }
+        }
+        return request;
+    };
+
+    const models = new Set<string>();
+    const runPages = async (batch: PageUnit[]): Promise<CabinetItem[]> => {
+        const { parsed, response } = await extractWithRepair(provider, await buildRequest(batch), () => setStatus(batch, 'retrying'));
+        models.add(response.model);
+        parsed.issues.forEach(issue => issues.push(`${formatPageRange(batch)}: ${issue}`));
+        // Earliest page wins for document-level specs
+        Object.entries(parsed.payload!.specs).forEach(([key, value]) => {
+            if (value && !(specs as any)[key]) (specs as any)[key] = value;
+        });
+        const batchItems = parsed.payload!.items.map(item => ({
+            ...item,
+            // Single-page requests can't be wrong about the page
+            sourcePage: batch.length === 1 ? batch[0].pageNumber : item.sourcePage
+        }));
+        setStatus(batch, 'done', batchItems.length);
+        return batchItems;
+    };
 
-    const rawJson = result.candidates[0].content.parts[0].text
-        .trim();
+    const failPage = (page: PageUnit, err: any) => {
+        console.error(`Page ${page.pageNumber} failed`, err);
+        issues.push(`Page ${page.pageNumber} could not be analyzed: ${err.message || err}`);
+        setStatus([page], 'failed');
+    };
 
-        // New, more robust JSON parsing
-        const firstBrace = rawJson.indexOf('{');
-        const lastBrace = rawJson.lastIndexOf('}');
-        if (firstBrace === -1 || lastBrace === -1 || lastBrace < firstBrace) {
-            throw new Error('No valid JSON object found in the AI response.');
+    const batchResults = await runWithConcurrency(batches.map(batch => async () => {
+        setStatus(batch, 'running');
+        try {
+            return await runPages(batch);
+        } catch (err: any) {
+            // A single page has already had its re-ask inside extractWithRepair
+            if (batch.length === 1) {
+                failPage(batch[0], err);
+                return [];
+            }
+            console.warn(`${formatPageRange(batch)} failed, retrying page by page`, err);
         }
-        const jsonContent = rawJson.substring(firstBrace, lastBrace + 1);
-        
-        const aiResult = JSON.parse(jsonContent);
-    
-    items = aiResult.items || [];
-    specs = aiResult.specs || {};
+
+        const recovered: CabinetItem[] = [];
+        for (const page of batch) {
+            setStatus([page], 'retrying');
+            try {
+                recovered.push(...await runPages([page]));
+            } catch (err: any) {
+                failPage(page, err);
+            }
+        }
+        return recovered;
+    }), MAX_CONCURRENT_BATCHES);
+
+    if (progress.every(p => p.status === 'failed')) {
+        throw new Error(issues[issues.length - 1] || "AI analysis failed for every page.");
+    }
+
+    items = batchResults.flat();
+    if (batches.length > 1) items = assignOrphanItemsToPreviousRoom(items);
 
     items.forEach(item => {
         item.id = `ai_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         item.normalizedCode = normalizeNKBACode(item.originalCode);
         
+        // Keep what the model said so confidence scoring can spot rule/AI disagreements
+        item.extractedType = item.type;
         const ruleType = getTypeFromCode(item.normalizedCode);
         if (ruleType) {
             item.type = ruleType;
@@ -559,7 +620,13 @@ export async function analyzePlan(
         }
     });
 
-    items = consolidateItems(items);
+    items = applyConfidence(consolidateItems(items));
 
-    return { items, specs };
-}
\ No newline at end of file
+    return {
+        items,
+        specs,
+        model: Array.from(models).join(', '),
+        issues,
+        failedPages: progress.filter(p => p.status === 'failed').map(p => p.pageNumber)
+    };
+}
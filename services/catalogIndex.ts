@@ -0,0 +1,150 @@
+// --- Catalog Index ---
+// Catalogs are plain { SKU: { column: price } } objects with 10-20k keys. Matching used to
+// scan and re-normalize every key per unmatched item, and the winner depended on object key
+// order. The index is built once per catalog load (see storage.getManufacturerCatalog) and
+// gives O(1) key lookups, prefix search through a trie and a width/height grid per type.
+
+export type Catalog = Record<string, Record<string, number>>;
+
+interface TrieNode {
+    children: Record<string, TrieNode>;
+    key?: string; // Normalized SKU ending here
+}
+
+export interface GridEntry {
+    sku: string; // Catalog key
+    width: number;
+    height?: number;
+    suffix: string;
+}
+
+export interface CatalogIndex {
+    catalog: Catalog;
+    size: number;
+    keys: Map<string, string>; // Normalized SKU -> catalog key
+    trie: TrieNode;
+    grid: Map<string, Map<number, GridEntry[]>>; // Type prefix -> width -> entries (by height, suffix, SKU)
+}
+
+// Helper to normalize lookups consistently with Admin ingestion
+export const normalizeLookup = (sku: string): string => {
+    return (sku || '').trim()
+        .toUpperCase()
+        .replace(/–|—/g, '-') // Normalize dashes
+        .replace(/\s+/g, ''); // Remove spaces
+};
+
+// Locale-independent so the same catalog always sorts the same way
+const compare = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+// "W3036B" -> W / 30 / 36 / B, "B15-L" -> B / 15 / - / -L. Keys without a 2-digit width aren't gridded.
+const GRID_PATTERN = /^([A-Z]+)(\d{2})(\d{2})?([A-Z-][A-Z0-9-]*)?$/;
+
+const indexes = new WeakMap<Catalog, CatalogIndex>();
+
+export const buildCatalogIndex = (catalog: Catalog): CatalogIndex => {
+    const index: CatalogIndex = { catalog, size: 0, keys: new Map(), trie: { children: {} }, grid: new Map() };
+
+    // Sorted so that two raw keys normalizing to the same SKU always resolve the same way;
+    // an already-normalized key wins over a variant with spaces or odd dashes.
+    Object.keys(catalog).sort().forEach(raw => {
+        const key = normalizeLookup(raw);
+        if (!key) return;
+        const existing = index.keys.get(key);
+        if (existing !== undefined && existing === key) return;
+        if (existing === undefined) index.size++;
+        index.keys.set(key, raw);
+    });
+
+    index.keys.forEach((raw, key) => {
+        let node = index.trie;
+        for (const ch of key) {
+            node = node.children[ch] || (node.children[ch] = { children: {} });
+        }
+        node.key = key;
+
+        const m = key.match(GRID_PATTERN);
+        if (!m) return;
+        const [, prefix, w, h, suffix = ''] = m;
+        const width = parseInt(w, 10);
+        const byWidth = index.grid.get(prefix) || new Map<number, GridEntry[]>();
+        index.grid.set(prefix, byWidth);
+        const cell = byWidth.get(width) || [];
+        byWidth.set(width, cell);
+        cell.push({ sku: raw, width, height: h ? parseInt(h, 10) : undefined, suffix });
+    });
+
+    index.grid.forEach(byWidth => byWidth.forEach(cell => cell.sort((a, b) =>
+        (a.height ?? -1) - (b.height ?? -1) || compare(a.suffix, b.suffix) || compare(a.sku, b.sku)
+    )));
+
+    indexes.set(catalog, index);
+    return index;
+};
+
+// Reuses the index built at load time; catalogs that never went through storage get one lazily
+export const getCatalogIndex = (catalog: Catalog = {}): CatalogIndex =>
+    indexes.get(catalog) || buildCatalogIndex(catalog);
+
+// --- Lookups ---
+
+// Catalog key for a SKU, tolerant of case, spaces and dash variants
+export const lookupSku = (index: CatalogIndex, sku: string): string | undefined =>
+    index.keys.get(normalizeLookup(sku));
+
+const findNode = (index: CatalogIndex, key: string): TrieNode | undefined => {
+    let node: TrieNode | undefined = index.trie;
+    for (const ch of key) {
+        node = node.children[ch];
+        if (!node) return undefined;
+    }
+    return node;
+};
+
+// Shortest catalog SKU starting with `prefix` and at most `maxExtra` characters longer.
+// Ties at the same length go to the alphabetically first SKU.
+export const findByPrefix = (index: CatalogIndex, prefix: string, maxExtra: number): string | undefined => {
+    const start = findNode(index, normalizeLookup(prefix));
+    if (!start) return undefined;
+    let level: TrieNode[] = [start];
+    for (let depth = 0; depth <= maxExtra && level.length > 0; depth++) {
+        const hits = level.filter(n => n.key).map(n => n.key!).sort(compare);
+        if (hits.length > 0) return index.keys.get(hits[0]);
+        level = level.flatMap(n => Object.values(n.children));
+    }
+    return undefined;
+};
+
+// Longest catalog SKU that is a proper prefix of `sku` and longer than `minLength` characters
+export const findLongestPrefix = (index: CatalogIndex, sku: string, minLength: number): string | undefined => {
+    const key = normalizeLookup(sku);
+    let node: TrieNode | undefined = index.trie;
+    let best: string | undefined;
+    for (let i = 0; i < key.length - 1 && node; i++) {
+        node = node.children[key[i]];
+        if (node?.key && node.key.length > minLength) best = node.key;
+    }
+    return best ? index.keys.get(best) : undefined;
+};
+
+// Same type and width, height within +/- maxDelta. Closest first, taller before shorter;
+// at each height an exact suffix match beats the plain box.
+export const findHeightNeighbor = (
+    index: CatalogIndex,
+    prefix: string,
+    width: number,
+    height: number,
+    suffix: string = '',
+    maxDelta: number = 2
+): GridEntry | undefined => {
+    const cell = index.grid.get(prefix)?.get(width);
+    if (!cell) return undefined;
+    for (let delta = 1; delta <= maxDelta; delta++) {
+        for (const h of [height + delta, height - delta]) {
+            const atHeight = cell.filter(e => e.height === h);
+            const hit = atHeight.find(e => e.suffix === suffix) || (suffix ? atHeight.find(e => e.suffix === '') : undefined);
+            if (hit) return hit;
+        }
+    }
+    return undefined;
+};
@@ -0,0 +1,82 @@
+import { CabinetItem, CabinetType } from "../types";
+import { getTypeFromCode, normalizeNKBACode, findCatalogSku } from "./pricingEngine";
+import { SkuAliasSource } from "./skuAliases";
+
+// --- Extraction Confidence ---
+// Each signal multiplies the score down from the AI's own estimate, so one strong red flag
+// (e.g. SKU missing from the catalog) is enough to send an item to the review queue.
+
+export const NEEDS_REVIEW_THRESHOLD = 0.7;
+
+const DEFAULT_AI_CONFIDENCE = 0.8; // Model didn't report one
+
+// Types whose codes are free-form (hardware names, appliance models), so NKBA rules don't apply
+const NON_NKBA_TYPES: CabinetType[] = ['Hardware', 'Finishing', 'Appliance', 'Accessory', 'Modification', 'Panel'];
+
+const compact = (code: string) => (code || '').toUpperCase().replace(/\s+/g, '');
+
+export const scoreItemConfidence = (
+    item: CabinetItem,
+    catalog?: Record<string, Record<string, number>>,
+    aliases?: SkuAliasSource
+): { confidence: number; reasons: string[] } => {
+    const reasons: string[] = [];
+
+    // 1. AI self-report
+    let score = typeof item.aiConfidence === 'number' ? item.aiConfidence : DEFAULT_AI_CONFIDENCE;
+    if (typeof item.aiConfidence === 'number' && item.aiConfidence < NEEDS_REVIEW_THRESHOLD) {
+        reasons.push(`AI was unsure (${Math.round(item.aiConfidence * 100)}%)`);
+    }
+
+    // 2. Normalization had to rewrite the code
+    const normalized = item.normalizedCode || normalizeNKBACode(item.originalCode);
+    if (compact(normalized) !== compact(item.originalCode)) {
+        score *= 0.85;
+        reasons.push(`Code normalized ${item.originalCode} → ${normalized}`);
+    }
+
+    // 3. NKBA rule type vs AI type
+    const ruleType = getTypeFromCode(normalized);
+    const aiType = item.extractedType || item.type;
+    if (!ruleType) {
+        if (!NON_NKBA_TYPES.includes(aiType)) {
+            score *= 0.8;
+            reasons.push('Code does not follow an NKBA pattern');
+        }
+    } else if (aiType !== ruleType) {
+        score *= 0.7;
+        reasons.push(`AI said ${aiType}, code says ${ruleType}`);
+    }
+
+    // 4. Catalog presence (only once a manufacturer is connected)
+    if (catalog && Object.keys(catalog).length > 0 && !NON_NKBA_TYPES.includes(item.type)) {
+        const match = findCatalogSku(item, catalog, aliases);
+        if (!match) {
+            score *= 0.6;
+            reasons.push('Not found in catalog');
+        } else if (!match.exact) {
+            score *= 0.9;
+            reasons.push(`Only a similar catalog SKU (${match.sku})`);
+        }
+    }
+
+    // 5. Schema validation had to guess fields
+    if (item.validationIssues?.length) {
+        score *= 0.8;
+        reasons.push('Fields corrected during validation');
+    }
+
+    return { confidence: Math.max(0, Math.min(1, score)), reasons };
+};
+
+export const applyConfidence = (
+    items: CabinetItem[],
+    catalog?: Record<string, Record<string, number>>,
+    aliases?: SkuAliasSource
+): CabinetItem[] => items.map(item => {
+    const { confidence, reasons } = scoreItemConfidence(item, catalog, aliases);
+    return { ...item, confidence, confidenceReasons: reasons };
+});
+
+export const needsReview = (item: CabinetItem): boolean =>
+    !item.reviewed && typeof item.confidence === 'number' && item.confidence < NEEDS_REVIEW_THRESHOLD;
@@ -0,0 +1,169 @@
+import { CabinetItem } from "../types";
+import { normalizeNKBACode } from "./pricingEngine";
+
+// --- Extraction Benchmark Scoring ---
+// Compares an analyzePlan result against hand-labelled ground truth. Lines are paired by
+// normalized code (same room preferred), so a cabinet placed in the wrong room still counts
+// as found but costs room accuracy instead of recall.
+
+export interface BenchmarkExpectedItem {
+    room: string;
+    code: string;
+    quantity: number;
+}
+
+export interface BenchmarkLineMiss {
+    room: string;
+    code: string;
+    quantity: number;
+}
+
+export interface BenchmarkMismatch {
+    code: string;
+    expectedRoom: string;
+    actualRoom: string;
+    expectedQty: number;
+    actualQty: number;
+}
+
+export interface FixtureScore {
+    fixture: string;
+    expectedLines: number;
+    extractedLines: number;
+    matched: number;
+    precision: number;
+    recall: number;
+    quantityAccuracy: number; // Share of matched lines with the right quantity
+    roomAccuracy: number; // Share of matched lines assigned to the right room
+    missing: BenchmarkLineMiss[]; // False negatives
+    extra: BenchmarkLineMiss[]; // False positives
+    mismatches: BenchmarkMismatch[]; // Matched, but wrong quantity or room
+    error?: string; // analyzePlan threw; every metric is 0
+}
+
+export interface BenchmarkRun {
+    runAt: string;
+    provider: string;
+    promptVersion: string;
+    fixtures: FixtureScore[];
+    totals: { precision: number; recall: number; quantityAccuracy: number; roomAccuracy: number };
+}
+
+const roomKey = (room: string) => (room || 'General').trim().toLowerCase();
+// Empty denominators: nothing to get wrong counts as perfect, unless something was expected
+const ratio = (num: number, den: number, emptyValue = 1) => den === 0 ? emptyValue : num / den;
+
+// Sum duplicates so both sides are one line per room + code
+const collapse = (lines: BenchmarkLineMiss[]): BenchmarkLineMiss[] => {
+    const map = new Map<string, BenchmarkLineMiss>();
+    lines.forEach(line => {
+        const key = `${roomKey(line.room)}|${line.code}`;
+        const existing = map.get(key);
+        if (existing) existing.quantity += line.quantity;
+        else map.set(key, { ...line });
+    });
+    return Array.from(map.values());
+};
+
+export const scoreExtraction = (fixture: string, expected: BenchmarkExpectedItem[], items: CabinetItem[]): FixtureScore => {
+    const expectedLines = collapse(expected.map(e => ({ room: e.room, code: normalizeNKBACode(e.code), quantity: e.quantity })));
+    const actualLines = collapse(items.map(i => ({ room: i.room || 'General', code: i.normalizedCode || normalizeNKBACode(i.originalCode), quantity: i.quantity })));
+
+    const unmatchedActual = [...actualLines];
+    const pairs: { expected: BenchmarkLineMiss; actual: BenchmarkLineMiss }[] = [];
+    const missing: BenchmarkLineMiss[] = [];
+
+    // Pass 1: same room + code. Pass 2: same code anywhere.
+    const remainingExpected = expectedLines.filter(exp => {
+        const idx = unmatchedActual.findIndex(a => a.code === exp.code && roomKey(a.room) === roomKey(exp.room));
+        if (idx === -1) return true;
+        pairs.push({ expected: exp, actual: unmatchedActual.splice(idx, 1)[0] });
+        return false;
+    });
+    remainingExpected.forEach(exp => {
+        const idx = unmatchedActual.findIndex(a => a.code === exp.code);
+        if (idx === -1) missing.push(exp);
+        else pairs.push({ expected: exp, actual: unmatchedActual.splice(idx, 1)[0] });
+    });
+
+    const mismatches: BenchmarkMismatch[] = pairs
+        .filter(p => p.expected.quantity !== p.actual.quantity || roomKey(p.expected.room) !== roomKey(p.actual.room))
+        .map(p => ({
+            code: p.expected.code,
+            expectedRoom: p.expected.room,
+            actualRoom: p.actual.room,
+            expectedQty: p.expected.quantity,
+            actualQty: p.actual.quantity
+        }));
+
+    return {
+        fixture,
+        expectedLines: expectedLines.length,
+        extractedLines: actualLines.length,
+        matched: pairs.length,
+        precision: ratio(pairs.length, actualLines.length, expectedLines.length === 0 ? 1 : 0),
+        recall: ratio(pairs.length, expectedLines.length),
+        quantityAccuracy: ratio(pairs.filter(p => p.expected.quantity === p.actual.quantity).length, pairs.length),
+        roomAccuracy: ratio(pairs.filter(p => roomKey(p.expected.room) === roomKey(p.actual.room)).length, pairs.length),
+        missing,
+        extra: unmatchedActual,
+        mismatches
+    };
+};
+
+export const failedFixtureScore = (fixture: string, expected: BenchmarkExpectedItem[], error: string): FixtureScore => ({
+    fixture,
+    expectedLines: expected.length,
+    extractedLines: 0,
+    matched: 0,
+    precision: 0,
+    recall: 0,
+    quantityAccuracy: 0,
+    roomAccuracy: 0,
+    missing: expected.map(e => ({ room: e.room, code: normalizeNKBACode(e.code), quantity: e.quantity })),
+    extra: [],
+    mismatches: [],
+    error
+});
+
+// Micro-averaged over all lines, so big plans weigh more than small ones
+export const summarizeBenchmark = (fixtures: FixtureScore[]): BenchmarkRun['totals'] => {
+    const sum = (fn: (f: FixtureScore) => number) => fixtures.reduce((acc, f) => acc + fn(f), 0);
+    const matched = sum(f => f.matched);
+    return {
+        precision: ratio(matched, sum(f => f.extractedLines), sum(f => f.expectedLines) === 0 ? 1 : 0),
+        recall: ratio(matched, sum(f => f.expectedLines)),
+        quantityAccuracy: ratio(sum(f => f.quantityAccuracy * f.matched), matched),
+        roomAccuracy: ratio(sum(f => f.roomAccuracy * f.matched), matched)
+    };
+};
+
+// --- Run Diff ---
+
+export type BenchmarkMetric = keyof BenchmarkRun['totals'];
+export const BENCHMARK_METRICS: BenchmarkMetric[] = ['precision', 'recall', 'quantityAccuracy', 'roomAccuracy'];
+
+export interface BenchmarkMetricDelta {
+    fixture: string; // 'TOTAL' for the summary row
+    metric: BenchmarkMetric;
+    before: number;
+    after: number;
+    delta: number;
+}
+
+export const diffBenchmarkRuns = (before: BenchmarkRun, after: BenchmarkRun): BenchmarkMetricDelta[] => {
+    const deltas: BenchmarkMetricDelta[] = [];
+    const push = (fixture: string, prev: Record<BenchmarkMetric, number>, next: Record<BenchmarkMetric, number>) => {
+        BENCHMARK_METRICS.forEach(metric => {
+            const delta = next[metric] - prev[metric];
+            if (Math.abs(delta) > 1e-9) deltas.push({ fixture, metric, before: prev[metric], after: next[metric], delta });
+        });
+    };
+
+    push('TOTAL', before.totals, after.totals);
+    after.fixtures.forEach(f => {
+        const prev = before.fixtures.find(p => p.fixture === f.fixture);
+        if (prev) push(f.fixture, prev, f);
+    });
+    return deltas;
+};
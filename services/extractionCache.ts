@@ -0,0 +1,35 @@
+import { ExtractionCacheEntry } from "../types";
+import { ExtractionProvider, hashString } from "./extractionProviders";
+
+// --- Extraction Cache ---
+// analyzePlan results keyed by file content, so re-uploading the same plan (or stepping back to
+// Upload) doesn't pay for another AI run. The key also covers the provider, its prompt/parser
+// version and the NKBA rules, so changing any of them invalidates old entries automatically.
+
+export const hashFile = async (file: File): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildExtractionCacheKey = (fileHash: string, provider: ExtractionProvider, nkbaRules?: any): string =>
+    [fileHash, provider.id, provider.version, nkbaRules ? hashString(JSON.stringify(nkbaRules)) : 'no-rules'].join(':');
+
+// Storage is loaded lazily: it pulls in the Supabase client, which scripts running under Node can't create.
+export const readExtractionCache = async (key: string): Promise<ExtractionCacheEntry | null> => {
+    try {
+        const { storage } = await import('./storage');
+        return await storage.getCachedExtraction(key);
+    } catch (e) {
+        console.warn("Extraction cache unavailable", e);
+        return null;
+    }
+};
+
+export const writeExtractionCache = async (entry: ExtractionCacheEntry): Promise<void> => {
+    try {
+        const { storage } = await import('./storage');
+        await storage.saveCachedExtraction(entry);
+    } catch (e) {
+        console.warn("Extraction cache write failed", e);
+    }
+};
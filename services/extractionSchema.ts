@@ -0,0 +1,282 @@
+import { CabinetItem, CabinetModification, CabinetType, ProjectSpecs } from "../types";
+import { getTypeFromCode, normalizeNKBACode } from "./pricingEngine";
+
+// --- Extraction Payload Schema ---
+// The model is asked for { scratchpad, specs, items }. Nothing it returns is trusted:
+// every field is coerced to the CabinetItem shape and each fix-up is recorded on the item
+// as a validation issue so the Review step can show what was guessed.
+
+export const CABINET_TYPES: CabinetType[] = ['Base', 'Wall', 'Tall', 'Vanity', 'Panel', 'Filler', 'Accessory', 'Modification', 'Appliance', 'Hardware', 'Finishing'];
+
+export interface ExtractionPayload {
+    scratchpad: string;
+    specs: ProjectSpecs;
+    items: CabinetItem[];
+}
+
+export interface ParsedExtraction {
+    payload: ExtractionPayload | null; // null when nothing usable could be recovered
+    issues: string[]; // Response-level problems (truncation, dropped items, bad specs)
+    truncated: boolean;
+    repaired: boolean; // JSON had to be patched before it would parse
+    droppedItems: number;
+}
+
+// --- JSON Recovery ---
+
+// Closes a response that was cut off mid-stream: drops the dangling partial value,
+// then closes any open string/array/object in order.
+export const repairTruncatedJson = (json: string): string => {
+    const stack: string[] = [];
+    let inString = false;
+    let escaped = false;
+    let lastSafeCut = -1; // Index just after the last complete value inside a container
+
+    for (let i = 0; i < json.length; i++) {
+        const ch = json[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === '{' || ch === '[') stack.push(ch === '{' ? '}' : ']');
+        else if (ch === '}' || ch === ']') {
+            stack.pop();
+            lastSafeCut = i + 1;
+        } else if (ch === ',') lastSafeCut = i;
+    }
+
+    if (stack.length === 0 && !inString) return json;
+
+    // Cut back to the last complete element and re-close the containers that were open at that point
+    const head = lastSafeCut > 0 ? json.substring(0, lastSafeCut) : json;
+    const reopened: string[] = [];
+    let str = false, esc = false;
+    for (const ch of head) {
+        if (str) {
+            if (esc) esc = false;
+            else if (ch === '\\') esc = true;
+            else if (ch === '"') str = false;
+            continue;
+        }
+        if (ch === '"') str = true;
+        else if (ch === '{' || ch === '[') reopened.push(ch === '{' ? '}' : ']');
+        else if (ch === '}' || ch === ']') reopened.pop();
+    }
+    return head.replace(/,\s*$/, '') + reopened.reverse().join('');
+};
+
+// Fixes the usual non-JSON habits of LLMs: code fences, trailing commas, smart quotes, comments.
+const cleanJsonText = (json: string): string => json
+    .replace(/```(?:json)?/gi, '')
+    .replace(/[“”]/g, '"')
+    .replace(/[‘’]/g, "'")
+    .replace(/^\s*\/\/.*$/gm, '')
+    .replace(/,(\s*[}\]])/g, '$1');
+
+const tryParse = (json: string): any => {
+    try { return JSON.parse(json); } catch (e) { return undefined; }
+};
+
+// --- Field Coercion ---
+
+// Accepts 30, "30", '30"', "30 1/2", "30.5in"
+const coerceDimension = (value: any): number | null => {
+    if (typeof value === 'number') return isFinite(value) && value >= 0 ? value : null;
+    if (typeof value !== 'string') return null;
+    const m = value.trim().match(/^(\d+(?:\.\d+)?)(?:\s+(\d+)\/(\d+))?/);
+    if (!m) return null;
+    let n = parseFloat(m[1]);
+    if (m[2] && m[3] && parseInt(m[3]) > 0) n += parseInt(m[2]) / parseInt(m[3]);
+    return n;
+};
+
+// Accepts 2, "2", "x2", "Qty: 2"
+const coerceQuantity = (value: any): number | null => {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    const m = value.match(/\d+/);
+    return m ? parseInt(m[0], 10) : null;
+};
+
+const coerceType = (value: any, code: string): { type: CabinetType; issue?: string } => {
+    const raw = typeof value === 'string' ? value.trim() : '';
+    const match = CABINET_TYPES.find(t => t.toLowerCase() === raw.toLowerCase());
+    if (match) return { type: match };
+
+    const ruleType = getTypeFromCode(normalizeNKBACode(code));
+    const fallback: CabinetType = ruleType || 'Accessory';
+    return {
+        type: fallback,
+        issue: raw ? `Unknown type "${raw}", using ${fallback}` : `Missing type, using ${fallback}`
+    };
+};
+
+const coerceModifications = (value: any, issues: string[]): CabinetModification[] | undefined => {
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value)) {
+        issues.push('Modifications were not a list and were ignored');
+        return undefined;
+    }
+    return value
+        .map((m: any) => typeof m === 'string'
+            ? { description: m, price: 0 }
+            : { description: String(m?.description || '').trim(), price: Number(m?.price) || 0 })
+        .filter(m => m.description);
+};
+
+// Returns null when the entry can't be a line item at all (no code).
+export const coerceExtractedItem = (raw: any): CabinetItem | null => {
+    if (!raw || typeof raw !== 'object') return null;
+
+    const originalCode = String(raw.originalCode ?? raw.code ?? '').trim();
+    if (!originalCode) return null;
+
+    const issues: string[] = [];
+
+    let quantity = coerceQuantity(raw.quantity ?? raw.qty);
+    if (quantity === null) {
+        issues.push('Quantity missing, defaulted to 1');
+        quantity = 1;
+    } else if (quantity <= 0) {
+        issues.push(`Quantity ${quantity} is not positive, defaulted to 1`);
+        quantity = 1;
+    } else if (!Number.isInteger(quantity)) {
+        issues.push(`Quantity ${quantity} rounded to ${Math.max(1, Math.round(quantity))}`);
+        quantity = Math.max(1, Math.round(quantity));
+    }
+
+    const dims: Record<'width' | 'height' | 'depth', number> = { width: 0, height: 0, depth: 0 };
+    (['width', 'height', 'depth'] as const).forEach(key => {
+        const value = raw[key];
+        if (value === undefined || value === null || value === '') return;
+        const n = coerceDimension(value);
+        if (n === null) issues.push(`Invalid ${key} "${value}" ignored`);
+        else {
+            if (typeof value !== 'number') issues.push(`${key[0].toUpperCase() + key.slice(1)} "${value}" read as ${n}`);
+            dims[key] = n;
+        }
+    });
+
+    const { type, issue: typeIssue } = coerceType(raw.type, originalCode);
+    if (typeIssue) issues.push(typeIssue);
+
+    const sourcePage = coerceQuantity(raw.sourcePage);
+
+    // Self-rated 0-1; some responses come back as a percentage
+    let aiConfidence = raw.confidence !== undefined && raw.confidence !== null ? Number(raw.confidence) : undefined;
+    if (aiConfidence !== undefined) {
+        if (isNaN(aiConfidence) || aiConfidence < 0) aiConfidence = undefined;
+        else if (aiConfidence > 1) aiConfidence = Math.min(aiConfidence / 100, 1);
+    }
+
+    const extractedPrice = raw.extractedPrice !== undefined ? Number(raw.extractedPrice) : undefined;
+    if (extractedPrice !== undefined && isNaN(extractedPrice)) issues.push(`Invalid price "${raw.extractedPrice}" ignored`);
+
+    const item: CabinetItem = {
+        id: '',
+        originalCode,
+        type,
+        description: typeof raw.description === 'string' ? raw.description.trim() : '',
+        quantity,
+        room: typeof raw.room === 'string' && raw.room.trim() ? raw.room.trim() : 'General',
+        ...dims,
+        sourcePage: sourcePage && sourcePage > 0 ? sourcePage : undefined,
+        extractedPrice: extractedPrice !== undefined && !isNaN(extractedPrice) ? extractedPrice : undefined,
+        notes: typeof raw.notes === 'string' ? raw.notes : '',
+        modifications: coerceModifications(raw.modifications, issues),
+        aiConfidence
+    };
+    if (issues.length > 0) item.validationIssues = issues;
+    return item;
+};
+
+// Specs are free-form strings except the two selection maps
+const coerceSpecs = (raw: any, issues: string[]): ProjectSpecs => {
+    if (raw === undefined || raw === null) return {};
+    if (typeof raw !== 'object' || Array.isArray(raw)) {
+        issues.push('Specs were not an object and were ignored');
+        return {};
+    }
+    const specs: Record<string, any> = {};
+    Object.entries(raw).forEach(([key, value]) => {
+        if (key === 'selectedOptions' || key === 'dynamicSelections') {
+            if (value && typeof value === 'object') specs[key] = value;
+        } else if (typeof value === 'string') specs[key] = value.trim();
+        else if (typeof value === 'number' || typeof value === 'boolean') specs[key] = String(value);
+    });
+    return specs as ProjectSpecs;
+};
+
+// --- Entry Point ---
+
+export const parseExtractionResponse = (rawText: string): ParsedExtraction => {
+    const result: ParsedExtraction = { payload: null, issues: [], truncated: false, repaired: false, droppedItems: 0 };
+
+    const text = (rawText || '').trim();
+    const firstBrace = text.indexOf('{');
+    if (firstBrace === -1) {
+        result.issues.push('No JSON object found in the response.');
+        return result;
+    }
+
+    const lastBrace = text.lastIndexOf('}');
+    let data = lastBrace > firstBrace ? tryParse(text.substring(firstBrace, lastBrace + 1)) : undefined;
+
+    if (data === undefined) {
+        const cleaned = cleanJsonText(text.substring(firstBrace));
+        const candidate = cleaned.substring(0, cleaned.lastIndexOf('}') + 1);
+        data = candidate ? tryParse(candidate) : undefined;
+
+        if (data === undefined) {
+            data = tryParse(repairTruncatedJson(cleaned));
+            if (data !== undefined) {
+                result.truncated = true;
+                result.issues.push('Response was cut off; items after the break are missing.');
+            }
+        }
+        result.repaired = data !== undefined;
+    }
+
+    if (data === undefined || typeof data !== 'object' || Array.isArray(data)) {
+        result.issues.push('Response JSON could not be parsed.');
+        return result;
+    }
+
+    if (data.items !== undefined && !Array.isArray(data.items)) {
+        result.issues.push('"items" was not a list.');
+        return result;
+    }
+
+    const items: CabinetItem[] = [];
+    (data.items || []).forEach((raw: any, index: number) => {
+        const item = coerceExtractedItem(raw);
+        if (item) {
+            items.push(item);
+        } else {
+            result.droppedItems++;
+            console.warn(`Extraction item #${index + 1} dropped (no code)`, raw);
+        }
+    });
+    if (result.droppedItems > 0) {
+        result.issues.push(`${result.droppedItems} item(s) without a cabinet code were dropped.`);
+    }
+
+    result.payload = {
+        scratchpad: typeof data.scratchpad === 'string' ? data.scratchpad : '',
+        specs: coerceSpecs(data.specs, result.issues),
+        items
+    };
+    return result;
+};
+
+// A response is worth re-asking for when it is unusable, cut off, or mostly junk.
+export const needsReask = (parsed: ParsedExtraction): string | null => {
+    if (!parsed.payload) return parsed.issues.join(' ') || 'The response could not be parsed.';
+    if (parsed.truncated) return 'The response was truncated before the JSON object was closed.';
+    const total = parsed.payload.items.length + parsed.droppedItems;
+    if (total > 0 && parsed.droppedItems / total > 0.5) return 'Most items were missing "originalCode".';
+    return null;
+};
@@ -0,0 +1,114 @@
+import { CabinetItem, CabinetType, FreightTable, FreightZone, Manufacturer, Project, ProjectFinancials } from "../types";
+import { Cents, fromCents, multiplyCents, percentOfCents, toCents } from "./money";
+import { computeQuoteTotals } from "./quoteTotals";
+
+// --- Freight ---
+// Shipping and fuel estimated from the boxes on the order: cubic volume from each line's
+// dimensions (type defaults when the drawing has none), weight from volume, and the
+// manufacturer's freight table. Typing shipping or fuel by hand switches the estimate off.
+
+// Height x depth in inches when a line has none; width falls back to the SKU digits
+const DEFAULT_DIMENSIONS: Partial<Record<CabinetType, { height: number; depth: number }>> = {
+    Base: { height: 34.5, depth: 24 },
+    Wall: { height: 30, depth: 12 },
+    Tall: { height: 84, depth: 24 },
+    Vanity: { height: 34.5, depth: 21 },
+    Panel: { height: 34.5, depth: 1 },
+    Filler: { height: 30, depth: 1 },
+    Accessory: { height: 6, depth: 12 }
+};
+
+const DEFAULT_WIDTH = 18;
+const DEFAULT_POUNDS_PER_CUBIC_FOOT = 9;
+
+// Only types in DEFAULT_DIMENSIONS ship as their own box
+export const shipsAsBox = (item: CabinetItem): boolean => !!DEFAULT_DIMENSIONS[item.type];
+
+// Drawing width, else the SKU's width digits (B15 -> 15)
+export const nominalWidth = (item: CabinetItem): number => {
+    if (item.width > 0) return item.width;
+    const skuWidth = item.originalCode.toUpperCase().match(/^[A-Z]+(\d{2})/);
+    return skuWidth ? parseInt(skuWidth[1], 10) : DEFAULT_WIDTH;
+};
+
+const boxDimensions = (item: CabinetItem) => {
+    const defaults = DEFAULT_DIMENSIONS[item.type]!;
+    return {
+        width: nominalWidth(item),
+        height: item.height > 0 ? item.height : defaults.height,
+        depth: item.depth > 0 ? item.depth : defaults.depth
+    };
+};
+
+export const lineCubicFeet = (item: CabinetItem): number => {
+    if (!shipsAsBox(item)) return 0;
+    const { width, height, depth } = boxDimensions(item);
+    return (width * height * depth / 1728) * (item.quantity || 0);
+};
+
+export const findFreightZone = (zones: FreightZone[] = [], zip?: string): FreightZone | undefined => {
+    const code = (zip || '').trim();
+    if (!code) return undefined;
+    return zones
+        .filter(z => z.zipPrefix && code.startsWith(z.zipPrefix.trim()))
+        .sort((a, b) => b.zipPrefix.trim().length - a.zipPrefix.trim().length)[0];
+};
+
+export interface FreightEstimate {
+    boxes: number;
+    cubicFeet: number;
+    weightLbs: number;
+    baseFreight: Cents; // Before the free-freight threshold and zone
+    waived: boolean; // Order is over the free-freight threshold
+    zone?: FreightZone;
+    zoneSurcharge: Cents;
+    shipping: Cents;
+    fuel: Cents;
+}
+
+export const estimateFreight = (items: CabinetItem[], table: FreightTable, zip?: string, productsNet: Cents = 0): FreightEstimate => {
+    const boxes = items.filter(shipsAsBox).reduce((sum, i) => sum + (i.quantity || 0), 0);
+    const cubicFeet = items.reduce((sum, i) => sum + lineCubicFeet(i), 0);
+    const weightLbs = cubicFeet * (table.poundsPerCubicFoot || DEFAULT_POUNDS_PER_CUBIC_FOOT);
+
+    const rate = toCents(table.rate);
+    let baseFreight: Cents = 0;
+    if (boxes > 0) {
+        if (table.method === 'flat') baseFreight = rate;
+        else if (table.method === 'per-cube') baseFreight = multiplyCents(rate, cubicFeet);
+        else baseFreight = multiplyCents(rate, boxes);
+        baseFreight = Math.max(baseFreight, toCents(table.minimumCharge));
+    }
+
+    const waived = !!table.freeOverAmount && productsNet >= toCents(table.freeOverAmount);
+    const zone = boxes > 0 ? findFreightZone(table.zones, zip) : undefined;
+    const zoneSurcharge = toCents(zone?.surcharge);
+    const shipping = (waived ? 0 : baseFreight) + zoneSurcharge;
+
+    return {
+        boxes,
+        cubicFeet,
+        weightLbs,
+        baseFreight,
+        waived,
+        zone,
+        zoneSurcharge,
+        shipping,
+        fuel: percentOfCents(shipping, table.fuelSurchargePct || 0)
+    };
+};
+
+export const estimateProjectFreight = (project: Project, manufacturer: Manufacturer, financials?: ProjectFinancials): FreightEstimate | undefined => {
+    if (!manufacturer.freight) return undefined;
+    // The threshold is checked on products only, so shipping and fuel don't count toward it
+    const productsNet = computeQuoteTotals(project.pricing, { ...financials, shippingCost: 0, fuelSurcharge: 0 }).netProducts;
+    return estimateFreight(project.items, manufacturer.freight, project.deliveryDetails?.zip, productsNet);
+};
+
+// Fills shipping and fuel from the estimate unless they were entered by hand
+export const applyFreightEstimate = (project: Project, manufacturer: Manufacturer | undefined, financials: ProjectFinancials): ProjectFinancials => {
+    if (!manufacturer || financials.freightManual) return financials;
+    const estimate = estimateProjectFreight(project, manufacturer, financials);
+    if (!estimate) return financials;
+    return { ...financials, shippingCost: fromCents(estimate.shipping), fuelSurcharge: fromCents(estimate.fuel) };
+};
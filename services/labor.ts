@@ -0,0 +1,95 @@
+import { CabinetType, LaborLine, LaborRateCard, LaborSpecialRate, PricingLineItem, ProjectFinancials } from "../types";
+import { fromCents, multiplyCents, sumCents, toCents } from "./money";
+import { getQuotedLines } from "./quoteTotals";
+import { nominalWidth } from "./freight";
+
+// --- Installation Labor ---
+// Install lines priced from the quoted lines with a dealer's rate card: each cabinet box at the
+// per-box rate plus its width at the per-linear-foot rate, and lines matching a special item
+// (crown, light rail, panels) at that item's rate instead. Services are picked per quote.
+// The lines live on the financials, so totals, revisions and scenarios carry them like shipping.
+
+const BOX_TYPES: CabinetType[] = ['Base', 'Wall', 'Tall', 'Vanity'];
+
+const STICK_LENGTH_INCHES = 96; // Moldings without a width count as one 8' stick
+
+const lineCode = (line: PricingLineItem) => (line.normalizedCode || line.originalCode || '').toUpperCase();
+
+export const findSpecialRate = (line: PricingLineItem, card: LaborRateCard): LaborSpecialRate | undefined => {
+    const code = lineCode(line);
+    return card.specialItems.find(s =>
+        (s.types || []).includes(line.type)
+        || s.codePrefixes.some(prefix => prefix.trim() && code.startsWith(prefix.trim().toUpperCase())));
+};
+
+// Cards for this dealer first, then the ones every dealer can use
+export const findLaborRateCards = (cards: LaborRateCard[], dealerName?: string): LaborRateCard[] => {
+    const dealer = (dealerName || '').trim().toLowerCase();
+    return [
+        ...cards.filter(c => c.dealerName && c.dealerName.trim().toLowerCase() === dealer),
+        ...cards.filter(c => !c.dealerName)
+    ];
+};
+
+const roundQuantity = (quantity: number) => Math.round(quantity * 100) / 100;
+
+const laborLine = (key: string, label: string, quantity: number, unit: LaborLine['unit'], rate: number): LaborLine => ({
+    key,
+    label,
+    quantity: roundQuantity(quantity),
+    unit,
+    rate,
+    total: fromCents(multiplyCents(toCents(rate), quantity))
+});
+
+export const buildLaborLines = (pricing: PricingLineItem[], card: LaborRateCard, serviceIds: string[] = []): LaborLine[] => {
+    let boxes = 0;
+    let inches = 0;
+    const specials = new Map<string, number>(); // Special item id -> quantity in its unit
+
+    getQuotedLines(pricing).forEach(line => {
+        const qty = line.quantity || 0;
+        const special = findSpecialRate(line, card);
+        if (special) {
+            const amount = special.unit === 'linear-foot' ? ((line.width > 0 ? line.width : STICK_LENGTH_INCHES) * qty) / 12 : qty;
+            specials.set(special.id, (specials.get(special.id) || 0) + amount);
+        } else if (BOX_TYPES.includes(line.type)) {
+            boxes += qty;
+            inches += nominalWidth(line) * qty;
+        }
+    });
+
+    const lines: LaborLine[] = [];
+    if (boxes > 0 && card.perBox > 0) lines.push(laborLine('boxes', 'Cabinet installation', boxes, 'box', card.perBox));
+    if (inches > 0 && card.perLinearFoot > 0) lines.push(laborLine('linear-feet', 'Cabinet runs', inches / 12, 'lin ft', card.perLinearFoot));
+    card.specialItems.forEach(s => {
+        const quantity = specials.get(s.id);
+        if (quantity) lines.push(laborLine(`special:${s.id}`, s.label, quantity, s.unit === 'linear-foot' ? 'lin ft' : 'each', s.rate));
+    });
+
+    // The minimum covers installation only; services are added on top
+    const install = sumCents(lines.map(l => toCents(l.total)));
+    const minimum = toCents(card.minimumCharge);
+    if (install > 0 && install < minimum) {
+        lines.push({ key: 'minimum', label: 'Minimum installation charge adjustment', quantity: 1, unit: 'flat', rate: fromCents(minimum - install), total: fromCents(minimum - install) });
+    }
+
+    card.services.filter(s => serviceIds.includes(s.id)).forEach(s => {
+        if (s.unit === 'per-box') {
+            if (boxes > 0) lines.push(laborLine(`service:${s.id}`, s.label, boxes, 'box', s.rate));
+        } else {
+            lines.push(laborLine(`service:${s.id}`, s.label, 1, 'flat', s.rate));
+        }
+    });
+
+    return lines;
+};
+
+// Rebuilds the labor lines after a repricing. A deleted card leaves the last lines in place.
+export const applyLabor = (pricing: PricingLineItem[], cards: LaborRateCard[], financials: ProjectFinancials): ProjectFinancials => {
+    const labor = financials.labor;
+    if (!labor) return financials;
+    const card = cards.find(c => c.id === labor.rateCardId);
+    if (!card) return financials;
+    return { ...financials, labor: { ...labor, lines: buildLaborLines(pricing, card, labor.serviceIds) } };
+};
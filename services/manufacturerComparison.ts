@@ -0,0 +1,112 @@
+import { CabinetItem, Manufacturer, PricingLineItem, PricingTier, ProjectFinancials } from "../types";
+import { calculateProjectPricing } from "./pricingEngine";
+import { computeQuoteTotals, QuoteTotals } from "./quoteTotals";
+import { getLineMatchStatus, LineMatchStatus } from "./unmatchedSkus";
+import { toCents } from "./money";
+
+// --- Manufacturer Comparison ---
+// Prices one item list against several manufacturer/tier pairs. Specs are left at defaults
+// (option names differ per manufacturer), and each manufacturer's own multiplier replaces the
+// project's pricing factor, which was tuned for the connected line. The project margin applies.
+
+export interface ComparisonTarget {
+    manufacturerId: string;
+    tierId: string;
+}
+
+export interface ComparisonColumn {
+    key: string; // manufacturerId:tierId
+    manufacturer: Manufacturer;
+    tier: PricingTier;
+    pricing: PricingLineItem[];
+    totals: QuoteTotals;
+    roomSubtotals: Record<string, number>; // Cents
+    unmatchedCount: number;
+    fallbackCount: number;
+}
+
+export interface ComparisonCell {
+    totalPrice: number; // Dollars, as on the line
+    status: LineMatchStatus;
+    matchedSku?: string;
+}
+
+export interface ComparisonRow {
+    item: CabinetItem;
+    cells: Record<string, ComparisonCell | undefined>; // By column key
+    cheapestKey?: string; // Lowest-priced column among exact (non-fallback) matches
+}
+
+export interface ComparisonMatrix {
+    columns: ComparisonColumn[];
+    rows: ComparisonRow[];
+    rooms: string[];
+    cheapestColumnKey?: string; // Lowest grand total among columns with nothing unmatched
+}
+
+export const comparisonKey = (target: ComparisonTarget) => `${target.manufacturerId}:${target.tierId}`;
+
+const comparisonFinancials = (financials?: ProjectFinancials): ProjectFinancials | undefined =>
+    financials ? { ...financials, pricingFactor: 0, roomFactors: undefined } : undefined;
+
+// Catalogs must already be loaded on the manufacturers
+export const buildComparisonMatrix = (
+    items: CabinetItem[],
+    targets: ComparisonTarget[],
+    manufacturers: Manufacturer[],
+    financials?: ProjectFinancials
+): ComparisonMatrix => {
+    const rooms: string[] = [];
+    const columns: ComparisonColumn[] = [];
+
+    targets.forEach(target => {
+        const manufacturer = manufacturers.find(m => m.id === target.manufacturerId);
+        const tier = manufacturer?.tiers.find(t => t.id === target.tierId);
+        if (!manufacturer || !tier) return;
+
+        const specs = { manufacturer: manufacturer.name, priceGroup: tier.name };
+        const pricing = calculateProjectPricing(items, manufacturer, tier.id, specs, comparisonFinancials(financials));
+        const totals = computeQuoteTotals(pricing, financials);
+        const roomSubtotals: Record<string, number> = {};
+        totals.byRoom.forEach(room => {
+            if (!rooms.includes(room.name)) rooms.push(room.name);
+            roomSubtotals[room.name] = room.subtotal;
+        });
+        const statuses = pricing.map(getLineMatchStatus);
+
+        columns.push({
+            key: comparisonKey(target),
+            manufacturer,
+            tier,
+            pricing,
+            totals,
+            roomSubtotals,
+            unmatchedCount: statuses.filter(s => s === 'unmatched').length,
+            fallbackCount: statuses.filter(s => s === 'fallback').length
+        });
+    });
+
+    const linesById = columns.map(col => new Map(col.pricing.map(line => [line.id, line])));
+    const rows: ComparisonRow[] = items.map(item => {
+        const cells: Record<string, ComparisonCell | undefined> = {};
+        let cheapestKey: string | undefined;
+        let cheapest = Infinity;
+        columns.forEach((col, i) => {
+            const line = linesById[i].get(item.id);
+            if (!line) return;
+            const status = getLineMatchStatus(line);
+            cells[col.key] = { totalPrice: line.totalPrice, status, matchedSku: line.matchTrace?.matchedSku };
+            const cents = toCents(line.totalPrice);
+            if (status === 'ok' && cents > 0 && cents < cheapest) {
+                cheapest = cents;
+                cheapestKey = col.key;
+            }
+        });
+        return { item, cells, cheapestKey };
+    });
+
+    const complete = columns.filter(c => c.unmatchedCount === 0 && c.totals.lineCount > 0);
+    const cheapestColumn = complete.reduce<ComparisonColumn | undefined>((best, c) => !best || c.totals.grandTotal < best.totals.grandTotal ? c : best, undefined);
+
+    return { columns, rows, rooms, cheapestColumnKey: cheapestColumn?.key };
+};
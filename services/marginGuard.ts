@@ -0,0 +1,91 @@
+import { Manufacturer, MarginFloor, PricingLineItem, Project } from "../types";
+import { getQuotedLines, lineCostCents, lineTotalCents, productMargin } from "./quoteTotals";
+import { sumCents } from "./money";
+
+// --- Margin Guard ---
+// Floors on gross margin after the dealer discount, checked per pricing tier on the quote.
+// A quote under its floor (or with lines priced at or below zero by a bad factor) can't be
+// issued as a PDF until an admin approves it.
+
+export interface MarginIssue {
+    key: string; // Identifies the issue for approvals, e.g. "floor:Std" or "zeroed:<line ids>"
+    tierName?: string; // Unset for zero-priced lines
+    marginPct?: number;
+    floorPct?: number;
+    message: string;
+}
+
+export interface MarginCheck {
+    issues: MarginIssue[];
+    lowestMarginPct?: number; // Among the tiers on the quote
+    floorPct?: number; // Floor of the tier with the lowest margin
+}
+
+// Higher = more specific
+const specificity = (floor: MarginFloor) =>
+    (floor.tierName ? 4 : 0) + (floor.manufacturerId ? 2 : 0) + (floor.dealerName ? 1 : 0);
+
+const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const findMarginFloor = (floors: MarginFloor[], manufacturer: Manufacturer, tierName: string): MarginFloor | undefined =>
+    floors
+        .filter(f => (!f.dealerName || same(f.dealerName, manufacturer.dealerName || ''))
+            && (!f.manufacturerId || f.manufacturerId === manufacturer.id)
+            && (!f.tierName || same(f.tierName, tierName)))
+        .sort((a, b) => specificity(b) - specificity(a) || b.minMargin - a.minMargin)[0];
+
+// Gross margin % of a set of lines, or undefined when nothing is left to sell after the discount
+export const netMarginPct = (lines: PricingLineItem[], discountRate: number = 0): number | undefined =>
+    productMargin(sumCents(lines.map(lineTotalCents)), sumCents(lines.map(lineCostCents)), discountRate).marginPct;
+
+export const checkMargins = (project: Project, manufacturer: Manufacturer, floors: MarginFloor[]): MarginCheck => {
+    const issues: MarginIssue[] = [];
+    const pricing = project.pricing || [];
+    const discountRate = project.financials?.discountRate || 0;
+
+    // A zero or negative factor prices catalog items at nothing, and they silently drop off the quote
+    const zeroed = pricing.filter(line => line.basePrice > 0 && (line.unitCost <= 0 || line.totalPrice < 0));
+    if (zeroed.length > 0) {
+        issues.push({
+            key: `zeroed:${zeroed.map(line => line.id).sort().join(',')}`,
+            message: `${zeroed.length} line${zeroed.length === 1 ? ' is' : 's are'} priced at or below zero (check the pricing and room factors)`
+        });
+    }
+
+    const byTier = new Map<string, PricingLineItem[]>();
+    getQuotedLines(pricing).forEach(line => {
+        const tier = line.tierName || 'Standard';
+        if (!byTier.has(tier)) byTier.set(tier, []);
+        byTier.get(tier)!.push(line);
+    });
+
+    let lowest: { marginPct: number; floorPct?: number } | undefined;
+    byTier.forEach((lines, tierName) => {
+        const marginPct = netMarginPct(lines, discountRate);
+        const floor = findMarginFloor(floors, manufacturer, tierName);
+        // Nothing left to sell after the discount is the worst case there is, floor or not
+        if (marginPct === undefined) {
+            issues.push({ key: `net:${tierName}`, tierName, floorPct: floor?.minMargin, message: `${tierName}: nothing is left to sell after the ${discountRate}% discount` });
+            return;
+        }
+        if (!lowest || marginPct < lowest.marginPct) lowest = { marginPct, floorPct: floor?.minMargin };
+        if (floor && marginPct < floor.minMargin) {
+            issues.push({ key: `floor:${tierName}`, tierName, marginPct, floorPct: floor.minMargin, message: `${tierName}: ${marginPct.toFixed(1)}% margin is under the ${floor.minMargin}% floor` });
+        }
+    });
+
+    return { issues, lowestMarginPct: lowest?.marginPct, floorPct: lowest?.floorPct };
+};
+
+// An approval only covers the issues it was given for, and stops covering the quote once
+// the margin drops below what was approved
+export const isMarginApprovalValid = (project: Project, check: MarginCheck): boolean => {
+    const approval = project.marginApproval;
+    if (!approval?.issueKeys) return false;
+    if (check.issues.some(issue => !approval.issueKeys!.includes(issue.key))) return false;
+    if (check.lowestMarginPct === undefined) return true;
+    return check.lowestMarginPct >= approval.marginPct;
+};
+
+export const needsMarginApproval = (project: Project, check: MarginCheck): boolean =>
+    check.issues.length > 0 && !isMarginApprovalValid(project, check);
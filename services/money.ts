@@ -0,0 +1,57 @@
+// --- Money ---
+// All quote arithmetic happens in integer cents. Dollar amounts only exist at the edges:
+// catalog/workbook input, the dollar fields persisted on PricingLineItem (always a whole number
+// of cents) and display. Every step rounds exactly once, at the point listed below, so the
+// Pricing screen, the PDF and revisions always agree to the penny.
+//
+// Rounding policy (half away from zero, to the cent):
+//   1. Catalog / extracted / manual prices    -> rounded when read (toCents)
+//   2. Option add-ons, per unit               -> each rounded (fixed, per-line share, percentage)
+//   3. Unit cost  = list x factor             -> rounded
+//   4. Unit sell  = cost / (1 - margin)       -> rounded
+//   5. Line total = unit sell x quantity      -> exact (rounded only for fractional quantities),
+//                   plus once-per-line options priced as a whole (never split per unit)
+//   6. Subtotal / room / category totals      -> exact sums of line totals
+//   7. Discount   = subtotal x rate           -> rounded once on the subtotal
+//   8. Tax        = taxable base x rate       -> rounded once on the base, not per line
+//   9. Grand total                             -> exact sum
+
+export type Cents = number; // Integer number of cents
+
+// Half away from zero. toPrecision strips binary noise first (1.005 * 100 = 100.49999...).
+const roundHalfAway = (value: number): number => {
+    const clean = parseFloat(value.toPrecision(12));
+    return Math.sign(clean) * Math.round(Math.abs(clean));
+};
+
+export const toCents = (dollars: number | undefined | null): Cents => {
+    if (!dollars || !isFinite(dollars)) return 0;
+    return roundHalfAway(dollars * 100);
+};
+
+export const fromCents = (cents: Cents): number => cents / 100;
+
+// Price x factor (pricing factor, quantity, 1 / (1 - margin) ...)
+export const multiplyCents = (cents: Cents, factor: number): Cents =>
+    isFinite(factor) ? roundHalfAway(cents * factor) : 0;
+
+// `rate` is a percentage (7.5 = 7.5%)
+export const percentOfCents = (cents: Cents, rate: number): Cents => multiplyCents(cents, (rate || 0) / 100);
+
+export const sumCents = (values: Cents[]): Cents => values.reduce((acc, v) => acc + v, 0);
+
+// Dollar amount snapped to whole cents, for the dollar fields stored on lines
+export const roundMoney = (dollars: number): number => fromCents(toCents(dollars));
+
+// Unit price x quantity with the unit price rounded first, so total = shown unit x qty
+export const extendPrice = (unitDollars: number, quantity: number): number =>
+    fromCents(multiplyCents(toCents(unitDollars), quantity));
+
+export const formatCents = (cents: Cents, options: { decimals?: boolean } = {}): string => {
+    const decimals = options.decimals !== false;
+    const abs = fromCents(Math.abs(cents)).toLocaleString('en-US', {
+        minimumFractionDigits: decimals ? 2 : 0,
+        maximumFractionDigits: decimals ? 2 : 0
+    });
+    return `${cents < 0 ? '-' : ''}$${abs}`;
+};
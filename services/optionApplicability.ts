@@ -0,0 +1,93 @@
+import { CabinetItem, CabinetType, ManufacturerOption, OptionApplicability, OptionChargeBasis } from "../types";
+
+// --- Option Applicability ---
+// Which lines an option is charged on is an explicit rule on the option (types, SKU patterns,
+// width range). Options imported before rules existed fall back to the old name/section
+// defaults until someone edits them in Admin, so existing catalogs price the same as before.
+
+export const ALL_CABINET_TYPES: CabinetType[] = ['Base', 'Wall', 'Tall', 'Vanity', 'Panel', 'Filler', 'Accessory', 'Modification', 'Appliance', 'Hardware', 'Finishing'];
+
+// Hardware, appliances and finishing only get an option when a rule names them
+const NON_CABINET_TYPES: CabinetType[] = ['Appliance', 'Hardware', 'Finishing'];
+export const DEFAULT_OPTION_TYPES: CabinetType[] = ALL_CABINET_TYPES.filter(t => !NON_CABINET_TYPES.includes(t));
+
+export const CHARGE_BASIS_LABELS: Record<OptionChargeBasis, string> = {
+    'per-unit': 'Per cabinet',
+    'per-line': 'Once per line',
+    'per-order': 'Once per order'
+};
+
+const SECTION_DEFAULTS: Partial<Record<ManufacturerOption['section'], OptionApplicability>> = {
+    'E-Drawer': { cabinetTypes: ['Base', 'Vanity'] },
+    'F-Hinge': { cabinetTypes: DEFAULT_OPTION_TYPES.filter(t => t !== 'Filler' && t !== 'Panel') }
+};
+
+// "Wall Door Upgrade" -> wall cabinets, "Base Drawer Box" -> base cabinets, as options were always priced
+const nameDefault = (opt: ManufacturerOption): OptionApplicability | undefined => {
+    const name = opt.name.toLowerCase();
+    const types: CabinetType[] = [];
+    if (name.includes('wall')) types.push('Wall', 'Tall');
+    if (name.includes('base')) types.push('Base', 'Vanity');
+    return types.length > 0 ? { cabinetTypes: types } : undefined;
+};
+
+export const getOptionApplicability = (opt: ManufacturerOption): OptionApplicability =>
+    opt.appliesTo || nameDefault(opt) || SECTION_DEFAULTS[opt.section] || { cabinetTypes: DEFAULT_OPTION_TYPES };
+
+export const getChargeBasis = (opt: ManufacturerOption): OptionChargeBasis =>
+    opt.pricingType === 'fixed' ? (opt.chargeBasis || 'per-unit') : 'per-unit';
+
+const patternCache = new Map<string, RegExp>();
+
+// "SB*-L" -> /^SB.*-L/i. Patterns are prefixes, so "W" covers W3036 and WDC2436.
+const patternToRegex = (pattern: string): RegExp => {
+    if (!patternCache.has(pattern)) {
+        const body = pattern.trim().toUpperCase().split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+        patternCache.set(pattern, new RegExp(`^${body}`, 'i'));
+    }
+    return patternCache.get(pattern)!;
+};
+
+// Width from the line, or the two digits after the SKU prefix (B15 -> 15) when the drawing had none
+const lineWidth = (item: CabinetItem, sku: string): number | undefined => {
+    if (item.width > 0) return item.width;
+    const m = sku.toUpperCase().match(/^[A-Z]+(\d{2})/);
+    return m ? parseInt(m[1], 10) : undefined;
+};
+
+export const optionAppliesTo = (opt: ManufacturerOption, item: CabinetItem, sku: string = item.originalCode): boolean => {
+    const rules = getOptionApplicability(opt);
+
+    const types = rules.cabinetTypes && rules.cabinetTypes.length > 0 ? rules.cabinetTypes : DEFAULT_OPTION_TYPES;
+    if (!types.includes(item.type)) return false;
+
+    const patterns = (rules.skuPatterns || []).map(p => p.trim()).filter(Boolean);
+    if (patterns.length > 0) {
+        const code = sku.trim().toUpperCase();
+        const excludes = patterns.filter(p => p.startsWith('!')).map(p => p.slice(1));
+        const includes = patterns.filter(p => !p.startsWith('!'));
+        if (excludes.some(p => patternToRegex(p).test(code))) return false;
+        if (includes.length > 0 && !includes.some(p => patternToRegex(p).test(code))) return false;
+    }
+
+    if (rules.minWidth !== undefined || rules.maxWidth !== undefined) {
+        const width = lineWidth(item, sku);
+        if (width === undefined) return false;
+        if (rules.minWidth !== undefined && width < rules.minWidth) return false;
+        if (rules.maxWidth !== undefined && width > rules.maxWidth) return false;
+    }
+
+    return true;
+};
+
+// One-line summary for Admin lists, e.g. "Base, Vanity · SKU W*, !WF · 12-36" · once per line"
+export const describeApplicability = (opt: ManufacturerOption): string => {
+    const rules = getOptionApplicability(opt);
+    const parts: string[] = [];
+    parts.push(rules.cabinetTypes && rules.cabinetTypes.length > 0 ? rules.cabinetTypes.join(', ') : 'All cabinet types');
+    if (rules.skuPatterns && rules.skuPatterns.length > 0) parts.push(`SKU ${rules.skuPatterns.join(', ')}`);
+    if (rules.minWidth !== undefined || rules.maxWidth !== undefined) parts.push(`${rules.minWidth ?? 0}-${rules.maxWidth ?? '∞'}"`);
+    if (opt.pricingType === 'fixed') parts.push(CHARGE_BASIS_LABELS[getChargeBasis(opt)].toLowerCase());
+    if (!opt.appliesTo) parts.push('(default)');
+    return parts.join(' · ');
+};
@@ -0,0 +1,170 @@
+import { Manufacturer, ManufacturerOption, OptionConstraints, ProjectSpecs } from "../types";
+
+// --- Option Constraints ---
+// Which options can be combined: requires / excludes other options, and only-with wood species
+// or door styles. `availability` from the workbook ("No", "Maple, Cherry") is read as a species
+// constraint until an explicit one is set in Admin, using only the entries that name a known
+// species ("Optional", "$50" and the like are ignored). Specs uses this to flag choices; the
+// pricing engine refuses to price an invalid combination.
+
+export type ConstraintKind = 'requires' | 'excludes' | 'species' | 'doorStyle' | 'unavailable';
+
+export interface ConstraintViolation {
+    optionName: string;
+    kind: ConstraintKind;
+    otherName?: string; // The option, species or door style it clashes with
+    room?: string; // Set when only a room override is affected
+    message: string;
+}
+
+export class OptionConstraintError extends Error {
+    violations: ConstraintViolation[];
+
+    constructor(violations: ConstraintViolation[]) {
+        super(`Invalid option combination: ${violations.map(v => v.message).join('; ')}`);
+        this.name = 'OptionConstraintError';
+        this.violations = violations;
+    }
+}
+
+const same = (a: string = '', b: string = '') => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// "Hard Maple" is offered for "Maple"
+const matchesAny = (value: string, allowed: string[]) =>
+    allowed.some(a => value.toLowerCase().includes(a.trim().toLowerCase()));
+
+const splitList = (text: string): string[] =>
+    text.split(/\s*(?:,|;|\/|&|\band\b)\s*/i).map(s => s.trim()).filter(Boolean);
+
+export interface ResolvedConstraints extends OptionConstraints {
+    unavailable: boolean;
+}
+
+// Used with the manufacturer's own Wood options to tell species apart from other availability notes
+const COMMON_SPECIES = ['Maple', 'Cherry', 'Oak', 'Hickory', 'Alder', 'Birch', 'Walnut', 'Ash', 'Beech', 'Pine', 'Poplar', 'Paint Grade', 'MDF', 'Thermofoil', 'Laminate'];
+
+export const getKnownSpecies = (manufacturer?: Manufacturer): string[] =>
+    [...COMMON_SPECIES, ...(manufacturer?.options || []).filter(o => o.category === 'Wood').map(o => o.name)];
+
+const isKnownSpecies = (entry: string, known: string[]) => {
+    const value = entry.trim().toLowerCase();
+    return value.length >= 3 && known.some(k => {
+        const name = k.trim().toLowerCase();
+        return !!name && (value.includes(name) || name.includes(value));
+    });
+};
+
+export const getOptionConstraints = (opt: ManufacturerOption, knownSpecies: string[] = COMMON_SPECIES): ResolvedConstraints => {
+    const availability = (opt.availability || '').trim();
+    const unavailable = /^(no|n\/a|not available)$/i.test(availability);
+    const fromAvailability = availability && !unavailable && !/^(yes|y|all|standard)$/i.test(availability)
+        ? splitList(availability).filter(entry => isKnownSpecies(entry, knownSpecies))
+        : [];
+    const explicit = opt.constraints || {};
+    return {
+        ...explicit,
+        onlyWithSpecies: explicit.onlyWithSpecies?.length ? explicit.onlyWithSpecies : fromAvailability,
+        unavailable
+    };
+};
+
+// --- Selection ---
+
+// Options a spec selects: ticked checkboxes plus any option named in a spec field or dropdown
+export const getSelectedOptions = (manufacturer: Manufacturer, s?: ProjectSpecs): ManufacturerOption[] => {
+    const checkboxOptions = manufacturer.options?.filter(opt => !!s?.selectedOptions?.[opt.id]) || [];
+    const potentialOptionNames = [
+        s?.drawerBox, s?.hingeType, s?.woodSpecies, s?.finishColor, s?.glaze,
+        s?.finishOption1, s?.finishOption2, s?.printedEndOption,
+        s?.wallDoorOption, s?.baseDoorOption,
+        ...Object.values(s?.dynamicSelections || {})
+    ].filter(val => val && val !== 'None' && val !== 'Standard' && val !== 'No');
+
+    const dropdownOptions = manufacturer.options?.filter(opt =>
+        potentialOptionNames.some(name => name && name.toLowerCase() === opt.name.toLowerCase())
+    ) || [];
+
+    return [...checkboxOptions, ...dropdownOptions.filter(d => !checkboxOptions.find(c => c.id === d.id))];
+};
+
+interface SelectionContext {
+    selected: ManufacturerOption[];
+    knownSpecies: string[];
+    species?: string;
+    doorStyles: string[];
+}
+
+const contextFor = (manufacturer: Manufacturer, specs?: ProjectSpecs): SelectionContext => ({
+    selected: getSelectedOptions(manufacturer, specs),
+    knownSpecies: getKnownSpecies(manufacturer),
+    species: specs?.woodSpecies || specs?.dynamicSelections?.['Wood'] || undefined,
+    doorStyles: Array.from(new Set([specs?.wallDoorStyle, specs?.baseDoorStyle, specs?.dynamicSelections?.['DoorStyle']].filter(Boolean) as string[]))
+});
+
+const checkSelection = (ctx: SelectionContext): ConstraintViolation[] => {
+    const violations: ConstraintViolation[] = [];
+    const names = ctx.selected.map(o => o.name);
+    const isSelected = (name: string) => names.some(n => same(n, name));
+
+    ctx.selected.forEach(opt => {
+        const c = getOptionConstraints(opt, ctx.knownSpecies);
+        if (c.unavailable) {
+            violations.push({ optionName: opt.name, kind: 'unavailable', message: `${opt.name} is marked as not available` });
+        }
+        (c.requires || []).filter(req => !isSelected(req)).forEach(req => {
+            violations.push({ optionName: opt.name, kind: 'requires', otherName: req, message: `${opt.name} requires ${req}` });
+        });
+        (c.excludes || []).filter(isSelected).forEach(ex => {
+            violations.push({ optionName: opt.name, kind: 'excludes', otherName: ex, message: `${opt.name} can't be combined with ${ex}` });
+        });
+        // Unknown species / door style can't be checked, so only a chosen one is flagged
+        if (c.onlyWithSpecies?.length && ctx.species && !matchesAny(ctx.species, c.onlyWithSpecies)) {
+            violations.push({ optionName: opt.name, kind: 'species', otherName: ctx.species, message: `${opt.name} is only offered for ${c.onlyWithSpecies.join(', ')} (not ${ctx.species})` });
+        }
+        if (c.onlyWithDoorStyles?.length) {
+            ctx.doorStyles.filter(style => !matchesAny(style, c.onlyWithDoorStyles!)).forEach(style => {
+                violations.push({ optionName: opt.name, kind: 'doorStyle', otherName: style, message: `${opt.name} is only offered with ${c.onlyWithDoorStyles!.join(', ')} doors (not ${style})` });
+            });
+        }
+    });
+
+    // Same-named options from different collections report the same problem once
+    const seen = new Set<string>();
+    return violations.filter(v => {
+        const key = v.message.toLowerCase();
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+};
+
+// Project-level specs plus every room override (only rooms in `rooms`, when given)
+export const findConstraintViolations = (
+    manufacturer: Manufacturer,
+    specs?: ProjectSpecs,
+    roomSpecs?: Record<string, ProjectSpecs>,
+    rooms?: string[]
+): ConstraintViolation[] => {
+    const global = checkSelection(contextFor(manufacturer, specs));
+    const globalMessages = new Set(global.map(v => v.message));
+    const roomViolations = Object.entries(roomSpecs || {})
+        .filter(([room]) => !rooms || rooms.includes(room))
+        .flatMap(([room, roomSpec]) => checkSelection(contextFor(manufacturer, { ...specs, ...roomSpec }))
+            .filter(v => !globalMessages.has(v.message))
+            .map(v => ({ ...v, room, message: `${room}: ${v.message}` })));
+    return [...global, ...roomViolations];
+};
+
+// What would break if `opt` were picked in its dropdown (replacing the current pick in that category)
+export const getOptionConflicts = (opt: ManufacturerOption, manufacturer: Manufacturer, specs?: ProjectSpecs): ConstraintViolation[] => {
+    const ctx = contextFor(manufacturer, specs);
+    const hypothetical: SelectionContext = {
+        ...ctx,
+        selected: [...ctx.selected.filter(o => o.category !== opt.category), opt],
+        species: opt.category === 'Wood' ? opt.name : ctx.species,
+        doorStyles: opt.category === 'DoorStyle' ? [opt.name] : ctx.doorStyles
+    };
+    return checkSelection(hypothetical).filter(v =>
+        same(v.optionName, opt.name) || same(v.otherName, opt.name)
+    );
+};
@@ -24,14 +24,27 @@ export interface PDFPageImage {
     mimeType: string;
 }
 
-export async function extractTextFromPdf(file: File): Promise<string> {
+export interface PDFPageText {
+    pageNumber: number;
+    text: string;
+}
+
+export async function getPdfPageCount(file: File): Promise<number> {
+    const pdfjsLib = await getPdfJs();
+    const arrayBuffer = await file.arrayBuffer();
+    const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+    return pdf.numPages;
+}
+
+// Text layer per page (in page order). Used for page-batched extraction.
+export async function extractPdfPageTexts(file: File): Promise<PDFPageText[]> {
     const pdfjsLib = await getPdfJs();
     try {
         const arrayBuffer = await file.arrayBuffer();
         const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
         const pdf = await loadingTask.promise;
         const numPages = pdf.numPages;
-        const textPages: string[] = [];
+        const textPages: PDFPageText[] = [];
 
         // Process in chunks to avoid UI freezing
         // Text extraction is fast, so larger chunks (25) are safe and reduce overhead
@@ -44,8 +57,7 @@ export async function extractTextFromPdf(file: File): Promise<string> {
                 chunkPromises.push(pdf.getPage(j).then(async (page) => {
                     const textContent = await page.getTextContent();
                     const text = textContent.items.map((item: any) => item.str).join('\n');
-                    // Add delimiter for page splitting in AI service
-                    return `--- PAGE ${j} ---\n${text}\n`;
+                    return { pageNumber: j, text };
                 }));
             }
             
@@ -57,13 +69,21 @@ export async function extractTextFromPdf(file: File): Promise<string> {
             if (i + CHUNK_SIZE <= numPages) await new Promise(resolve => setTimeout(resolve, 5));
         }
 
-        return textPages.join('\n');
+        return textPages;
     } catch (error) {
         console.error("Error extracting text from PDF:", error);
         throw new Error("Failed to extract text from PDF");
     }
 }
 
+// Add delimiter for page splitting in AI service
+export const formatPageText = (page: PDFPageText): string => `--- PAGE ${page.pageNumber} ---\n${page.text}\n`;
+
+export async function extractTextFromPdf(file: File): Promise<string> {
+    const pages = await extractPdfPageTexts(file);
+    return pages.map(formatPageText).join('\n');
+}
+
 export async function convertPdfToImages(file: File, pagesToRender?: number[]): Promise<PDFPageImage[]> {
     const pdfjsLib = await getPdfJs();
     const arrayBuffer = await file.arrayBuffer();
@@ -151,3 +171,84 @@ export async function convertPdfToImages(file: File, pagesToRender?: number[]):
         throw new Error("Failed to process PDF pages. Please check if the file is valid.");
     }
 }
+
+// --- Source Page Viewer Support ---
+
+// Parsed documents are cached per File so paging through the viewer doesn't re-parse the PDF
+const documentCache = new WeakMap<File, Promise<any>>();
+
+export async function loadPdfDocument(file: File): Promise<any> {
+    let cached = documentCache.get(file);
+    if (!cached) {
+        cached = (async () => {
+            const pdfjsLib = await getPdfJs();
+            const arrayBuffer = await file.arrayBuffer();
+            return pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+        })();
+        documentCache.set(file, cached);
+        cached.catch(() => documentCache.delete(file));
+    }
+    return cached;
+}
+
+// Renders one page into the canvas. Returns the render task so callers can cancel it
+// when the page changes before rendering finishes.
+export async function renderPdfPage(pdf: any, pageNumber: number, canvas: HTMLCanvasElement, scale: number) {
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Canvas context not available");
+
+    canvas.width = viewport.width;
+    canvas.height = viewport.height;
+
+    const task = page.render({ canvasContext: context, viewport } as any);
+    return { task, width: viewport.width, height: viewport.height };
+}
+
+export interface TextHighlight {
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+    text: string;
+}
+
+// Codes are compared without spaces/hyphens so "B15 - L" on the drawing still matches "B15L"
+const compactCode = (value: string) => value.toUpperCase().replace(/[\s\-_.]/g, '');
+
+// Finds text-layer runs containing `query` on a page and returns their boxes in viewport pixels.
+export async function findTextPositions(pdf: any, pageNumber: number, query: string, scale: number): Promise<TextHighlight[]> {
+    const needle = compactCode(query);
+    if (!needle) return [];
+
+    const pdfjsLib = await getPdfJs();
+    const page = await pdf.getPage(pageNumber);
+    const viewport = page.getViewport({ scale });
+    const textContent = await page.getTextContent();
+    const highlights: TextHighlight[] = [];
+
+    textContent.items.forEach((item: any) => {
+        if (!item.str) return;
+        const haystack = compactCode(item.str);
+        const index = haystack.indexOf(needle);
+        if (index === -1) return;
+
+        // Map the text run's PDF-space transform into canvas space
+        const tx = pdfjsLib.Util.transform(viewport.transform, item.transform);
+        const fontHeight = Math.hypot(tx[2], tx[3]);
+        const runWidth = item.width * viewport.scale;
+
+        // Narrow the box to the matched part of the run (approximation: uniform glyph width)
+        const ratio = haystack.length > 0 ? runWidth / haystack.length : 0;
+        highlights.push({
+            left: tx[4] + index * ratio,
+            top: tx[5] - fontHeight,
+            width: Math.max(needle.length * ratio, 6),
+            height: fontHeight,
+            text: item.str
+        });
+    });
+
+    return highlights;
+}
@@ -1,4 +1,9 @@
-import { CabinetItem, Manufacturer, PricingLineItem, ProjectSpecs } from '../types';
+import { CabinetItem, CabinetType, Manufacturer, ManufacturerOption, PricingLineItem, ProjectSpecs, MatchPass, MatchTrace, TierResolution } from '../types';
+import { resolveSkuAlias, SkuAliasSource } from './skuAliases';
+import { getChargeBasis, optionAppliesTo } from './optionApplicability';
+import { Cents, fromCents, multiplyCents, roundMoney, toCents } from './money';
+import { findConstraintViolations, getSelectedOptions, OptionConstraintError } from './optionConstraints';
+import { CatalogIndex, findByPrefix, findHeightNeighbor, findLongestPrefix, getCatalogIndex, lookupSku, normalizeLookup } from './catalogIndex';
 
 // --- NEW HELPER: Standardize Code for Lookup ---
 export const normalizeNKBACode = (rawCode: string): string => {
@@ -79,6 +84,35 @@ export const normalizeNKBACode = (rawCode: string): string => {
     return code;
 };
 
+// New: A rule-based type classifier that overrides the AI. This is the source of truth.
+export function getTypeFromCode(code: string): CabinetType | null {
+    const c = code.toUpperCase().trim();
+    if (!c) return null;
+
+    // Vanity is most specific, check first
+    if (c.startsWith('VSB') || c.startsWith('VDB') || c.startsWith('V')) {
+        return 'Vanity';
+    }
+    // Wall cabinets (including corner types)
+    if (c.startsWith('W') || c.startsWith('DC') || c.startsWith('WDC') || c.startsWith('WBC')) {
+        return 'Wall';
+    }
+    // Base cabinets (including all corner and sink types)
+    if (c.startsWith('B') || c.startsWith('SB') || c.startsWith('SKB') || c.startsWith('DB') || c.startsWith('LS') || c.startsWith('BEC') || c.startsWith('BBC') || c.startsWith('K') || c.startsWith('BTK') || c.startsWith('SHB') || c.startsWith('BC') || c.startsWith('EZR') || c.startsWith('DCB')) {
+        return 'Base';
+    }
+    // Tall cabinets
+    if (c.startsWith('T') || c.startsWith('O') || c.startsWith('P')) {
+        return 'Tall';
+    }
+    // Fillers
+    if (c.startsWith('F') || c.startsWith('UF') || c.startsWith('U') || c.startsWith('WF') || c.startsWith('TF')) {
+        return 'Filler';
+    }
+
+    return null; // No rule matched
+}
+
 // Helper to determine if an item is purely metadata/garbage
 const isGarbageItem = (item: CabinetItem): boolean => {
     const text = (item.originalCode + " " + item.description).toUpperCase();
@@ -367,31 +401,25 @@ const generateSmartKeys = (item: CabinetItem): { exact: string[], similar: strin
     return { exact: exactKeys, similar: similarKeys };
 };
 
-// Helper to normalize lookups consistently with Admin ingestion
-const normalizeLookup = (sku: string): string => {
-    return sku.trim()
-        .toUpperCase()
-        .replace(/\u2013|\u2014/g, '-') // Normalize dashes
-        .replace(/\s+/g, ''); // Remove spaces
-}
-
 const findCatalogPrice = (
   rawSku: string, 
-  catalog: Record<string, Record<string, number>>, 
+  index: CatalogIndex, 
   tierId: string,
   strict: boolean = false
-): { price: number; source: string; matchedSku: string } | null => {
+): CatalogPriceMatch | null => {
   const cleanSku = normalizeLookup(rawSku);
   if (!cleanSku || cleanSku === "UNKNOWN") return null;
+  const row = (sku: string) => index.catalog[sku];
 
   // 1. Exact Match
-  if (catalog[cleanSku]) {
-     return getPriceFromItem(catalog[cleanSku], tierId, cleanSku, 'Exact');
+  const exactKey = lookupSku(index, cleanSku);
+  if (exactKey) {
+     return getPriceFromItem(row(exactKey), tierId, exactKey, 'Exact');
   }
   
   // 2. Hyphen Insensitivity (Remove all dashes)
-  const skuNoDash = cleanSku.replace(/-/g, '');
-  if (catalog[skuNoDash]) return getPriceFromItem(catalog[skuNoDash], tierId, cleanSku, 'Hyphen-Insensitive');
+  const noDashKey = lookupSku(index, cleanSku.replace(/-/g, ''));
+  if (noDashKey) return getPriceFromItem(row(noDashKey), tierId, noDashKey, 'Hyphen-Insensitive');
 
   // 3. Hyphen Insertion
   if (/[A-Z]\d+$/.test(cleanSku)) { 
@@ -400,72 +428,99 @@ const findCatalogPrice = (
           const suffix = suffixMatch[1];
           const prefix = cleanSku.substring(0, cleanSku.length - suffix.length);
           if (/[A-Z]$/.test(prefix)) {
-               const withDash = `${prefix}-${suffix}`;
-               if (catalog[withDash]) return getPriceFromItem(catalog[withDash], tierId, cleanSku, 'Inserted-Hyphen');
+               const withDashKey = lookupSku(index, `${prefix}-${suffix}`);
+               if (withDashKey) return getPriceFromItem(row(withDashKey), tierId, withDashKey, 'Inserted-Hyphen');
           }
       }
   }
 
   if (strict) return null;
 
-  // 4. Neighbor Search (Height +/- 2 inches)
-  const wallMatch = cleanSku.match(/^(W\d{2})(\d{2})([A-Z]*)$/);
+  // 4. Neighbor Search (Height +/- 2 inches) via the width/height grid
+  const wallMatch = cleanSku.match(/^W(\d{2})(\d{2})([A-Z]*)$/);
   if (wallMatch) {
-      const [_, prefix, hStr, suffix] = wallMatch;
-      const h = parseInt(hStr);
-      const neighbors = [h+1, h-1, h+2, h-2];
-      for (const nh of neighbors) {
-          const candidate = `${prefix}${nh}${suffix}`;
-          if (catalog[candidate]) return getPriceFromItem(catalog[candidate], tierId, candidate, `Neighbor (Matched ${candidate})`);
-          if (suffix) {
-              const simpleCandidate = `${prefix}${nh}`;
-              if (catalog[simpleCandidate]) return getPriceFromItem(catalog[simpleCandidate], tierId, simpleCandidate, `Neighbor (Matched ${simpleCandidate})`);
-          }
-      }
+      const [_, wStr, hStr, suffix] = wallMatch;
+      const neighbor = findHeightNeighbor(index, 'W', parseInt(wStr), parseInt(hStr), suffix);
+      if (neighbor) return getPriceFromItem(row(neighbor.sku), tierId, neighbor.sku, `Neighbor (Matched ${neighbor.sku})`);
   }
 
-  // 5. Fuzzy Suffix Stripping
-  for (let i = cleanSku.length - 1; i > 2; i--) {
-      const sub = cleanSku.substring(0, i);
-      if (catalog[sub]) {
-          const strippedPart = cleanSku.substring(i);
-          return getPriceFromItem(catalog[sub], tierId, sub, `Similar (Stripped ${strippedPart})`);
-      }
+  // 5. Fuzzy Suffix Stripping (longest catalog SKU the code starts with)
+  const strippedKey = findLongestPrefix(index, cleanSku, 2);
+  if (strippedKey) {
+      const strippedPart = cleanSku.substring(normalizeLookup(strippedKey).length);
+      return getPriceFromItem(row(strippedKey), tierId, strippedKey, `Similar (Stripped ${strippedPart})`);
   }
 
   // 6. Regex Core Extraction
   const heuristic = cleanSku.match(/^([A-Z]{1,4}\d{2,5})/);
   if (heuristic) {
-      const core = heuristic[0];
-      if (catalog[core]) return getPriceFromItem(catalog[core], tierId, core, 'Core Extraction');
+      const coreKey = lookupSku(index, heuristic[0]);
+      if (coreKey) return getPriceFromItem(row(coreKey), tierId, coreKey, 'Core Extraction');
   }
 
   return null;
 };
 
+// Catalog presence check (no pricing). Exact = matched without the fuzzy fallbacks.
+export const findCatalogSku = (
+  item: CabinetItem,
+  catalog: Record<string, Record<string, number>>,
+  aliases?: SkuAliasSource
+): { sku: string; exact: boolean } | null => {
+  const index = getCatalogIndex(catalog);
+  if (index.size === 0) return null;
+  const aliased = resolveSkuAlias(item.originalCode, aliases);
+  if (aliased) {
+      const match = findCatalogPrice(aliased.sku, index, '', true);
+      if (match) return { sku: match.matchedSku, exact: true };
+  }
+  const { exact, similar } = generateSmartKeys(item);
+  for (const key of exact) {
+      const match = findCatalogPrice(key, index, '', true);
+      if (match) return { sku: match.matchedSku, exact: true };
+  }
+  for (const key of similar) {
+      const match = findCatalogPrice(key, index, '', false);
+      if (match) return { sku: match.matchedSku, exact: false };
+  }
+  return null;
+};
+
+interface CatalogPriceMatch {
+  priceCents: Cents; // Catalog price, rounded to the cent when read
+  source: string;
+  matchedSku: string;
+  method: string;
+  tierColumn: string;
+  tierResolution: TierResolution;
+}
+
 // Helper to extract specific tier price from item object
-const getPriceFromItem = (item: Record<string, number>, tierId: string, sku: string, method: string) => {
+const getPriceFromItem = (item: Record<string, number>, tierId: string, sku: string, method: string): CatalogPriceMatch | null => {
+      const hit = (column: string, tierResolution: TierResolution, label: string): CatalogPriceMatch =>
+          ({ priceCents: toCents(item[column]), source: `Catalog (${method} ${label})`, matchedSku: sku, method, tierColumn: column, tierResolution });
+
       // 1. Direct Tier Match
-      if (item[tierId] !== undefined) return { price: item[tierId], source: `Catalog (${method} Tier)`, matchedSku: sku };
+      if (item[tierId] !== undefined) return hit(tierId, 'direct', 'Tier');
       
       // 2. Fuzzy Tier Match (Case insensitive)
       const fuzzyTier = Object.keys(item).find(k => k.toLowerCase().includes(tierId.toLowerCase()) || tierId.toLowerCase().includes(k.toLowerCase()));
-      if (fuzzyTier) return { price: item[fuzzyTier], source: `Catalog (${method} Fuzzy '${fuzzyTier}')`, matchedSku: sku };
+      if (fuzzyTier) return hit(fuzzyTier, 'fuzzy', `Fuzzy '${fuzzyTier}'`);
       
       // 3. Single Column Fallback (Critical for simple price lists)
       // If the item only has ONE price column, use it regardless of the requested tier name.
       // This solves the issue where user selects "Midland" but Excel just has "Price".
       const keys = Object.keys(item);
       if (keys.length === 1) {
-          return { price: item[keys[0]], source: `Catalog (${method} Fallback '${keys[0]}')`, matchedSku: sku };
+          return hit(keys[0], 'single-column', `Fallback '${keys[0]}'`);
       }
 
       // 4. "Price" or "List Price" generic fallback
       const genericKey = keys.find(k => k.toLowerCase().includes('price') || k.toLowerCase().includes('list'));
-      if (genericKey) return { price: item[genericKey], source: `Catalog (${method} Generic '${genericKey}')`, matchedSku: sku };
+      if (genericKey) return hit(genericKey, 'generic', `Generic '${genericKey}'`);
 
       // 5. Last Resort: First Key
-      if (keys.length > 0) return { price: item[keys[0]], source: `Catalog (${method} Blind Fallback '${keys[0]}')`, matchedSku: sku };
+      if (keys.length > 0) return hit(keys[0], 'blind', `Blind Fallback '${keys[0]}'`);
       
       return null;
 }
@@ -481,26 +536,58 @@ export const calculateProjectPricing = (
   const globalTier = manufacturer.tiers.find(t => t.id === tierId) || manufacturer.tiers[0];
   const globalTierName = globalTier ? globalTier.name : (specs?.priceGroup || 'Standard');
   
+  // An invalid option combination must never reach a quote
+  const rooms = Array.from(new Set(items.map(i => i.room).filter(Boolean) as string[]));
+  const violations = findConstraintViolations(manufacturer, specs, roomSpecs, rooms);
+  if (violations.length > 0) throw new OptionConstraintError(violations);
+
   // Pre-calculate Global Options
-  const getOptionsForSpecs = (s?: ProjectSpecs) => {
-      const checkboxOptions = manufacturer.options?.filter(opt => !!s?.selectedOptions?.[opt.id]) || [];
-      const potentialOptionNames = [
-          s?.drawerBox, s?.hingeType, s?.woodSpecies, s?.finishColor, s?.glaze,
-          s?.finishOption1, s?.finishOption2, s?.printedEndOption,
-          s?.wallDoorOption, s?.baseDoorOption,
-          ...Object.values(s?.dynamicSelections || {})
-      ].filter(val => val && val !== 'None' && val !== 'Standard' && val !== 'No'); 
-      
-      const dropdownOptions = manufacturer.options?.filter(opt => 
-          potentialOptionNames.some(name => name && name.toLowerCase() === opt.name.toLowerCase())
-      ) || [];
-      
-      return [...checkboxOptions, ...dropdownOptions.filter(d => !checkboxOptions.find(c => c.id === d.id))];
-  };
+  const globalOptions = getSelectedOptions(manufacturer, specs);
+  const catalogIndex = getCatalogIndex(manufacturer.catalog);
+
+  // List -> cost -> sell for one unit, shared by cabinet lines and per-order option lines
+  // Everything in cents; cost and sell are each rounded once (see services/money.ts)
+  const costAndSell = (listCents: Cents, room: string | undefined, tierName: string) => {
+    // 1. Determine Factor (Room Specific or Global)
+    const globalFactor = financials?.pricingFactor || manufacturer.basePricingMultiplier || 1.0;
+    const roomFactor = (room && financials?.roomFactors?.[room]) 
+                        ? financials.roomFactors[room] 
+                        : globalFactor;
+
+    // 2. Calculate Cost
+    // List Price = (Base + Options) * Tier Multiplier (if tier has built-in factor, usually 1 for raw catalog)
+    // Actually, usually Catalog Price IS List Price.
+    // Cost = List * Factor
+    const unitCost = multiplyCents(listCents, roomFactor);
+
+    // 3. Determine Margin
+    // Check for specific Series/Level margin override
+    // For now, simple global margin or category based
+    let margin = financials?.globalMargin || 0;
+    if (financials?.categoryMargins) {
+         // Try to match by Tier Name or Door Style
+         const tier = tierName || 'Standard';
+         if (financials.categoryMargins[tier]) {
+             margin = financials.categoryMargins[tier];
+         }
+    }
+    
+    // Normalize Margin (e.g. 35 -> 0.35)
+    const marginDecimal = margin > 1 ? margin / 100 : margin;
 
-  const globalOptions = getOptionsForSpecs(specs);
+    // 4. Calculate Sell Price
+    // Sell = Cost / (1 - Margin)
+    let unitSell: Cents = 0;
+    if (marginDecimal >= 1) {
+        unitSell = unitCost; // Prevent division by zero or negative
+    } else {
+        unitSell = multiplyCents(unitCost, 1 / (1 - marginDecimal));
+    }
+    return { unitCost, unitSell, factor: roomFactor, marginDecimal };
+  };
 
   const results: PricingLineItem[] = [];
+  const orderOptions = new Map<string, { opt: ManufacturerOption; room?: string; tierName: string }>();
 
   items.forEach(item => {
     // 0. Garbage Check
@@ -515,7 +602,7 @@ export const calculateProjectPricing = (
     if (item.room && roomSpecs && roomSpecs[item.room]) {
         effectiveSpecs = { ...specs, ...roomSpecs[item.room] }; // Merge global with room (room wins)
         // Recalculate options for this room
-        activeOptions = getOptionsForSpecs(effectiveSpecs);
+        activeOptions = getSelectedOptions(manufacturer, effectiveSpecs);
         
         // Determine Tier for this room (Price Group)
         if (effectiveSpecs.priceGroup) {
@@ -523,52 +610,54 @@ export const calculateProjectPricing = (
         }
     }
 
-    let basePrice = 0;
+    let basePrice: Cents = 0;
     let source = 'Unknown';
-    let optionsPrice = 0;
+    let optionsPrice: Cents = 0;
+    let lineChargeList: Cents = 0; // Once-per-line options, charged on the line rather than per unit
     let matchedSku = item.originalCode;
     const appliedOptionsLog: { name: string; price: number; sourceSection?: string }[] = [];
 
     // 1. MODIFICATIONS
     if (item.modifications && item.modifications.length > 0) {
         item.modifications.forEach(mod => {
-            optionsPrice += (mod.price || 0);
+            optionsPrice += toCents(mod.price);
             appliedOptionsLog.push({ name: mod.description, price: mod.price || 0, sourceSection: 'PDF Extraction' });
         });
     }
 
-    // 2. MANUFACTURER OPTIONS
-    activeOptions.forEach(opt => {
-        let applies = true;
-        if (opt.section === 'E-Drawer' && item.type !== 'Base') applies = false;
-        if (opt.section === 'F-Hinge' && item.type === 'Filler') applies = false;
-        if (opt.section === 'F-Hinge' && item.type === 'Panel') applies = false;
-        if (opt.name.toLowerCase().includes('wall') && item.type !== 'Wall') applies = false;
-        if (opt.name.toLowerCase().includes('base') && item.type !== 'Base') applies = false;
-        if (opt.name.length > 50 && opt.price === 0) applies = false;
+    // 2. BASE PRICE LOOKUP
+    let match: CatalogPriceMatch | null = null;
+    let acceptedPass: MatchPass | undefined;
+    const traceSteps: MatchTrace['steps'] = [];
+    const { exact, similar } = generateSmartKeys(item);
 
-        if (applies) {
-            let addPrice = 0;
-            if (opt.pricingType === 'fixed') addPrice = opt.price;
-            
-            if (addPrice > 0 || (opt.price === 0 && opt.name.length < 50)) {
-                optionsPrice += addPrice;
-                appliedOptionsLog.push({ name: opt.name, price: addPrice, sourceSection: opt.section });
-            }
-        }
-    });
+    // Every lookup is recorded so the Pricing step can explain the result
+    const tryKey = (pass: MatchPass, key: string, strict: boolean, via?: string): CatalogPriceMatch | null => {
+        const found = findCatalogPrice(key, catalogIndex, effectiveTierName, strict);
+        const prefix = via ? `${via}: ` : '';
+        traceSteps.push(found
+            ? { pass, key, accepted: true, reason: `${prefix}Matched ${found.matchedSku} (${found.method})` }
+            : { pass, key, accepted: false, reason: `${prefix}${strict ? 'Not in catalog (exact or hyphen variants)' : 'Not in catalog (incl. neighbor, suffix-strip and core fallbacks)'}` });
+        if (found) acceptedPass = pass;
+        return found;
+    };
 
-    // 3. BASE PRICE LOOKUP
-    let match: any = null;
-    const { exact, similar } = generateSmartKeys(item);
+    // Pass 0: Manufacturer alias table / rewrite rules (before any global normalization or fuzzing)
+    const aliased = resolveSkuAlias(item.originalCode, manufacturer);
+    if (aliased) {
+        match = tryKey('alias', aliased.sku, true, aliased.detail);
+        if (match) match.source = `Catalog (${aliased.via === 'alias' ? 'Alias' : 'Rewrite Rule'} '${item.originalCode}' → '${match.matchedSku}')`;
+    }
     
     // Pass 1: Try exact/fuzzy match on ORIGINAL code
-    match = findCatalogPrice(item.originalCode, manufacturer.catalog || {}, effectiveTierName, true);
+    if (!match) {
+        match = tryKey('original', item.originalCode, true);
+    }
 
     // Pass 2: Try EXACT keys STRICTLY
     if (!match) {
         for (const key of exact) {
-            match = findCatalogPrice(key, manufacturer.catalog || {}, effectiveTierName, true);
+            match = tryKey('exact-keys', key, true);
             if (match) {
                 match.source = `Catalog (Exact Match '${key}')`;
                 break;
@@ -579,7 +668,7 @@ export const calculateProjectPricing = (
     // Pass 3: Try SIMILAR keys STRICTLY
     if (!match) {
         for (const key of similar) {
-            match = findCatalogPrice(key, manufacturer.catalog || {}, effectiveTierName, true);
+            match = tryKey('similar-keys', key, true);
             if (match) {
                 match.source = `Catalog (Similar Match '${key}')`;
                 break;
@@ -589,112 +678,117 @@ export const calculateProjectPricing = (
     
     // Pass 4: Fallback to Fuzzy/Loose matching on Original Code
     if (!match) {
-        match = findCatalogPrice(item.originalCode, manufacturer.catalog || {}, effectiveTierName, false);
+        match = tryKey('loose', item.originalCode, false);
     }
 
     // Pass 5: GLOBAL CATALOG SEARCH (The "Full XLSM" Fallback)
-    // If we still haven't found it, iterate the entire catalog keys to find a partial match.
+    // If we still haven't found it, search the whole catalog for a partial match.
     // This addresses the user request: "if not match then try to match with full xlsm"
     if (!match) {
-        const catalogKeys = Object.keys(manufacturer.catalog || {});
         // 5a. Look for catalog key that STARTS WITH the normalized code (e.g. SKU="B15", Catalog="B15-L")
-        // We sort by length ascending to find the shortest (simplest) match first
+        // The trie returns the shortest (simplest) such key, alphabetically first on ties
         const cleanSku = normalizeLookup(item.originalCode);
         if (cleanSku && cleanSku !== "UNKNOWN") {
-            const potentialMatch = catalogKeys.find(k => {
-                 const normK = normalizeLookup(k);
-                 return normK.startsWith(cleanSku) && normK.length <= cleanSku.length + 3; // Allow up to 3 extra chars (e.g. -L, -R)
-            });
+            const potentialMatch = findByPrefix(catalogIndex, cleanSku, 3); // Allow up to 3 extra chars (e.g. -L, -R)
             
             if (potentialMatch) {
-                match = getPriceFromItem(manufacturer.catalog![potentialMatch], effectiveTierName, potentialMatch, `Catalog (Global Prefix Match '${potentialMatch}')`);
+                match = getPriceFromItem(catalogIndex.catalog[potentialMatch], effectiveTierName, potentialMatch, `Global Prefix Match '${potentialMatch}'`);
             }
+            traceSteps.push(match
+                ? { pass: 'global-prefix', key: cleanSku, accepted: true, reason: `Catalog SKU ${potentialMatch} starts with ${cleanSku}` }
+                : { pass: 'global-prefix', key: cleanSku, accepted: false, reason: potentialMatch ? `${potentialMatch} has no price columns` : `No catalog SKU starts with ${cleanSku} (up to 3 extra characters)` });
+            if (match) acceptedPass = 'global-prefix';
         }
     }
     
     if (match) {
-        basePrice = match.price;
+        basePrice = match.priceCents;
         source = match.source;
         matchedSku = match.matchedSku;
     } else if (item.extractedPrice && item.extractedPrice > 0) {
-        basePrice = item.extractedPrice;
+        basePrice = toCents(item.extractedPrice);
         source = 'Extracted from PDF';
+        traceSteps.push({ pass: 'extracted-price', key: item.originalCode, accepted: true, reason: `Used the price printed on the plan ($${item.extractedPrice})` });
+        acceptedPass = 'extracted-price';
     } else {
         basePrice = 0;
         source = 'NOT FOUND';
     }
 
+    // 3. MANUFACTURER OPTIONS (after the lookup, so SKU patterns see the catalog SKU)
+    const applicableOptions = activeOptions.filter(opt => optionAppliesTo(opt, item, matchedSku));
+    applicableOptions.forEach(opt => {
+        if (opt.pricingType === 'percentage') return;
+        // Included features (soft-close and the like) are listed on the line at no charge
+        if (opt.pricingType === 'included') {
+            if (opt.name.length <= 50) appliedOptionsLog.push({ name: opt.name, price: 0, sourceSection: opt.section });
+            return;
+        }
+        if (opt.name.length > 50 && opt.price === 0) return; // Descriptive rows picked up from the workbook
+
+        const basis = getChargeBasis(opt);
+        if (basis === 'per-order') {
+            // Charged once on its own line below, whichever line needs it first
+            if (!orderOptions.has(opt.id)) orderOptions.set(opt.id, { opt, room: item.room, tierName: effectiveTierName });
+            return;
+        }
+        const addPrice = toCents(opt.price);
+        if (basis === 'per-line') lineChargeList += addPrice;
+        else optionsPrice += addPrice;
+        appliedOptionsLog.push({ name: basis === 'per-line' ? `${opt.name} (per line)` : opt.name, price: fromCents(addPrice), sourceSection: opt.section });
+    });
+
     // 4. PERCENTAGE OPTIONS
-    activeOptions.forEach(opt => {
+    applicableOptions.forEach(opt => {
          if (opt.pricingType === 'percentage') {
              let pct = opt.price;
              if (pct > 1) pct = pct / 100;
-             const addPrice = basePrice * pct; 
+             const addPrice = multiplyCents(basePrice, pct);
              if (opt.name.length > 50 && addPrice === 0) return;
 
              optionsPrice += addPrice;
-             appliedOptionsLog.push({ name: `${opt.name} (${(pct*100).toFixed(0)}%)`, price: addPrice, sourceSection: opt.section });
+             appliedOptionsLog.push({ name: `${opt.name} (${(pct*100).toFixed(0)}%)`, price: fromCents(addPrice), sourceSection: opt.section });
          }
     });
 
     // --- NEW COST & PRICING LOGIC ---
-    // 1. Determine Factor (Room Specific or Global)
-    const globalFactor = financials?.pricingFactor || manufacturer.basePricingMultiplier || 1.0;
-    const roomFactor = (item.room && financials?.roomFactors?.[item.room]) 
-                        ? financials.roomFactors[item.room] 
-                        : globalFactor;
-
-    // 2. Calculate Cost
-    // List Price = (Base + Options) * Tier Multiplier (if tier has built-in factor, usually 1 for raw catalog)
-    // Actually, usually Catalog Price IS List Price.
-    const totalListPrice = (basePrice + optionsPrice);
-    
-    // Cost = List * Factor
-    const unitCost = totalListPrice * roomFactor;
-
-    // 3. Determine Margin
-    // Check for specific Series/Level margin override
-    // For now, simple global margin or category based
-    let margin = financials?.globalMargin || 0;
-    if (financials?.categoryMargins) {
-         // Try to match by Tier Name or Door Style
-         const tierName = effectiveTierName || 'Standard';
-         if (financials.categoryMargins[tierName]) {
-             margin = financials.categoryMargins[tierName];
-         }
-    }
-    
-    // Normalize Margin (e.g. 35 -> 0.35)
-    const marginDecimal = margin > 1 ? margin / 100 : margin;
+    const totalListPrice: Cents = (basePrice + optionsPrice);
+    const { unitCost, unitSell, factor: roomFactor, marginDecimal } = costAndSell(totalListPrice, item.room, effectiveTierName);
 
-    // 4. Calculate Sell Price
-    // Sell = Cost / (1 - Margin)
-    let unitSell = 0;
-    if (marginDecimal >= 1) {
-        unitSell = unitCost; // Prevent division by zero or negative
-    } else {
-        unitSell = unitCost / (1 - marginDecimal);
-    }
-
-    const totalPrice = unitSell * item.quantity;
+    // Per-line options go through factor and margin once, on top of unit x qty, so the line adds up exactly
+    const lineCharge = lineChargeList > 0 ? costAndSell(lineChargeList, item.room, effectiveTierName) : undefined;
+    const totalPrice: Cents = multiplyCents(unitSell, item.quantity) + (lineCharge?.unitSell || 0);
 
     results.push({
       ...item,
       normalizedCode: matchedSku,
-      basePrice: Math.round(basePrice),
-      optionsPrice: Math.round(optionsPrice),
+      basePrice: fromCents(basePrice),
+      optionsPrice: fromCents(optionsPrice),
       tierMultiplier: 1, // Deprecated in favor of Factor logic, but kept for types
       
-      unitCost: Number(unitCost.toFixed(2)),
-      finalUnitPrice: Number(unitSell.toFixed(2)),
-      totalPrice: Number(totalPrice.toFixed(2)),
+      unitCost: fromCents(unitCost),
+      finalUnitPrice: fromCents(unitSell),
+      totalPrice: fromCents(totalPrice),
+      lineCharge: lineCharge ? fromCents(lineCharge.unitSell) : undefined,
+      lineChargeCost: lineCharge ? fromCents(lineCharge.unitCost) : undefined,
       
       pricingFactor: roomFactor,
       margin: marginDecimal * 100,
       
       tierName: effectiveTierName || 'Standard',
       source,
-      appliedOptions: appliedOptionsLog
+      appliedOptions: appliedOptionsLog,
+      matchTrace: {
+          steps: traceSteps,
+          acceptedPass,
+          matchedSku: match?.matchedSku,
+          method: match?.method,
+          requestedTier: effectiveTierName,
+          tierColumn: match?.tierColumn,
+          tierResolution: match?.tierResolution,
+          // Fuzzy column names (e.g. "Level 2" for "Level 2 Price") are still the requested tier
+          usedFallbackTier: !!match && match.tierResolution !== 'direct' && match.tierResolution !== 'fuzzy'
+      }
     });
   });
 
@@ -703,10 +797,38 @@ export const calculateProjectPricing = (
       'Base': 1, 'Wall': 2, 'Tall': 3, 'Panel': 4, 'Filler': 5, 'Accessory': 6, 'Modification': 7
   };
 
-  return results.sort((a, b) => {
+  const sorted = results.sort((a, b) => {
       const typeA = typePriority[a.type || 'Base'] || 99;
       const typeB = typePriority[b.type || 'Base'] || 99;
       if (typeA !== typeB) return typeA - typeB;
       return a.originalCode.localeCompare(b.originalCode, undefined, { numeric: true, sensitivity: 'base' });
   });
+
+  // Per-order options go last, so single-line repricing (which reads results[0]) is unaffected
+  orderOptions.forEach(({ opt, room, tierName }) => {
+      const { unitCost, unitSell, factor, marginDecimal } = costAndSell(toCents(opt.price), room, tierName);
+      sorted.push({
+          id: `order-option-${opt.id}`,
+          originalCode: 'OPTION',
+          normalizedCode: 'OPTION',
+          type: 'Modification',
+          description: `${opt.name} (once per order)`,
+          width: 0, height: 0, depth: 0,
+          quantity: 1,
+          room,
+          basePrice: 0,
+          optionsPrice: roundMoney(opt.price),
+          tierMultiplier: 1,
+          unitCost: fromCents(unitCost),
+          finalUnitPrice: fromCents(unitSell),
+          totalPrice: fromCents(unitSell),
+          pricingFactor: factor,
+          margin: marginDecimal * 100,
+          tierName: tierName || 'Standard',
+          source: 'Order Option',
+          appliedOptions: [{ name: opt.name, price: roundMoney(opt.price), sourceSection: opt.section }]
+      });
+  });
+
+  return sorted;
 };
\ No newline at end of file
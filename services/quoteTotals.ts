@@ -0,0 +1,139 @@
+import { CabinetType, PricingLineItem, ProjectFinancials } from "../types";
+import { Cents, multiplyCents, percentOfCents, sumCents, toCents } from "./money";
+import { computeSalesTax, QuoteTax } from "./salesTax";
+
+// --- Quote Totals ---
+// The one place subtotal -> discount -> tax -> grand total is worked out. The Pricing step,
+// the Download step, the PDF and revision snapshots all call computeQuoteTotals, so they can't drift apart.
+
+export type QuoteCategory = 'Cabinets' | 'Hardware' | 'Finishing' | 'Appliances';
+
+// Subtotal of one room or category
+export interface QuoteGroupTotal {
+    name: string;
+    lineCount: number;
+    quantity: number;
+    subtotal: Cents;
+    cost: Cents;
+}
+
+export interface QuoteTotals {
+    lineCount: number; // Priced lines (total > 0), the ones printed on the quote
+    subtotal: Cents; // Sum of line sell totals
+    cost: Cents; // Sum of unit cost x quantity
+    discount: Cents; // Dealer discount on the subtotal
+    upcharge: Cents; // Manufacturer upcharge on the subtotal
+    netProducts: Cents; // subtotal - discount + upcharge
+    tax: Cents; // On the taxable categories (see taxDetail)
+    taxDetail: QuoteTax;
+    shipping: Cents;
+    fuel: Cents;
+    misc: Cents;
+    labor: Cents; // Installation and services (financials.labor)
+    grandTotal: Cents;
+    profit: Cents; // subtotal - discount - cost; the manufacturer upcharge isn't profit
+    marginPct: number; // profit / (subtotal - discount), 0-100, as the margin guard sees it
+    byRoom: QuoteGroupTotal[]; // In first-seen order
+    byCategory: QuoteGroupTotal[]; // Cabinets, Hardware, Finishing, Appliances (non-empty only)
+}
+
+export const GENERAL_ROOM = 'General';
+
+// Lines without a (known) room are grouped together
+export const getQuoteRoom = (line: Pick<PricingLineItem, 'room'>): string =>
+    line.room && line.room.toLowerCase() !== 'unknown' ? line.room : GENERAL_ROOM;
+
+const CATEGORY_ORDER: QuoteCategory[] = ['Cabinets', 'Hardware', 'Finishing', 'Appliances'];
+
+export const getQuoteCategory = (type: CabinetType): QuoteCategory => {
+    if (type === 'Hardware') return 'Hardware';
+    if (type === 'Finishing') return 'Finishing';
+    if (type === 'Appliance') return 'Appliances';
+    return 'Cabinets';
+};
+
+export const lineTotalCents = (line: Pick<PricingLineItem, 'totalPrice'>): Cents => toCents(line.totalPrice);
+
+export const lineCostCents = (line: Pick<PricingLineItem, 'unitCost' | 'quantity' | 'lineChargeCost'>): Cents =>
+    multiplyCents(toCents(line.unitCost || 0), line.quantity || 0) + toCents(line.lineChargeCost);
+
+// Gross margin once the dealer discount comes off the sell side. Shared with the margin guard so
+// the estimate and the floor check agree. The manufacturer upcharge is passed on to the
+// manufacturer, so it isn't profit.
+export const productMargin = (sell: Cents, cost: Cents, discountRate: number = 0) => {
+    const net = sell - percentOfCents(sell, discountRate);
+    const profit = net - cost;
+    return { net, profit, marginPct: net > 0 ? (profit / net) * 100 : undefined };
+};
+
+// Lines with no price (unmatched) or a credit never appear on the quote, so they don't count here either
+export const getQuotedLines = <T extends Pick<PricingLineItem, 'totalPrice'>>(pricing: T[] = []): T[] =>
+    pricing.filter(line => line.totalPrice > 0);
+
+export const sumLineTotals = (lines: Pick<PricingLineItem, 'totalPrice'>[]): Cents =>
+    sumCents(lines.map(lineTotalCents));
+
+const groupTotals = (lines: PricingLineItem[], keyOf: (line: PricingLineItem) => string): QuoteGroupTotal[] => {
+    const groups = new Map<string, QuoteGroupTotal>();
+    lines.forEach(line => {
+        const name = keyOf(line);
+        const group = groups.get(name) || { name, lineCount: 0, quantity: 0, subtotal: 0, cost: 0 };
+        group.lineCount += 1;
+        group.quantity += line.quantity || 0;
+        group.subtotal += lineTotalCents(line);
+        group.cost += lineCostCents(line);
+        groups.set(name, group);
+    });
+    return Array.from(groups.values());
+};
+
+export const computeQuoteTotals = (
+    pricing: PricingLineItem[] = [],
+    financials?: Partial<ProjectFinancials>
+): QuoteTotals => {
+    const fin = financials || {};
+    const lines = getQuotedLines(pricing);
+
+    const subtotal = sumLineTotals(lines);
+    const cost = sumCents(lines.map(lineCostCents));
+    const discount = percentOfCents(subtotal, fin.discountRate || 0);
+    const upcharge = percentOfCents(subtotal, fin.manufacturerUpcharge || 0);
+    const netProducts = subtotal - discount + upcharge;
+    const shipping = toCents(fin.shippingCost);
+    const fuel = toCents(fin.fuelSurcharge);
+    const misc = toCents(fin.miscCharge);
+    const labor = sumCents((fin.labor?.lines || []).map(line => toCents(line.total)));
+
+    // Discount and upcharge are spread over cabinets and hardware by their share of the subtotal
+    const hardwareSubtotal = sumLineTotals(lines.filter(line => getQuoteCategory(line.type) === 'Hardware'));
+    const hardwareNet = subtotal > 0 ? multiplyCents(hardwareSubtotal, netProducts / subtotal) : 0;
+    const taxDetail = computeSalesTax({
+        cabinets: netProducts - hardwareNet,
+        hardware: hardwareNet,
+        freight: shipping + fuel,
+        labor
+    }, fin);
+    const tax = taxDetail.total;
+    const margin = productMargin(subtotal, cost, fin.discountRate || 0);
+
+    return {
+        lineCount: lines.length,
+        subtotal,
+        cost,
+        discount,
+        upcharge,
+        netProducts,
+        tax,
+        taxDetail,
+        shipping,
+        fuel,
+        misc,
+        labor,
+        grandTotal: netProducts + tax + shipping + fuel + misc + labor,
+        profit: margin.profit,
+        marginPct: margin.marginPct ?? 0,
+        byRoom: groupTotals(lines, getQuoteRoom),
+        byCategory: groupTotals(lines, line => getQuoteCategory(line.type))
+            .sort((a, b) => CATEGORY_ORDER.indexOf(a.name as QuoteCategory) - CATEGORY_ORDER.indexOf(b.name as QuoteCategory))
+    };
+};
@@ -0,0 +1,144 @@
+import { Project, QuoteRevision, PricingLineItem, CabinetItem } from '../types';
+import { fromCents } from './money';
+import { computeQuoteTotals } from './quoteTotals';
+
+// --- Quote Revisions ---
+// Snapshots are deep copies so later edits to the live project can never leak into history.
+
+// Same figure the Pricing step and the PDF show
+export const getProjectGrandTotal = (proj: Pick<Project, 'pricing' | 'financials'>): number =>
+    fromCents(computeQuoteTotals(proj.pricing, proj.financials).grandTotal);
+
+export const createRevisionSnapshot = (
+    project: Project,
+    revisionNumber: number,
+    trigger: QuoteRevision['trigger'],
+    note?: string
+): QuoteRevision => {
+    const snapshot: QuoteRevision['snapshot'] = JSON.parse(JSON.stringify({
+        items: project.items || [],
+        specs: project.specs,
+        roomSpecs: project.roomSpecs,
+        financials: project.financials,
+        // Match traces are diagnostics for the live quote; revisions only need the priced result
+        pricing: project.pricing?.map(({ matchTrace, ...line }) => line),
+        selectedTierId: project.selectedTierId,
+        manufacturerId: project.manufacturerId
+    }));
+
+    return {
+        id: crypto.randomUUID(),
+        projectId: project.id,
+        revisionNumber,
+        createdAt: new Date().toISOString(),
+        trigger,
+        note: note?.trim() || undefined,
+        grandTotal: getProjectGrandTotal(project),
+        snapshot
+    };
+};
+
+// --- Diff ---
+
+export interface RevisionLine {
+    key: string;
+    room: string;
+    code: string;
+    description: string;
+    quantity: number;
+    unitPrice: number;
+    total: number;
+}
+
+export interface RevisionLineChange {
+    key: string;
+    before: RevisionLine;
+    after: RevisionLine;
+    changedFields: ('quantity' | 'unitPrice' | 'total' | 'description')[];
+}
+
+export interface RevisionDiff {
+    added: RevisionLine[];
+    removed: RevisionLine[];
+    changed: RevisionLineChange[];
+    unchangedCount: number;
+    totalBefore: number;
+    totalAfter: number;
+    totalDelta: number;
+}
+
+// Lines are matched on Room + Code. Repeated codes in the same room are summed so
+// splitting/merging a line does not show up as an add + remove.
+const toLines = (snapshot: QuoteRevision['snapshot']): Map<string, RevisionLine> => {
+    const source: (CabinetItem | PricingLineItem)[] = snapshot.pricing?.length ? snapshot.pricing : snapshot.items;
+    const lines = new Map<string, RevisionLine>();
+
+    source.forEach(item => {
+        const room = item.room || 'General';
+        const code = item.normalizedCode || item.originalCode;
+        const key = `${room}|${code}`;
+        const total = (item as PricingLineItem).totalPrice || 0;
+        const existing = lines.get(key);
+        if (existing) {
+            existing.quantity += item.quantity;
+            existing.total += total;
+            existing.unitPrice = existing.quantity > 0 ? existing.total / existing.quantity : 0;
+        } else {
+            lines.set(key, {
+                key,
+                room,
+                code,
+                description: item.description,
+                quantity: item.quantity,
+                unitPrice: (item as PricingLineItem).finalUnitPrice || 0,
+                total
+            });
+        }
+    });
+    return lines;
+};
+
+const moneyDiffers = (a: number, b: number) => Math.abs(a - b) >= 0.005;
+
+export const diffRevisions = (
+    before: Pick<QuoteRevision, 'snapshot' | 'grandTotal'>,
+    after: Pick<QuoteRevision, 'snapshot' | 'grandTotal'>
+): RevisionDiff => {
+    const beforeLines = toLines(before.snapshot);
+    const afterLines = toLines(after.snapshot);
+    const diff: RevisionDiff = {
+        added: [],
+        removed: [],
+        changed: [],
+        unchangedCount: 0,
+        totalBefore: before.grandTotal,
+        totalAfter: after.grandTotal,
+        totalDelta: after.grandTotal - before.grandTotal
+    };
+
+    afterLines.forEach((line, key) => {
+        const prev = beforeLines.get(key);
+        if (!prev) {
+            diff.added.push(line);
+            return;
+        }
+        const changedFields: RevisionLineChange['changedFields'] = [];
+        if (prev.quantity !== line.quantity) changedFields.push('quantity');
+        if (moneyDiffers(prev.unitPrice, line.unitPrice)) changedFields.push('unitPrice');
+        if (moneyDiffers(prev.total, line.total)) changedFields.push('total');
+        if (prev.description !== line.description) changedFields.push('description');
+
+        if (changedFields.length > 0) diff.changed.push({ key, before: prev, after: line, changedFields });
+        else diff.unchangedCount++;
+    });
+
+    beforeLines.forEach((line, key) => {
+        if (!afterLines.has(key)) diff.removed.push(line);
+    });
+
+    const byRoomCode = (a: { key: string }, b: { key: string }) => a.key.localeCompare(b.key);
+    diff.added.sort(byRoomCode);
+    diff.removed.sort(byRoomCode);
+    diff.changed.sort(byRoomCode);
+    return diff;
+};
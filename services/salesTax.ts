@@ -0,0 +1,140 @@
+import { ContactDetails, Project, ProjectFinancials, TaxCategory, TaxJurisdiction } from "../types";
+import { Cents, percentOfCents, sumCents } from "./money";
+import taxRates from "../data/taxRates.json";
+
+// --- Sales Tax ---
+// Rate and taxability come from the delivery address, looked up in data/taxRates.json and
+// stored on the financials (so revisions and scenarios keep the rules they were priced with).
+// Typing a rate replaces the rate only; the address's taxability rules still apply.
+
+interface LocalRate {
+    label: string;
+    zipPrefixes: string[];
+    rate: number;
+}
+
+interface StateRates {
+    name: string;
+    rate: number;
+    taxable: Record<TaxCategory, boolean>;
+    local: LocalRate[];
+}
+
+export interface TaxRateTable {
+    effectiveDate: string;
+    states: Record<string, StateRates>;
+}
+
+const RATES = taxRates as TaxRateTable;
+
+// Quotes without a resolved address tax products only, as they always have
+export const DEFAULT_TAXABILITY: Record<TaxCategory, boolean> = { cabinets: true, hardware: true, freight: false, labor: false };
+
+export const TAX_CATEGORY_LABELS: Record<TaxCategory, string> = {
+    cabinets: 'Cabinets',
+    hardware: 'Hardware',
+    freight: 'Freight',
+    labor: 'Labor'
+};
+
+// Accepts "TX", "tx" or "Texas"
+export const findStateCode = (state?: string, table: TaxRateTable = RATES): string | undefined => {
+    const value = (state || '').trim().toLowerCase();
+    if (!value) return undefined;
+    return Object.keys(table.states).find(code => code.toLowerCase() === value || table.states[code].name.toLowerCase() === value);
+};
+
+// Longest matching zip prefix within the state
+const findLocalRate = (local: LocalRate[], zip?: string): LocalRate | undefined => {
+    const code = (zip || '').trim();
+    if (!code) return undefined;
+    let best: { local: LocalRate; length: number } | undefined;
+    local.forEach(l => l.zipPrefixes.forEach(prefix => {
+        if (code.startsWith(prefix) && (!best || prefix.length > best.length)) best = { local: l, length: prefix.length };
+    }));
+    return best?.local;
+};
+
+export const resolveTaxJurisdiction = (address?: Partial<ContactDetails>, table: TaxRateTable = RATES): TaxJurisdiction | undefined => {
+    const code = findStateCode(address?.state, table);
+    if (!code) return undefined;
+    const state = table.states[code];
+    const local = findLocalRate(state.local, address?.zip);
+    return {
+        state: code,
+        label: local ? `${state.name} - ${local.label}` : state.name,
+        stateRate: state.rate,
+        localRate: local?.rate || 0,
+        taxable: { ...DEFAULT_TAXABILITY, ...state.taxable }
+    };
+};
+
+// Combined rate, without float noise (7.25 + 2.5 + ...)
+export const jurisdictionRate = (jurisdiction: TaxJurisdiction): number =>
+    Math.round((jurisdiction.stateRate + jurisdiction.localRate) * 1000) / 1000;
+
+// Sets the rate and taxability from the delivery address unless the rate was typed in.
+// An address in a state with no table entry keeps the current rate but drops the old rules.
+export const applySalesTax = (project: Project, financials: ProjectFinancials): ProjectFinancials => {
+    const address = project.deliveryDetails;
+    if (!address?.state?.trim()) return financials;
+    const jurisdiction = resolveTaxJurisdiction(address);
+    if (!jurisdiction) return financials.taxJurisdiction ? { ...financials, taxJurisdiction: undefined } : financials;
+    if (financials.taxManual) return { ...financials, taxJurisdiction: jurisdiction };
+    return { ...financials, taxJurisdiction: jurisdiction, taxRate: jurisdictionRate(jurisdiction) };
+};
+
+export interface QuoteTaxLine {
+    category: TaxCategory;
+    amount: Cents;
+    taxable: boolean;
+}
+
+export interface QuoteTax {
+    rate: number; // Combined percentage applied to the taxable base
+    exempt: boolean;
+    certificate?: string;
+    jurisdiction?: string; // Label of the resolved address, if any
+    lines: QuoteTaxLine[]; // Categories with a non-zero amount, taxable or not
+    taxableBase: Cents;
+    split?: { state: Cents; local: Cents }; // Only when the rate is the address's own
+    total: Cents;
+}
+
+// Rounded once on the whole taxable base. Exempt quotes still list what would have been taxed.
+export const computeSalesTax = (amounts: Partial<Record<TaxCategory, Cents>>, financials?: Partial<ProjectFinancials>): QuoteTax => {
+    const fin = financials || {};
+    const jurisdiction = fin.taxJurisdiction;
+    const taxable = jurisdiction?.taxable || DEFAULT_TAXABILITY;
+    const rate = fin.taxRate || 0;
+
+    const lines: QuoteTaxLine[] = (Object.keys(TAX_CATEGORY_LABELS) as TaxCategory[])
+        .filter(category => (amounts[category] || 0) !== 0)
+        .map(category => ({ category, amount: amounts[category]!, taxable: !!taxable[category] }));
+    const taxableBase = sumCents(lines.filter(l => l.taxable).map(l => l.amount));
+
+    const exempt = !!fin.taxExempt;
+    const total = exempt ? 0 : percentOfCents(taxableBase, rate);
+    const ownRate = !!jurisdiction && !fin.taxManual && rate === jurisdictionRate(jurisdiction);
+    const stateTax = ownRate && !exempt ? percentOfCents(taxableBase, jurisdiction.stateRate) : 0;
+
+    return {
+        rate,
+        exempt,
+        certificate: exempt ? fin.taxExemptCertificate?.trim() || undefined : undefined,
+        jurisdiction: jurisdiction?.label,
+        lines,
+        taxableBase,
+        split: ownRate && !exempt && jurisdiction.localRate > 0 ? { state: stateTax, local: total - stateTax } : undefined,
+        total
+    };
+};
+
+// One-line description for summaries, e.g. "Texas - Houston 8.25% on cabinets, hardware, freight"
+export const describeTaxBasis = (tax: QuoteTax): string => {
+    if (tax.exempt) return `Tax exempt${tax.certificate ? ` (certificate ${tax.certificate})` : ''}`;
+    const taxed = tax.lines.filter(l => l.taxable).map(l => TAX_CATEGORY_LABELS[l.category].toLowerCase());
+    const untaxed = tax.lines.filter(l => !l.taxable).map(l => TAX_CATEGORY_LABELS[l.category].toLowerCase());
+    const where = tax.jurisdiction ? `${tax.jurisdiction} ` : '';
+    return `${where}${tax.rate}% on ${taxed.join(', ') || 'nothing'}${untaxed.length ? ` (${untaxed.join(', ')} not taxed)` : ''}`;
+};
@@ -0,0 +1,105 @@
+import { CabinetItem, Manufacturer, PricingScenario, Project } from "../types";
+import { calculateProjectPricing } from "./pricingEngine";
+import { OptionConstraintError } from "./optionConstraints";
+import { computeQuoteTotals, QuoteTotals } from "./quoteTotals";
+
+// --- Pricing Scenarios ---
+// Good/Better/Best: the same item list priced several ways. A scenario is a deep copy of the
+// pricing inputs (specs, room specs, tier, financials) plus the pricing they produced, so the
+// working quote can keep changing without touching the alternatives.
+
+const SUGGESTED_NAMES = ['Good', 'Better', 'Best'];
+
+export const suggestScenarioName = (existing: PricingScenario[] = []): string => {
+    const taken = new Set(existing.map(s => s.name.toLowerCase()));
+    return SUGGESTED_NAMES.find(n => !taken.has(n.toLowerCase())) || `Option ${existing.length + 1}`;
+};
+
+export const createScenario = (project: Project, name: string): PricingScenario => {
+    const inputs = JSON.parse(JSON.stringify({
+        specs: project.specs,
+        roomSpecs: project.roomSpecs,
+        financials: project.financials,
+        pricing: project.pricing
+    }));
+    return {
+        id: crypto.randomUUID(),
+        name: name.trim() || suggestScenarioName(project.scenarios),
+        createdAt: new Date().toISOString(),
+        selectedTierId: project.selectedTierId,
+        pricedAt: project.pricing ? new Date().toISOString() : undefined,
+        ...inputs
+    };
+};
+
+// Reprices against the project's current items. An invalid option combination is recorded on
+// the scenario rather than thrown, so one bad scenario doesn't stop the others from pricing.
+export const priceScenario = (scenario: PricingScenario, items: CabinetItem[], manufacturer: Manufacturer): PricingScenario => {
+    try {
+        const pricing = calculateProjectPricing(items, manufacturer, scenario.selectedTierId || 'default', scenario.specs, scenario.financials, scenario.roomSpecs);
+        return { ...scenario, pricing, pricedAt: new Date().toISOString(), pricingError: undefined };
+    } catch (err) {
+        if (!(err instanceof OptionConstraintError)) throw err;
+        return { ...scenario, pricingError: err.message };
+    }
+};
+
+// Priced before the item list last changed (items added, removed or re-counted)
+export const isScenarioStale = (scenario: PricingScenario, items: CabinetItem[]): boolean => {
+    if (!scenario.pricing) return true;
+    const priced = new Map(scenario.pricing.map(line => [line.id, line.quantity]));
+    if (items.some(item => priced.get(item.id) !== item.quantity)) return true;
+    const itemIds = new Set(items.map(i => i.id));
+    return scenario.pricing.some(line => !itemIds.has(line.id) && !line.id.startsWith('order-option-'));
+};
+
+export const getScenarioTotals = (scenario: PricingScenario): QuoteTotals =>
+    computeQuoteTotals(scenario.pricing, scenario.financials);
+
+// "Elite · Shaker · Maple · Painted White"
+export const describeScenario = (scenario: PricingScenario, manufacturer?: Manufacturer): string => {
+    const s = scenario.specs || {};
+    const tier = manufacturer?.tiers.find(t => t.id === scenario.selectedTierId)?.name || s.priceGroup;
+    const doorStyle = s.dynamicSelections?.['DoorStyle'] || s.wallDoorStyle || s.baseDoorStyle;
+    const species = s.dynamicSelections?.['Wood'] || s.woodSpecies;
+    const finish = s.dynamicSelections?.['Paint'] || s.dynamicSelections?.['Stain'] || s.finishColor;
+    return [tier, doorStyle, species, finish].filter(Boolean).join(' · ') || 'Default specs';
+};
+
+// Makes a scenario the working quote (what Specs, Pricing and the quote PDF show)
+export const scenarioToProjectUpdates = (scenario: PricingScenario): Partial<Project> => JSON.parse(JSON.stringify({
+    specs: scenario.specs,
+    roomSpecs: scenario.roomSpecs,
+    selectedTierId: scenario.selectedTierId,
+    financials: scenario.financials,
+    pricing: scenario.pricing
+}));
+
+// --- Comparison ---
+
+export interface ScenarioColumn {
+    scenario: PricingScenario;
+    totals: QuoteTotals;
+    roomSubtotals: Record<string, number>; // Cents, keyed by room
+}
+
+export interface ScenarioComparison {
+    rooms: string[]; // Union of rooms across scenarios, first-seen order
+    columns: ScenarioColumn[];
+    lowestGrandTotal?: number; // Cents, among priced scenarios
+}
+
+export const compareScenarios = (scenarios: PricingScenario[]): ScenarioComparison => {
+    const rooms: string[] = [];
+    const columns = scenarios.map(scenario => {
+        const totals = getScenarioTotals(scenario);
+        const roomSubtotals: Record<string, number> = {};
+        totals.byRoom.forEach(room => {
+            if (!rooms.includes(room.name)) rooms.push(room.name);
+            roomSubtotals[room.name] = room.subtotal;
+        });
+        return { scenario, totals, roomSubtotals };
+    });
+    const priced = columns.filter(c => c.totals.lineCount > 0).map(c => c.totals.grandTotal);
+    return { rooms, columns, lowestGrandTotal: priced.length > 0 ? Math.min(...priced) : undefined };
+};
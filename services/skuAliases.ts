@@ -0,0 +1,161 @@
+import { Manufacturer, SkuAlias, SkuAliasSuggestion, SkuRewriteRule } from "../types";
+
+// --- Manufacturer SKU Aliases ---
+// normalizeNKBACode's rewrites are global; aliases and rewrite rules let each manufacturer
+// say what a drawing code means in *its* catalog. They run before the fuzzy passes.
+
+export type SkuAliasSource = Pick<Manufacturer, 'skuAliases' | 'skuRewriteRules'>;
+
+export interface ResolvedSkuAlias {
+    sku: string;
+    via: 'alias' | 'rule';
+    detail: string; // Human-readable explanation for the match trace
+}
+
+// Same cleanup as catalog keys (upper case, no spaces, plain dashes)
+export const aliasKey = (code: string): string => (code || '')
+    .trim()
+    .toUpperCase()
+    .replace(/–|—/g, '-')
+    .replace(/\s+/g, '');
+
+const regexCache = new Map<string, RegExp | null>();
+
+// Returns null for an invalid pattern so one bad rule can't break pricing
+export const compileRewriteRule = (pattern: string): RegExp | null => {
+    if (!regexCache.has(pattern)) {
+        try {
+            regexCache.set(pattern, new RegExp(pattern, 'i'));
+        } catch (e) {
+            console.warn(`Invalid SKU rewrite pattern "${pattern}"`, e);
+            regexCache.set(pattern, null);
+        }
+    }
+    return regexCache.get(pattern)!;
+};
+
+export const resolveSkuAlias = (code: string, source?: SkuAliasSource): ResolvedSkuAlias | null => {
+    if (!source) return null;
+    const key = aliasKey(code);
+    if (!key) return null;
+
+    const alias = (source.skuAliases || []).find(a => aliasKey(a.from) === key);
+    if (alias) return { sku: aliasKey(alias.to), via: 'alias', detail: `Alias ${alias.from} → ${alias.to}` };
+
+    // Rules chain: each enabled rule sees the previous rule's output
+    let rewritten = key;
+    const applied: string[] = [];
+    (source.skuRewriteRules || []).filter(r => r.enabled).forEach(rule => {
+        const regex = compileRewriteRule(rule.pattern);
+        if (!regex || !regex.test(rewritten)) return;
+        rewritten = aliasKey(rewritten.replace(regex, rule.replacement));
+        applied.push(`/${rule.pattern}/ → ${rule.replacement}`);
+    });
+    if (applied.length === 0 || rewritten === key) return null;
+    return { sku: rewritten, via: 'rule', detail: `Rule ${applied.join(', ')}` };
+};
+
+// --- Learned Suggestions ---
+
+// Pending suggestion for a code, most-used first. Codes that already have an alias never need one.
+export const findSkuSuggestion = (
+    code: string,
+    suggestions: SkuAliasSuggestion[],
+    source?: SkuAliasSource
+): SkuAliasSuggestion | null => {
+    const key = aliasKey(code);
+    if (!key || (source?.skuAliases || []).some(a => aliasKey(a.from) === key)) return null;
+    return suggestions
+        .filter(s => s.status === 'pending' && s.from === key && s.to !== key)
+        .sort((a, b) => b.count - a.count)[0] || null;
+};
+
+// --- CSV Import / Export ---
+// One file for both tables: type,from,to,note  (type = alias | rule; for rules from/to = pattern/replacement)
+
+const CSV_HEADER = ['type', 'from', 'to', 'note'];
+
+const csvCell = (value: string = ''): string =>
+    /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const skuAliasesToCsv = (aliases: SkuAlias[] = [], rules: SkuRewriteRule[] = []): string => {
+    const rows = [
+        CSV_HEADER,
+        ...aliases.map(a => ['alias', a.from, a.to, a.note || '']),
+        ...rules.map(r => [r.enabled ? 'rule' : 'rule-disabled', r.pattern, r.replacement, r.note || ''])
+    ];
+    return rows.map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+// Minimal RFC 4180 reader: quoted fields, escaped quotes, commas/newlines inside quotes
+const parseCsvRows = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else cell += ch;
+        } else if (ch === '"') inQuotes = true;
+        else if (ch === ',') { row.push(cell); cell = ''; }
+        else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else cell += ch;
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim()));
+};
+
+export interface SkuAliasCsvResult {
+    aliases: SkuAlias[];
+    rules: SkuRewriteRule[];
+    errors: string[]; // Per-line problems; valid lines are still imported
+}
+
+export const parseSkuAliasCsv = (text: string): SkuAliasCsvResult => {
+    const result: SkuAliasCsvResult = { aliases: [], rules: [], errors: [] };
+    const rows = parseCsvRows(text);
+    if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === 'type') rows.shift();
+
+    rows.forEach((row, index) => {
+        const [type = '', from = '', to = '', note = ''] = row.map(c => c.trim());
+        const line = index + 2;
+        const kind = type.toLowerCase();
+        if (!from) {
+            result.errors.push(`Line ${line}: "from" is empty`);
+        } else if (kind === 'alias') {
+            if (!to) result.errors.push(`Line ${line}: alias ${from} has no target SKU`);
+            else result.aliases.push({ id: crypto.randomUUID(), from: aliasKey(from), to: aliasKey(to), note: note || undefined });
+        } else if (kind === 'rule' || kind === 'rule-disabled') {
+            if (!compileRewriteRule(from)) result.errors.push(`Line ${line}: invalid pattern ${from}`);
+            else result.rules.push({ id: crypto.randomUUID(), pattern: from, replacement: to, enabled: kind === 'rule', note: note || undefined });
+        } else {
+            result.errors.push(`Line ${line}: unknown type "${type}" (use alias or rule)`);
+        }
+    });
+    return result;
+};
+
+// Imported aliases replace existing ones with the same "from"; rules are appended unless identical
+export const mergeSkuAliasImport = (source: SkuAliasSource, imported: SkuAliasCsvResult): Required<SkuAliasSource> => {
+    const importedKeys = new Set(imported.aliases.map(a => a.from));
+    const rules = [...(source.skuRewriteRules || [])];
+    imported.rules.forEach(rule => {
+        if (!rules.some(r => r.pattern === rule.pattern && r.replacement === rule.replacement)) rules.push(rule);
+    });
+    return {
+        skuAliases: [...(source.skuAliases || []).filter(a => !importedKeys.has(aliasKey(a.from))), ...imported.aliases],
+        skuRewriteRules: rules
+    };
+};
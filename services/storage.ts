@@ -1,4 +1,6 @@
-import { Manufacturer, Project, NKBARules } from '../types';
+import { Manufacturer, Project, NKBARules, QuoteRevision, ExtractionCacheEntry, SkuAliasSuggestion, MarginFloor, LaborRateCard } from '../types';
+import { createRevisionSnapshot } from './revisions';
+import { buildCatalogIndex } from './catalogIndex';
 import { supabase, supabaseAdmin } from './supabase';
 
 const BUCKET_NAME = 'catalogs';
@@ -72,7 +74,8 @@ class StorageService {
           const text = await data.text();
           const json = JSON.parse(text);
           
-          // 2. Set Cache
+          // 2. Set Cache (and index it once, so pricing never scans the raw keys)
+          buildCatalogIndex(json);
           this.catalogCache.set(mfgId, json);
           
           return json;
@@ -199,6 +202,7 @@ class StorageService {
             if (uploadError) console.error("Bucket Upload Error:", uploadError);
             
             // CACHE UPDATE: Update memory cache directly
+            buildCatalogIndex(catalogToSave);
             this.catalogCache.set(mfg.id, catalogToSave);
 
         } catch (e) {
@@ -281,38 +285,289 @@ class StorageService {
     }
   }
 
-  // --- Projects (Unchanged mostly, but robust) ---
+  // --- Projects ---
+
+  private readLocalProjects(): Project[] {
+    try {
+        const localProjectsStr = localStorage.getItem('kabs_local_projects');
+        return localProjectsStr ? JSON.parse(localProjectsStr) : [];
+    } catch (e) {
+        console.warn("Project cache read failed", e);
+        return [];
+    }
+  }
+
+  private writeLocalProjects(projects: Project[]): void {
+    try {
+        localStorage.setItem('kabs_local_projects', JSON.stringify(projects));
+    } catch (e) {
+        console.warn("Project local save failed (quota).");
+    }
+  }
+
+  // List every project (local cache merged with Supabase), newest first.
+  // When both copies exist, the one with the later lastModified wins.
+  async listProjects(): Promise<Project[]> {
+    const byId = new Map<string, Project>();
+    this.readLocalProjects().forEach(p => byId.set(p.id, p));
+
+    try {
+        const { data, error } = await supabase.from('projects').select('*');
+        if (!error && data) {
+            data.forEach((row: any) => {
+                const cloud = row.data as Project;
+                if (!cloud || !cloud.id) return;
+                const local = byId.get(cloud.id);
+                if (!local || (cloud.lastModified || '') > (local.lastModified || '')) {
+                    byId.set(cloud.id, cloud);
+                }
+            });
+            this.writeLocalProjects(Array.from(byId.values()));
+        }
+    } catch (e) {
+        console.warn("Project list fetch failed, using local cache", e);
+    }
+
+    return Array.from(byId.values()).sort((a, b) =>
+        (b.lastModified || b.dateCreated || '').localeCompare(a.lastModified || a.dateCreated || '')
+    );
+  }
+
+  // Same rule as listProjects: the copy with the later lastModified wins, so an edit made on
+  // another machine isn't hidden by a stale local cache. Offline falls back to the local copy.
+  async getProject(id: string): Promise<Project | null> {
+    const local = this.readLocalProjects().find(p => p.id === id) || null;
+
+    try {
+        const { data, error } = await supabase.from('projects').select('*').eq('id', id).maybeSingle();
+        if (!error && data?.data) {
+            const cloud = data.data as Project;
+            if (!local || (cloud.lastModified || '') > (local.lastModified || '')) {
+                this.writeLocalProjects([...this.readLocalProjects().filter(p => p.id !== id), cloud]);
+                return cloud;
+            }
+        }
+    } catch (e) {
+        console.warn("Project cloud fetch failed, using local cache", e);
+    }
+    return local;
+  }
+
+  async saveProject(project: Project): Promise<Project> {
+    const stamped = { ...project, lastModified: new Date().toISOString() };
+
+    // Local Update
+    this.writeLocalProjects([...this.readLocalProjects().filter(p => p.id !== project.id), stamped]);
+
+    // Cloud Sync (Best Effort)
+    const { error } = await supabase.from('projects').upsert({ id: stamped.id, data: stamped });
+    if (error) console.warn("Project cloud sync failed, saved locally only", error);
+    return stamped;
+  }
+
+  async deleteProject(id: string): Promise<void> {
+    this.writeLocalProjects(this.readLocalProjects().filter(p => p.id !== id));
+    if (localStorage.getItem('kabs_active_project_id') === id) {
+        localStorage.removeItem('kabs_active_project_id');
+    }
+    localStorage.removeItem(`kabs_local_revisions_${id}`);
+
+    try {
+        const { error } = await supabase.from('projects').delete().eq('id', id);
+        if (error) console.error("Project delete error", error);
+        await supabase.from('project_revisions').delete().eq('project_id', id);
+    } catch (e) {
+        console.warn("Project cloud delete failed", e);
+    }
+  }
   
+  // --- Quote Revisions ---
+  // Append-only: there is deliberately no update or single-revision delete.
+
+  private readLocalRevisions(projectId: string): QuoteRevision[] {
+    try {
+        const str = localStorage.getItem(`kabs_local_revisions_${projectId}`);
+        return str ? JSON.parse(str) : [];
+    } catch (e) {
+        console.warn("Revision cache read failed", e);
+        return [];
+    }
+  }
+
+  private writeLocalRevisions(projectId: string, revisions: QuoteRevision[]): void {
+    try {
+        localStorage.setItem(`kabs_local_revisions_${projectId}`, JSON.stringify(revisions));
+    } catch (e) {
+        console.warn("Revision local save failed (quota).");
+    }
+  }
+
+  // Oldest first (Rev 1, Rev 2, ...)
+  async listRevisions(projectId: string): Promise<QuoteRevision[]> {
+    const byId = new Map<string, QuoteRevision>();
+    this.readLocalRevisions(projectId).forEach(r => byId.set(r.id, r));
+
+    try {
+        const { data, error } = await supabase.from('project_revisions').select('*').eq('project_id', projectId);
+        if (!error && data) {
+            data.forEach((row: any) => {
+                if (row.data?.id && !byId.has(row.data.id)) byId.set(row.data.id, row.data as QuoteRevision);
+            });
+            this.writeLocalRevisions(projectId, Array.from(byId.values()));
+        }
+    } catch (e) {
+        console.warn("Revision fetch failed, using local cache", e);
+    }
+
+    return Array.from(byId.values()).sort((a, b) => a.revisionNumber - b.revisionNumber);
+  }
+
+  async createRevision(project: Project, trigger: QuoteRevision['trigger'], note?: string): Promise<QuoteRevision> {
+    const existing = await this.listRevisions(project.id);
+    const nextNumber = existing.reduce((max, r) => Math.max(max, r.revisionNumber), 0) + 1;
+    const revision = createRevisionSnapshot(project, nextNumber, trigger, note);
+
+    this.writeLocalRevisions(project.id, [...existing, revision]);
+
+    // Cloud Sync (Best Effort) - insert, never upsert, so a revision can't be overwritten
+    const { error } = await supabase.from('project_revisions').insert({ id: revision.id, project_id: project.id, data: revision });
+    if (error) console.warn("Revision cloud sync failed", error);
+    return revision;
+  }
+
+  // --- SKU Alias Suggestions ---
+  // One record per manufacturer + from + to; repeating a correction bumps its count.
+
+  private readLocalSkuSuggestions(): SkuAliasSuggestion[] {
+    try {
+        const str = localStorage.getItem('kabs_local_sku_suggestions');
+        return str ? JSON.parse(str) : [];
+    } catch (e) {
+        console.warn("SKU suggestion cache read failed", e);
+        return [];
+    }
+  }
+
+  private writeLocalSkuSuggestions(suggestions: SkuAliasSuggestion[]): void {
+    try {
+        localStorage.setItem('kabs_local_sku_suggestions', JSON.stringify(suggestions));
+    } catch (e) {
+        console.warn("SKU suggestion local save failed (quota).");
+    }
+  }
+
+  async listSkuAliasSuggestions(manufacturerId: string): Promise<SkuAliasSuggestion[]> {
+    const byId = new Map<string, SkuAliasSuggestion>();
+    const local = this.readLocalSkuSuggestions();
+    local.filter(s => s.manufacturerId === manufacturerId).forEach(s => byId.set(s.id, s));
+
+    try {
+        const { data, error } = await supabase.from('sku_alias_suggestions').select('*').eq('manufacturer_id', manufacturerId);
+        if (!error && data) {
+            data.forEach((row: any) => {
+                const cloud = row.data as SkuAliasSuggestion;
+                const mine = byId.get(cloud?.id);
+                // Cloud wins unless this device has seen the correction more often
+                if (cloud?.id && (!mine || cloud.count >= mine.count)) byId.set(cloud.id, cloud);
+            });
+            this.writeLocalSkuSuggestions([...local.filter(s => s.manufacturerId !== manufacturerId), ...byId.values()]);
+        }
+    } catch (e) {
+        console.warn("SKU suggestion fetch failed, using local cache", e);
+    }
+
+    return Array.from(byId.values()).sort((a, b) => b.count - a.count);
+  }
+
+  async saveSkuAliasSuggestion(suggestion: SkuAliasSuggestion): Promise<void> {
+    this.writeLocalSkuSuggestions([...this.readLocalSkuSuggestions().filter(s => s.id !== suggestion.id), suggestion]);
+    const { error } = await supabase.from('sku_alias_suggestions').upsert({ id: suggestion.id, manufacturer_id: suggestion.manufacturerId, data: suggestion });
+    if (error) console.warn("SKU suggestion cloud sync failed", error);
+  }
+
+  async deleteSkuAliasSuggestion(id: string): Promise<void> {
+    this.writeLocalSkuSuggestions(this.readLocalSkuSuggestions().filter(s => s.id !== id));
+    const { error } = await supabase.from('sku_alias_suggestions').delete().eq('id', id);
+    if (error) console.warn("SKU suggestion cloud delete failed", error);
+  }
+
+  async recordSkuCorrection(manufacturerId: string, from: string, to: string): Promise<SkuAliasSuggestion> {
+    const existing = (await this.listSkuAliasSuggestions(manufacturerId)).find(s => s.from === from && s.to === to);
+    const now = new Date().toISOString();
+    const suggestion: SkuAliasSuggestion = existing
+        ? { ...existing, count: existing.count + 1, lastSeen: now }
+        : { id: crypto.randomUUID(), manufacturerId, from, to, count: 1, firstSeen: now, lastSeen: now, status: 'pending' };
+    await this.saveSkuAliasSuggestion(suggestion);
+    return suggestion;
+  }
+
+  // Legacy single-project entry points (kept for the /quote route without an id)
   async getActiveProject(): Promise<Project | null> {
     const activeId = localStorage.getItem('kabs_active_project_id');
     if (!activeId) return null;
-
-    // Try Local
-    const localProjectsStr = localStorage.getItem('kabs_local_projects');
-    if (localProjectsStr) {
-        const projects = JSON.parse(localProjectsStr);
-        const found = projects.find((p: Project) => p.id === activeId);
-        if (found) return found;
-    }
-    return null; 
+    return this.getProject(activeId);
   }
 
   async saveActiveProject(project: Project): Promise<void> {
     localStorage.setItem('kabs_active_project_id', project.id);
-    
-    // Local Update
-    const localProjectsStr = localStorage.getItem('kabs_local_projects');
-    let projects: Project[] = localProjectsStr ? JSON.parse(localProjectsStr) : [];
-    projects = [...projects.filter(p => p.id !== project.id), project];
-    
+    await this.saveProject(project);
+  }
+
+  // --- Extraction Cache ---
+  // Local copy is capped (extractions can be large); Supabase copy is opt-in via VITE_EXTRACTION_CACHE_CLOUD.
+
+  private readLocalExtractionCache(): ExtractionCacheEntry[] {
     try {
-        localStorage.setItem('kabs_local_projects', JSON.stringify(projects));
+        const str = localStorage.getItem('kabs_extraction_cache');
+        return str ? JSON.parse(str) : [];
     } catch (e) {
-        console.warn("Project local save failed (quota).");
+        console.warn("Extraction cache read failed", e);
+        return [];
     }
+  }
 
-    // Cloud Sync (Best Effort)
-    await supabase.from('projects').upsert({ id: project.id, data: project });
+  private useCloudExtractionCache(): boolean {
+    return import.meta.env.VITE_EXTRACTION_CACHE_CLOUD === 'true';
+  }
+
+  async getCachedExtraction(key: string): Promise<ExtractionCacheEntry | null> {
+    const local = this.readLocalExtractionCache().find(e => e.key === key);
+    if (local) return local;
+    if (!this.useCloudExtractionCache()) return null;
+
+    try {
+        const { data, error } = await supabase.from('extraction_cache').select('*').eq('id', key).maybeSingle();
+        if (!error && data?.data) {
+            this.writeLocalExtractionCache(data.data as ExtractionCacheEntry);
+            return data.data as ExtractionCacheEntry;
+        }
+    } catch (e) {
+        console.warn("Extraction cache cloud fetch failed", e);
+    }
+    return null;
+  }
+
+  private writeLocalExtractionCache(entry: ExtractionCacheEntry): void {
+    const MAX_LOCAL_ENTRIES = 20;
+    let entries = [entry, ...this.readLocalExtractionCache().filter(e => e.key !== entry.key)].slice(0, MAX_LOCAL_ENTRIES);
+    // On quota errors drop the oldest entries until it fits
+    while (entries.length > 0) {
+        try {
+            localStorage.setItem('kabs_extraction_cache', JSON.stringify(entries));
+            return;
+        } catch (e) {
+            entries = entries.slice(0, entries.length - 1);
+        }
+    }
+    console.warn("Extraction cache local save failed (quota).");
+  }
+
+  async saveCachedExtraction(entry: ExtractionCacheEntry): Promise<void> {
+    this.writeLocalExtractionCache(entry);
+    if (!this.useCloudExtractionCache()) return;
+
+    const { error } = await supabase.from('extraction_cache').upsert({ id: entry.key, data: entry });
+    if (error) console.warn("Extraction cache cloud sync failed", error);
   }
 
   // --- NKBA Rules ---
@@ -349,6 +604,48 @@ class StorageService {
      // Cloud Primary
      await supabaseAdmin.from('settings').upsert({ key: 'nkba_rules', value: rules });
   }
+
+  // --- Margin Floors ---
+  async getMarginFloors(): Promise<MarginFloor[]> {
+    const local = localStorage.getItem('kabs_local_margin_floors');
+    try {
+        const { data } = await supabase.from('settings').select('*').eq('key', 'margin_floors').single();
+        if (data && data.value) {
+            try { localStorage.setItem('kabs_local_margin_floors', JSON.stringify(data.value)); } catch (e) {}
+            return data.value;
+        }
+    } catch (e) {
+        console.warn("Margin floors cloud fetch failed", e);
+    }
+    return local ? JSON.parse(local) : [];
+  }
+
+  async saveMarginFloors(floors: MarginFloor[]): Promise<void> {
+     try { localStorage.setItem('kabs_local_margin_floors', JSON.stringify(floors)); } catch (e) {}
+     const { error } = await supabaseAdmin.from('settings').upsert({ key: 'margin_floors', value: floors });
+     if (error) throw error;
+  }
+
+  // --- Labor Rate Cards ---
+  async getLaborRateCards(): Promise<LaborRateCard[]> {
+    const local = localStorage.getItem('kabs_local_labor_rates');
+    try {
+        const { data } = await supabase.from('settings').select('*').eq('key', 'labor_rate_cards').single();
+        if (data && data.value) {
+            try { localStorage.setItem('kabs_local_labor_rates', JSON.stringify(data.value)); } catch (e) {}
+            return data.value;
+        }
+    } catch (e) {
+        console.warn("Labor rate cards cloud fetch failed", e);
+    }
+    return local ? JSON.parse(local) : [];
+  }
+
+  async saveLaborRateCards(cards: LaborRateCard[]): Promise<void> {
+     try { localStorage.setItem('kabs_local_labor_rates', JSON.stringify(cards)); } catch (e) {}
+     const { error } = await supabaseAdmin.from('settings').upsert({ key: 'labor_rate_cards', value: cards });
+     if (error) throw error;
+  }
 }
 
 export const storage = new StorageService();
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { PricingLineItem, Project } from "../types";
+import { aliasKey } from "./skuAliases";
+
+// --- Unmatched SKU Resolution ---
+// Finds priced lines that need an estimator's attention and ranks catalog SKUs that could
+// replace them. Lines still at $0 block PDF generation until resolved or overridden.
+
+export type LineMatchStatus = 'unmatched' | 'fallback' | 'ok';
+
+const NOT_FOUND_SOURCES = ['NOT FOUND', 'Not Found in Catalog'];
+const FALLBACK_PASSES = ['similar-keys', 'loose', 'global-prefix'];
+
+// Same split the Pricing step uses: everything except hardware, finishing and appliances
+export const isCabinetLine = (line: PricingLineItem): boolean =>
+    !['Appliance', 'Hardware', 'Finishing'].includes(line.type);
+
+export const getLineMatchStatus = (line: PricingLineItem): LineMatchStatus => {
+    if (line.source === 'Manual Override') return 'ok';
+    if (NOT_FOUND_SOURCES.includes(line.source)) return 'unmatched';
+    if (line.matchConfirmed) return 'ok';
+    const trace = line.matchTrace;
+    if (trace && (FALLBACK_PASSES.includes(trace.acceptedPass || '') || trace.usedFallbackTier)) return 'fallback';
+    return 'ok';
+};
+
+// $0 cabinet lines with no catalog match: these must not go out on a quote unnoticed
+export const getBlockingLines = (pricing: PricingLineItem[] = []): PricingLineItem[] =>
+    pricing.filter(line => isCabinetLine(line) && line.totalPrice === 0 && getLineMatchStatus(line) === 'unmatched');
+
+// The override only covers the codes that were unresolved when it was given
+export const isUnmatchedOverrideValid = (project: Project): boolean => {
+    const override = project.unmatchedOverride;
+    if (!override) return false;
+    return getBlockingLines(project.pricing).every(line => override.codes.includes(aliasKey(line.originalCode)));
+};
+
+// --- Candidate Ranking ---
+
+export interface SkuCandidate {
+    sku: string;
+    score: number; // Higher is better
+    distance: number; // Edit distance to the drawing code
+    reasons: string[];
+    prices: Record<string, number>; // Catalog row, for the preview
+}
+
+const levenshtein = (a: string, b: string): number => {
+    if (a === b) return 0;
+    let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const curr = [i];
+        for (let j = 1; j <= b.length; j++) {
+            curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+        }
+        prev = curr;
+    }
+    return prev[b.length];
+};
+
+// "W3036B" -> { prefix: "W", width: 30, height: 36 }; "B15-L" -> { prefix: "B", width: 15 }
+const parseSkuShape = (sku: string): { prefix: string; width?: number; height?: number } => {
+    const m = sku.match(/^([A-Z]+)(\d{2})(\d{2})?/);
+    if (!m) return { prefix: (sku.match(/^[A-Z]+/) || [''])[0] };
+    return { prefix: m[1], width: parseInt(m[2], 10), height: m[3] ? parseInt(m[3], 10) : undefined };
+};
+
+export const rankCatalogCandidates = (
+    line: PricingLineItem,
+    catalog: Record<string, Record<string, number>>,
+    limit: number = 8
+): SkuCandidate[] => {
+    const code = aliasKey(line.originalCode);
+    if (!code) return [];
+    const shape = parseSkuShape(code);
+    const width = line.width || shape.width;
+    const height = line.height || shape.height;
+
+    const scored: SkuCandidate[] = [];
+    Object.entries(catalog).forEach(([sku, prices]) => {
+        const key = aliasKey(sku);
+        const candidateShape = parseSkuShape(key);
+        const reasons: string[] = [];
+        let score = 0;
+
+        const distance = levenshtein(code, key);
+        score += Math.max(0, 10 - distance * 2);
+        if (distance <= 2) reasons.push(distance === 0 ? 'Same code' : `${distance} character${distance > 1 ? 's' : ''} different`);
+
+        if (shape.prefix && candidateShape.prefix === shape.prefix) {
+            score += 6;
+            reasons.push(`Same prefix ${shape.prefix}`);
+        } else if (shape.prefix && key.startsWith(shape.prefix)) {
+            score += 2;
+        }
+
+        if (width && candidateShape.width) {
+            const dw = Math.abs(candidateShape.width - width);
+            if (dw === 0) { score += 5; reasons.push(`Width ${width}"`); }
+            else if (dw <= 3) { score += 2; reasons.push(`Width ${candidateShape.width}" (±${dw})`); }
+        }
+        if (height && candidateShape.height) {
+            const dh = Math.abs(candidateShape.height - height);
+            if (dh === 0) { score += 3; reasons.push(`Height ${height}"`); }
+            else if (dh <= 3) { score += 1; reasons.push(`Height ${candidateShape.height}" (±${dh})`); }
+        }
+
+        if (score >= 6) scored.push({ sku, score, distance, reasons, prices });
+    });
+
+    return scored
+        .sort((a, b) => b.score - a.score || a.distance - b.distance || a.sku.localeCompare(b.sku))
+        .slice(0, limit);
+};
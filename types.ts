@@ -23,6 +23,14 @@ export interface CabinetItem {
   sourcePage?: number; // Page number where the item was found
   isManual?: boolean; // Flag for manually added items
   modifications?: CabinetModification[]; // Add-ons like Skins, Depth changes
+  validationIssues?: string[]; // Fix-ups applied while validating the AI response (shown in Review)
+
+  // Extraction confidence (see services/confidence.ts)
+  aiConfidence?: number; // 0-1, as self-reported by the model
+  extractedType?: CabinetType; // Type the AI gave, before the NKBA rule override
+  confidence?: number; // 0-1 combined score
+  confidenceReasons?: string[];
+  reviewed?: boolean; // Estimator checked it; drops out of the "needs review" queue
 }
 
 export interface PricingTier {
@@ -60,6 +68,25 @@ export interface ManufacturerOption {
   sourceSheet?: string; 
   collection?: string; // NEW: Parent Collection (e.g. "Elite", "Premium")
   availability?: string; // "Yes", "No", or specific wood types like "Maple"
+  appliesTo?: OptionApplicability; // Unset = defaults from the name and section (see services/optionApplicability.ts)
+  chargeBasis?: OptionChargeBasis; // Fixed options only; default 'per-unit'
+  constraints?: OptionConstraints; // Enforced in Specs and by the pricing engine (see services/optionConstraints.ts)
+}
+
+export interface OptionConstraints {
+  requires?: string[]; // Option names that must also be selected
+  excludes?: string[]; // Option names it can't be combined with
+  onlyWithSpecies?: string[]; // Wood species it is offered for (overrides `availability`)
+  onlyWithDoorStyles?: string[];
+}
+
+export type OptionChargeBasis = 'per-unit' | 'per-line' | 'per-order';
+
+export interface OptionApplicability {
+  cabinetTypes?: CabinetType[]; // Empty = every cabinet type (Hardware, Appliance and Finishing must be listed)
+  skuPatterns?: string[]; // Prefix patterns on the catalog SKU, "*" = anything, "!" = exclude (e.g. "W", "SB*", "!BF")
+  minWidth?: number; // Inches, inclusive
+  maxWidth?: number;
 }
 
 export interface CabinetSeries {
@@ -92,6 +119,83 @@ export interface Manufacturer {
   skuCount?: number; 
   dealerName?: string; // NEW: Associate manufacturer with a dealer
   files: ManufacturerFile[];
+  skuAliases?: SkuAlias[]; // Drawing code -> catalog SKU crosswalk, checked before any fuzzy matching
+  skuRewriteRules?: SkuRewriteRule[];
+  freight?: FreightTable; // Estimates shipping and fuel on quotes (see services/freight.ts)
+}
+
+export type FreightMethod = 'flat' | 'per-cube' | 'per-box';
+
+// Extra charge for deliveries to zips starting with `zipPrefix` (longest prefix wins)
+export interface FreightZone {
+  zipPrefix: string;
+  surcharge: number; // Dollar Amount
+  label?: string;
+}
+
+export interface FreightTable {
+  method: FreightMethod;
+  rate: number; // $ per order, per cubic foot or per box, depending on `method`
+  minimumCharge?: number;
+  freeOverAmount?: number; // Products net total at which the base freight is waived
+  fuelSurchargePct?: number; // Percentage of the freight charge
+  poundsPerCubicFoot?: number; // For the weight estimate (default 9)
+  zones?: FreightZone[];
+}
+
+// Exact crosswalk entry, e.g. a designer's "DHW24" is this manufacturer's "DW24"
+export interface SkuAlias {
+  id: string;
+  from: string;
+  to: string;
+  note?: string;
+}
+
+// Learned from estimators correcting codes in the Pricing step. Offered on future quotes
+// until an admin promotes it to a SkuAlias (and it is removed) or rejects it.
+export interface SkuAliasSuggestion {
+  id: string;
+  manufacturerId: string;
+  from: string;
+  to: string;
+  count: number; // Times an estimator made (or accepted) this correction
+  firstSeen: string;
+  lastSeen: string;
+  status: 'pending' | 'rejected';
+}
+
+// Regex rewrite applied (in order) to drawing codes that have no alias, e.g. ^(SB\d+)BUTT$ -> $1-BUTT
+export interface SkuRewriteRule {
+  id: string;
+  pattern: string;
+  replacement: string;
+  enabled: boolean;
+  note?: string;
+}
+
+// --- SKU Match Trace ---
+// Every catalog lookup calculateProjectPricing tried for a line, in order, so the Pricing step can
+// explain why e.g. B15 priced as B15-L.
+export type MatchPass = 'alias' | 'original' | 'exact-keys' | 'similar-keys' | 'loose' | 'global-prefix' | 'extracted-price';
+
+export interface MatchTraceStep {
+  pass: MatchPass;
+  key: string; // Candidate SKU as tried
+  accepted: boolean;
+  reason: string;
+}
+
+export type TierResolution = 'direct' | 'fuzzy' | 'single-column' | 'generic' | 'blind';
+
+export interface MatchTrace {
+  steps: MatchTraceStep[];
+  acceptedPass?: MatchPass; // Undefined when nothing matched
+  matchedSku?: string;
+  method?: string; // How findCatalogPrice matched the key (Exact, Hyphen-Insensitive, Neighbor, ...)
+  requestedTier: string;
+  tierColumn?: string; // Catalog column the price was read from
+  tierResolution?: TierResolution;
+  usedFallbackTier: boolean; // Price came from a column other than the requested tier
 }
 
 export interface PricingLineItem extends CabinetItem {
@@ -104,7 +208,9 @@ export interface PricingLineItem extends CabinetItem {
   
   // Sell Side
   finalUnitPrice: number; // unitCost / (1 - Margin)
-  totalPrice: number; // finalUnitPrice * Quantity
+  totalPrice: number; // finalUnitPrice * Quantity + lineCharge
+  lineCharge?: number; // Sell price of once-per-line options, charged on the line rather than per unit
+  lineChargeCost?: number; // Cost side of lineCharge
   
   tierName: string;
   source: string;
@@ -113,6 +219,8 @@ export interface PricingLineItem extends CabinetItem {
   // Audit
   pricingFactor: number; // The factor used (Global or Room)
   margin: number; // The margin used
+  matchTrace?: MatchTrace;
+  matchConfirmed?: boolean; // Estimator accepted a fallback match as correct in the unmatched workbench
 }
 
 export interface ProjectSpecs {
@@ -178,6 +286,71 @@ export interface ProjectFinancials {
   categoryMargins?: Record<string, number>; // Per-Series/Level margins
   
   manufacturerUpcharge?: number; // % Upcharge on List
+
+  freightManual?: boolean; // Shipping and fuel were typed in, so the freight estimate no longer fills them
+
+  taxJurisdiction?: TaxJurisdiction; // Resolved from the delivery address (see services/salesTax.ts)
+  taxManual?: boolean; // Tax rate was typed in, so the delivery address no longer sets it
+  taxExempt?: boolean;
+  taxExemptCertificate?: string; // Resale / exemption certificate number, printed on the quote
+
+  labor?: ProjectLabor; // Installation and services, when the dealer is installing
+}
+
+// Installer pricing for a dealer's jobs. Priced from the quote's lines (see services/labor.ts).
+export interface LaborRateCard {
+  id: string;
+  name: string;
+  dealerName?: string; // Unset = available to every dealer
+  perBox: number; // $ per cabinet box (Base, Wall, Tall, Vanity)
+  perLinearFoot: number; // $ per linear foot of cabinet width
+  minimumCharge?: number; // Installation (boxes + special items) is never quoted under this
+  specialItems: LaborSpecialRate[];
+  services: LaborServiceRate[];
+}
+
+// Crown, light rail, panels... Matched on SKU prefix before the per-box rate applies.
+export interface LaborSpecialRate {
+  id: string;
+  label: string;
+  codePrefixes: string[]; // e.g. ["CM", "CROWN"]
+  types?: CabinetType[]; // Also matches every line of these types (e.g. Panel)
+  rate: number;
+  unit: 'each' | 'linear-foot';
+}
+
+// Optional extras picked per quote (demo, haul-away, delivery)
+export interface LaborServiceRate {
+  id: string;
+  label: string;
+  rate: number;
+  unit: 'flat' | 'per-box';
+}
+
+export interface LaborLine {
+  key: string; // 'boxes', 'linear-feet', 'special:<id>', 'service:<id>' or 'minimum'
+  label: string;
+  quantity: number;
+  unit: 'box' | 'lin ft' | 'each' | 'flat';
+  rate: number; // Dollar Amount per unit
+  total: number; // Dollar Amount, whole cents
+}
+
+export interface ProjectLabor {
+  rateCardId: string;
+  serviceIds: string[];
+  lines: LaborLine[]; // Rebuilt whenever the quote is repriced
+}
+
+export type TaxCategory = 'cabinets' | 'hardware' | 'freight' | 'labor';
+
+// State + local rate and what they apply to, as of when the delivery address was entered
+export interface TaxJurisdiction {
+  state: string; // Two-letter code
+  label: string; // e.g. "California - Los Angeles County"
+  stateRate: number; // Percentage
+  localRate: number; // Percentage
+  taxable: Record<TaxCategory, boolean>;
 }
 
 export interface ContactDetails {
@@ -194,13 +367,43 @@ export interface DealerDetails extends ContactDetails {
     contactPerson?: string;
 }
 
+export type ProjectStatus = 'Draft' | 'Quoted' | 'Ordered';
+
+// Where the project's items came from (last upload)
+export interface ExtractionMeta {
+  fileName: string;
+  fileHash: string; // SHA-256 of the uploaded file
+  provider: string;
+  model: string;
+  promptVersion: string;
+  analyzedAt: string; // When the analysis actually ran (not when it was served from cache)
+  fromCache: boolean;
+}
+
+export interface ExtractionCacheEntry {
+  key: string; // fileHash + provider + prompt version + NKBA rules
+  fileHash: string;
+  fileName: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+  createdAt: string;
+  items: CabinetItem[];
+  specs: ProjectSpecs;
+  issues: string[];
+}
+
 export interface Project {
   id: string;
   name: string;
   clientName: string;
   dateCreated: string;
-  status: 'Draft' | 'Quoted' | 'Ordered';
+  lastModified?: string; // Stamped by storage on every save
+  status: ProjectStatus;
+  archived?: boolean; // Hidden from the default Home list, kept for reference
   items: CabinetItem[];
+  extractionIssues?: string[]; // Response-level problems from the last AI extraction (truncation, dropped items)
+  extractionMeta?: ExtractionMeta;
   specs?: ProjectSpecs;
   roomSpecs?: Record<string, ProjectSpecs>; // NEW: Per-Room Specs
   manufacturerId?: string;
@@ -212,6 +415,76 @@ export interface Project {
   customerDetails?: ContactDetails;
   dealerDetails?: DealerDetails;
   deliveryDetails?: ContactDetails; // Reusing ContactDetails for structure
+
+  // PDF generation despite unresolved $0 cabinet lines. Only covers the codes listed.
+  unmatchedOverride?: { at: string; reason: string; codes: string[] };
+
+  scenarios?: PricingScenario[]; // Alternate Good/Better/Best pricings of the same item list
+
+  // Admin sign-off for sending a quote under its margin floor. Only covers margins at or above `marginPct`.
+  marginApproval?: MarginApproval;
+}
+
+export interface MarginApproval {
+  approvedBy: string;
+  approvedAt: string;
+  reason: string;
+  marginPct: number; // Lowest margin on the quote when approved
+  floorPct: number; // Floor it was under
+  issueKeys?: string[]; // Issues it covers (see services/marginGuard.ts). Older approvals without them cover nothing.
+}
+
+// Minimum gross margin (after dealer discount). Blank fields match anything; the most
+// specific matching floor wins (tier > manufacturer > dealer > everyone).
+export interface MarginFloor {
+  id: string;
+  dealerName?: string;
+  manufacturerId?: string;
+  tierName?: string;
+  minMargin: number; // Percentage (e.g. 25 for 25%)
+}
+
+// A named alternative pricing of the project's items (e.g. "Better: Elite, painted").
+// Holds its own specs, tier and financials; `pricing` is the result of the last run.
+export interface PricingScenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  specs?: ProjectSpecs;
+  roomSpecs?: Record<string, ProjectSpecs>;
+  selectedTierId?: string;
+  financials?: ProjectFinancials;
+  pricing?: PricingLineItem[];
+  pricedAt?: string;
+  pricingError?: string; // Why the last run failed (e.g. an invalid option combination)
+}
+
+// Immutable point-in-time copy of the priced quote. Never edited after creation.
+export interface QuoteRevision {
+  id: string;
+  projectId: string;
+  revisionNumber: number; // 1-based, sequential per project
+  createdAt: string;
+  trigger: 'pdf' | 'manual'; // What created the revision
+  note?: string;
+  grandTotal: number; // Total as quoted at the time (after discount, tax, freight, etc.)
+  snapshot: {
+    items: CabinetItem[];
+    specs?: ProjectSpecs;
+    roomSpecs?: Record<string, ProjectSpecs>;
+    financials?: ProjectFinancials;
+    pricing?: PricingLineItem[];
+    selectedTierId?: string;
+    manufacturerId?: string;
+  };
+}
+
+// Per-page state reported by analyzePlan while a document is being extracted
+export interface PageProgress {
+  pageNumber: number;
+  status: 'pending' | 'running' | 'retrying' | 'done' | 'failed';
+  mode?: 'text' | 'image'; // Text layer vs rendered scan
+  itemCount?: number;
 }
 
 export interface QuotationState {
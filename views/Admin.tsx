@@ -2,7 +2,13 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Trash2, Plus, Upload, FileSpreadsheet, FileText, AlertTriangle, CheckCircle, RefreshCw, X, Loader2, Database, Image as ImageIcon, Settings2, Sparkles, ArrowLeft, Building2 } from 'lucide-react';
 import { Button } from '../components/Button';
-import { Manufacturer, ManufacturerFile, NKBARules, PricingTier, ManufacturerOption, CabinetSeries, WorkbookSection } from '../types';
+import { OptionRulesEditor } from '../components/OptionRulesEditor';
+import { SkuAliasEditor } from '../components/SkuAliasEditor';
+import { SkuSuggestionReview } from '../components/SkuSuggestionReview';
+import { MarginFloorsEditor } from '../components/MarginFloorsEditor';
+import { LaborRateCardsEditor } from '../components/LaborRateCardsEditor';
+import { FreightTableEditor } from '../components/FreightTableEditor';
+import { Manufacturer, ManufacturerFile, NKBARules, PricingTier, ManufacturerOption, CabinetSeries, WorkbookSection, SkuAliasSuggestion, MarginFloor, FreightTable, LaborRateCard } from '../types';
 import { storage } from '../services/storage';
 import { determineExcelStructure, extractManufacturerSpecs } from '../services/ai';
 import { normalizeNKBACode } from '../services/pricingEngine';
@@ -131,6 +137,20 @@ export const Admin: React.FC = () => {
       } catch (e) { return null; }
   });
   
+  const [marginFloors, setMarginFloors] = useState<MarginFloor[]>(() => {
+      try {
+          const local = localStorage.getItem('kabs_local_margin_floors');
+          return local ? JSON.parse(local) : [];
+      } catch (e) { return []; }
+  });
+
+  const [laborRateCards, setLaborRateCards] = useState<LaborRateCard[]>(() => {
+      try {
+          const local = localStorage.getItem('kabs_local_labor_rates');
+          return local ? JSON.parse(local) : [];
+      } catch (e) { return []; }
+  });
+
   // UI State
   const [showAddModal, setShowAddModal] = useState(false);
   const [newMfgName, setNewMfgName] = useState('');
@@ -168,13 +188,17 @@ export const Admin: React.FC = () => {
         // Data is already initially populated from localStorage in useState logic above.
         // We now fetch fresh data to sync.
         try {
-            const [mfgList, rules] = await Promise.all([
+            const [mfgList, rules, floors, laborCards] = await Promise.all([
                 storage.getManufacturers(),
-                storage.getNKBARules()
+                storage.getNKBARules(),
+                storage.getMarginFloors(),
+                storage.getLaborRateCards()
             ]);
             // Update state (and re-render) only if we got data
             if (mfgList) setManufacturers(mfgList);
             if (rules) setNkbaRules(rules);
+            setMarginFloors(floors);
+            setLaborRateCards(laborCards);
         } catch (e) {
             console.error("Failed to sync admin data", e);
         }
@@ -266,6 +290,49 @@ export const Admin: React.FC = () => {
     }
   };
 
+  const handleSaveAliases = async (updates: Pick<Manufacturer, 'skuAliases' | 'skuRewriteRules'>) => {
+    if (!managingMfg) return;
+    const updatedMfg: Manufacturer = { ...managingMfg, ...updates };
+    await storage.saveManufacturerMetadata(updatedMfg);
+    setManagingMfg(updatedMfg);
+    setManufacturers(prev => prev.map(m => m.id === updatedMfg.id ? updatedMfg : m));
+  };
+
+  const handleSaveOptionRules = async (options: ManufacturerOption[]) => {
+    if (!managingMfg) return;
+    const updatedMfg: Manufacturer = { ...managingMfg, options };
+    await storage.saveManufacturerMetadata(updatedMfg);
+    setManagingMfg(updatedMfg);
+    setManufacturers(prev => prev.map(m => m.id === updatedMfg.id ? updatedMfg : m));
+  };
+
+  const handleSaveFreight = async (freight: FreightTable | undefined) => {
+    if (!managingMfg) return;
+    const updatedMfg: Manufacturer = { ...managingMfg, freight };
+    await storage.saveManufacturerMetadata(updatedMfg);
+    setManagingMfg(updatedMfg);
+    setManufacturers(prev => prev.map(m => m.id === updatedMfg.id ? updatedMfg : m));
+  };
+
+  const handleSaveMarginFloors = async (floors: MarginFloor[]) => {
+    await storage.saveMarginFloors(floors);
+    setMarginFloors(floors);
+  };
+
+  const handleSaveLaborRateCards = async (cards: LaborRateCard[]) => {
+    await storage.saveLaborRateCards(cards);
+    setLaborRateCards(cards);
+  };
+
+  const handlePromoteSuggestion = async (suggestion: SkuAliasSuggestion) => {
+    if (!managingMfg) return;
+    const aliases = (managingMfg.skuAliases || []).filter(a => a.from !== suggestion.from);
+    await handleSaveAliases({
+        skuAliases: [...aliases, { id: crypto.randomUUID(), from: suggestion.from, to: suggestion.to, note: `Learned from ${suggestion.count} estimator correction(s)` }],
+        skuRewriteRules: managingMfg.skuRewriteRules || []
+    });
+  };
+
   const readFileAsBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -820,6 +887,18 @@ export const Admin: React.FC = () => {
           )}
         </div>
 
+        <MarginFloorsEditor
+          floors={marginFloors}
+          manufacturers={manufacturers}
+          onSave={handleSaveMarginFloors}
+        />
+
+        <LaborRateCardsEditor
+          cards={laborRateCards}
+          manufacturers={manufacturers}
+          onSave={handleSaveLaborRateCards}
+        />
+
         {/* NKBA Rules Section */}
         <div className="bg-white rounded-xl border border-slate-200 shadow-sm p-6">
            <h2 className="font-semibold text-slate-800 mb-4">NKBA Rules Management</h2>
@@ -995,6 +1074,14 @@ export const Admin: React.FC = () => {
                     {(!managingMfg.files?.some(f => f.type === 'spec')) && <p className="text-sm text-slate-400 italic">No spec books uploaded.</p>}
                  </div>
               </section>
+
+              <OptionRulesEditor manufacturer={managingMfg} onSave={handleSaveOptionRules} />
+
+              <FreightTableEditor manufacturer={managingMfg} onSave={handleSaveFreight} />
+
+              <SkuAliasEditor manufacturer={managingMfg} onSave={handleSaveAliases} />
+
+              <SkuSuggestionReview manufacturer={managingMfg} onPromote={handlePromoteSuggestion} />
             </div>
           </div>
         </div>
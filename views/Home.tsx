@@ -1,49 +1,116 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { FileText, PenTool, ArrowRight } from 'lucide-react';
+import { FileText, PenTool, ArrowRight, Search, Copy, Archive, ArchiveRestore, Trash2, FolderOpen, Loader2 } from 'lucide-react';
 import { Button } from '../components/Button';
 import { storage } from '../services/storage';
+import { Project, ProjectStatus } from '../types';
+
+const STATUS_FILTERS: ('All' | ProjectStatus)[] = ['All', 'Draft', 'Quoted', 'Ordered'];
+
+const STATUS_STYLES: Record<ProjectStatus, string> = {
+  Draft: 'bg-slate-100 text-slate-600 border-slate-200',
+  Quoted: 'bg-blue-50 text-blue-700 border-blue-100',
+  Ordered: 'bg-green-50 text-green-700 border-green-100',
+};
 
 export const Home: React.FC = () => {
   const navigate = useNavigate();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isLoadingProjects, setIsLoadingProjects] = useState(true);
+  const [search, setSearch] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'All' | ProjectStatus>('All');
+  const [showArchived, setShowArchived] = useState(false);
+
+  useEffect(() => {
+    const loadProjects = async () => {
+        const list = await storage.listProjects();
+        setProjects(list);
+        setIsLoadingProjects(false);
+    };
+    loadProjects();
+  }, []);
+
+  const visibleProjects = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return projects.filter(p => {
+        if (!!p.archived !== showArchived) return false;
+        if (statusFilter !== 'All' && p.status !== statusFilter) return false;
+        if (!q) return true;
+        return [p.name, p.clientName, p.customerDetails?.name, p.specs?.manufacturer, p.id]
+            .some(v => (v || '').toLowerCase().includes(q));
+    });
+  }, [projects, search, statusFilter, showArchived]);
 
   const handleStartQuote = async () => {
     // Initialize new project
+    const id = crypto.randomUUID();
     await storage.saveActiveProject({
-      id: crypto.randomUUID(),
+      id,
       name: 'New Kitchen Quote',
       clientName: 'Unknown Client',
       dateCreated: new Date().toISOString(),
       status: 'Draft',
       items: []
     });
-    navigate('/quote');
+    navigate(`/quote/${id}`);
   };
 
+  const handleDuplicate = async (project: Project) => {
+    const copy: Project = {
+      ...JSON.parse(JSON.stringify(project)),
+      id: crypto.randomUUID(),
+      name: `${project.name} (Copy)`,
+      dateCreated: new Date().toISOString(),
+      status: 'Draft',
+      archived: false
+    };
+    const saved = await storage.saveProject(copy);
+    setProjects(prev => [saved, ...prev]);
+  };
+
+  const handleToggleArchive = async (project: Project) => {
+    const saved = await storage.saveProject({ ...project, archived: !project.archived });
+    setProjects(prev => prev.map(p => p.id === saved.id ? saved : p));
+  };
+
+  const handleStatusChange = async (project: Project, status: ProjectStatus) => {
+    const saved = await storage.saveProject({ ...project, status });
+    setProjects(prev => prev.map(p => p.id === saved.id ? saved : p));
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!window.confirm(`Delete "${project.name}" permanently? This cannot be undone.`)) return;
+    await storage.deleteProject(project.id);
+    setProjects(prev => prev.filter(p => p.id !== project.id));
+  };
+
+  const getProjectTotal = (project: Project) =>
+    (project.pricing || []).reduce((sum, i) => sum + (i.totalPrice || 0), 0);
+
   return (
-    <div className="flex flex-col items-center justify-center py-20 text-center space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
-      <div className="space-y-4 max-w-2xl">
+    <div className="flex flex-col items-center py-12 space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-700">
+      <div className="space-y-4 max-w-2xl text-center">
         <h1 className="text-5xl font-extrabold text-slate-900 tracking-tight">
           Professional Cabinet Quotation
           <span className="block text-brand-600">Automated by AI.</span>
         </h1>
         <p className="text-xl text-slate-500">
-          KABS transforms PDF drawings into manufacturer-ready quotes in seconds. 
+          KABS transforms PDF drawings into manufacturer-ready quotes in seconds.
           Zero manual entry. 100% compliant.
         </p>
       </div>
 
       <div className="flex flex-col sm:flex-row gap-4 w-full max-w-md">
-        <Button 
-          size="lg" 
-          className="flex-1 gap-2 shadow-xl shadow-brand-500/20" 
+        <Button
+          size="lg"
+          className="flex-1 gap-2 shadow-xl shadow-brand-500/20"
           onClick={handleStartQuote}
         >
           <FileText className="w-5 h-5" />
           Quotation AI
           <ArrowRight className="w-4 h-4" />
         </Button>
-        
+
         <Link to="/design-ai" className="flex-1">
           <Button variant="outline" size="lg" className="w-full gap-2">
             <PenTool className="w-5 h-5" />
@@ -52,7 +119,83 @@ export const Home: React.FC = () => {
         </Link>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mt-16 text-left max-w-4xl w-full">
+      {/* --- PROJECT LIST --- */}
+      <div className="w-full max-w-5xl bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden text-left">
+        <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <h2 className="font-semibold text-slate-800">{showArchived ? 'Archived Projects' : 'Projects'}</h2>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <div className="relative">
+              <Search className="w-4 h-4 text-slate-400 absolute left-3 top-2.5" />
+              <input
+                className="pl-9 pr-3 py-2 border border-slate-300 rounded-lg text-sm w-full sm:w-64 focus:ring-2 focus:ring-brand-500 outline-none"
+                placeholder="Search name, client, manufacturer..."
+                value={search}
+                onChange={e => setSearch(e.target.value)}
+              />
+            </div>
+            <select
+              className="p-2 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none"
+              value={statusFilter}
+              onChange={e => setStatusFilter(e.target.value as 'All' | ProjectStatus)}
+            >
+              {STATUS_FILTERS.map(s => <option key={s} value={s}>{s === 'All' ? 'All Statuses' : s}</option>)}
+            </select>
+            <Button variant="ghost" size="sm" className="h-auto py-2 gap-1" onClick={() => setShowArchived(!showArchived)}>
+              {showArchived ? <><FolderOpen className="w-4 h-4" /> Active</> : <><Archive className="w-4 h-4" /> Archived</>}
+            </Button>
+          </div>
+        </div>
+
+        {isLoadingProjects ? (
+          <div className="p-12 flex justify-center"><Loader2 className="w-6 h-6 animate-spin text-brand-600" /></div>
+        ) : visibleProjects.length === 0 ? (
+          <div className="p-12 text-center text-sm text-slate-400">
+            {projects.length === 0 ? 'No projects yet. Start a new quote above.' : 'No projects match the current filters.'}
+          </div>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {visibleProjects.map(project => (
+              <div key={project.id} className="px-6 py-4 flex flex-col md:flex-row md:items-center justify-between gap-4 hover:bg-slate-50 transition-colors">
+                <button type="button" className="flex-1 text-left" onClick={() => navigate(`/quote/${project.id}`)}>
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold text-slate-900">{project.name}</span>
+                    <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full border ${STATUS_STYLES[project.status] || STATUS_STYLES.Draft}`}>{project.status}</span>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500 mt-1">
+                    <span>{project.customerDetails?.name || project.clientName}</span>
+                    {project.specs?.manufacturer && <span>{project.specs.manufacturer}</span>}
+                    <span>{project.items.length} items</span>
+                    {getProjectTotal(project) > 0 && <span className="font-medium text-slate-700">${getProjectTotal(project).toLocaleString(undefined, {minimumFractionDigits: 2})}</span>}
+                    <span>Updated {new Date(project.lastModified || project.dateCreated).toLocaleDateString()}</span>
+                  </div>
+                </button>
+                <div className="flex items-center gap-1">
+                  <select
+                    className="p-1.5 border border-slate-200 rounded-lg text-xs bg-white focus:ring-2 focus:ring-brand-500 outline-none mr-1"
+                    value={project.status}
+                    onChange={e => handleStatusChange(project, e.target.value as ProjectStatus)}
+                    title="Project Status"
+                  >
+                    {STATUS_FILTERS.filter(s => s !== 'All').map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                  <Button variant="outline" size="sm" onClick={() => navigate(`/quote/${project.id}`)}>Open</Button>
+                  <button type="button" onClick={() => handleDuplicate(project)} className="p-2 text-slate-400 hover:text-brand-600 hover:bg-brand-50 rounded-lg" title="Duplicate Project">
+                    <Copy className="w-4 h-4" />
+                  </button>
+                  <button type="button" onClick={() => handleToggleArchive(project)} className="p-2 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-lg" title={project.archived ? 'Restore Project' : 'Archive Project'}>
+                    {project.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                  </button>
+                  <button type="button" onClick={() => handleDelete(project)} className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg" title="Delete Project">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mt-8 text-left max-w-4xl w-full">
         <div className="p-6 bg-white rounded-xl border border-slate-200 shadow-sm">
           <div className="w-10 h-10 bg-brand-100 text-brand-600 rounded-lg flex items-center justify-center mb-4 font-bold">1</div>
           <h3 className="font-bold text-slate-900 mb-2">Upload Drawing</h3>
@@ -71,4 +214,4 @@ export const Home: React.FC = () => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -19,6 +19,7 @@ export const Login: React.FC = () => {
     setTimeout(() => {
       if (username === 'admin' && password === 'admin123') {
         sessionStorage.setItem('kabs_is_admin', 'true');
+        sessionStorage.setItem('kabs_admin_user', username); // Recorded on approvals
         navigate('/admin');
       } else {
         setError('Invalid credentials. Access denied.');
@@ -1,17 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useParams } from 'react-router-dom';
 import { 
   UploadCloud, CheckCircle2, ChevronRight, FileOutput, 
   Settings2, DollarSign, Printer, ArrowRight, AlertCircle, Edit2, AlertTriangle, Info,
   ArrowLeft, Layers, Package, RefreshCw, AlertOctagon, Check, Tags, PenTool, Database, Server, Link2, DownloadCloud, FileText,
-  PaintBucket, Hammer, Shield, Grid3X3, Trash2, Calculator, Truck, User, Building2, MapPin, Plus
+  PaintBucket, Hammer, Shield, Grid3X3, Trash2, Calculator, Truck, User, Building2, MapPin, Plus, History, Sparkles, SearchX, Columns3, Scale, ShieldAlert, Receipt, HardHat
 } from 'lucide-react';
 import { Button } from '../components/Button';
+import { RevisionHistory } from '../components/RevisionHistory';
+import { SourcePageViewer } from '../components/SourcePageViewer';
+import { MatchTracePanel } from '../components/MatchTracePanel';
+import { UnmatchedWorkbench } from '../components/UnmatchedWorkbench';
+import { ScenarioComparison } from '../components/ScenarioComparison';
+import { ManufacturerComparison } from '../components/ManufacturerComparison';
+import { aliasKey, findSkuSuggestion } from '../services/skuAliases';
 import { STEPS } from '../constants';
-import { CabinetItem, Project, PricingLineItem, Manufacturer, CabinetType, ManufacturerOption, ProjectFinancials, ContactDetails, DealerDetails, ProjectSpecs } from '../types';
+import { CabinetItem, Project, PricingLineItem, Manufacturer, CabinetType, ManufacturerOption, ProjectFinancials, ContactDetails, DealerDetails, ProjectSpecs, PageProgress, SkuAliasSuggestion, PricingScenario, MarginFloor, LaborRateCard, ProjectLabor } from '../types';
 import { storage } from '../services/storage';
 import { calculateProjectPricing, normalizeNKBACode } from '../services/pricingEngine';
 import { analyzePlan } from '../services/ai';
+import { applyConfidence, needsReview } from '../services/confidence';
+import { getBlockingLines, getLineMatchStatus, isUnmatchedOverrideValid } from '../services/unmatchedSkus';
+import { findConstraintViolations, getOptionConflicts, OptionConstraintError } from '../services/optionConstraints';
+import { extendPrice, formatCents, fromCents, roundMoney, toCents } from '../services/money';
+import { computeQuoteTotals, getQuotedLines, getQuoteRoom, GENERAL_ROOM, sumLineTotals } from '../services/quoteTotals';
+import { compareScenarios, describeScenario, priceScenario, scenarioToProjectUpdates } from '../services/scenarios';
+import { checkMargins, isMarginApprovalValid, MarginCheck, needsMarginApproval } from '../services/marginGuard';
+import { applyFreightEstimate, estimateProjectFreight } from '../services/freight';
+import { applySalesTax, describeTaxBasis, jurisdictionRate } from '../services/salesTax';
+import { applyLabor, buildLaborLines, findLaborRateCards } from '../services/labor';
+import { ExtractionProviderId, EXTRACTION_PROVIDERS, PROVIDER_LABELS, getDefaultProviderId } from '../services/extractionProviders';
 import { jsPDF } from 'jspdf';
 import autoTable from 'jspdf-autotable';
 
@@ -49,7 +67,7 @@ const SpecField = ({ label, value, onChange, type = 'text', options = [] }: any)
                     <option value="">Select...</option>
                     {options.map((opt: any) => (
                         typeof opt === 'object' ? 
-                        <option key={opt.id || opt.value} value={opt.value || opt.name}>{opt.label || opt.name}</option> :
+                        <option key={opt.id || opt.value} value={opt.value || opt.name} disabled={opt.disabled} title={opt.title}>{opt.label || opt.name}</option> :
                         <option key={opt} value={opt}>{opt}</option>
                     ))}
                 </select>
@@ -87,6 +105,7 @@ const DebouncedInput = ({ value, onChange, className, type = "text", ...props }:
 
 export const QuotationFlow: React.FC = () => {
   const navigate = useNavigate();
+  const { projectId } = useParams<{ projectId: string }>();
   const [step, setStep] = useState(0); 
   const [project, setProject] = useState<Project | null>(null);
   const [isLoading, setIsLoading] = useState(false);
@@ -126,7 +145,8 @@ export const QuotationFlow: React.FC = () => {
 
   useEffect(() => {
     const loadData = async () => {
-        const proj = await storage.getActiveProject();
+        // Deep link (/quote/:projectId) wins; bare /quote falls back to the last active project
+        const proj = projectId ? await storage.getProject(projectId) : await storage.getActiveProject();
         if (!proj) {
             navigate('/');
             return;
@@ -143,7 +163,21 @@ export const QuotationFlow: React.FC = () => {
         setManufacturers(m);
     }
     loadData();
-  }, [navigate]);
+  }, [navigate, projectId]);
+
+  const [marginFloors, setMarginFloors] = useState<MarginFloor[]>([]);
+  const [marginApprovalReason, setMarginApprovalReason] = useState('');
+  const isAdminLoggedIn = !!sessionStorage.getItem('kabs_is_admin');
+
+  useEffect(() => {
+      storage.getMarginFloors().then(setMarginFloors);
+  }, []);
+
+  const [laborRateCards, setLaborRateCards] = useState<LaborRateCard[]>([]);
+
+  useEffect(() => {
+      storage.getLaborRateCards().then(setLaborRateCards);
+  }, []);
 
   useEffect(() => {
       // Auto-fill Delivery with Customer if empty when Customer changes
@@ -161,9 +195,17 @@ export const QuotationFlow: React.FC = () => {
 
   const updateProject = async (updates: Partial<Project>) => {
     if (!project) return;
-    const updated = { ...project, ...updates };
+    let updated = { ...project, ...updates };
+    // Install lines follow the quoted lines, whichever edit changed them
+    if (updates.pricing && !updates.financials && updated.financials?.labor) {
+        const newFin = applyLabor(updates.pricing, laborRateCards, updated.financials);
+        updated = { ...updated, financials: newFin };
+        setFinancials(newFin);
+    }
     setProject(updated);
-    await storage.saveActiveProject(updated);
+    const saved = await storage.saveProject(updated);
+    // Keep the saved lastModified, unless another edit has landed since
+    setProject(current => current === updated ? saved : current);
   };
 
   const recalculateAllPricing = async (
@@ -192,23 +234,72 @@ export const QuotationFlow: React.FC = () => {
       
       // We need to re-run the pricing engine for ALL items
       // This ensures Factor and Margin changes propagate
-      const newPricing = calculateProjectPricing(currentItems, mfg, tierId, effectiveSpecs, currentFinancials, effectiveRoomSpecs);
+      let newPricing: PricingLineItem[];
+      try {
+          newPricing = calculateProjectPricing(currentItems, mfg, tierId, effectiveSpecs, currentFinancials, effectiveRoomSpecs);
+      } catch (err) {
+          if (!(err instanceof OptionConstraintError)) throw err;
+          // Keep the selection so Specs can flag it; prices stay as they were until it's fixed
+          updateProject({ financials: currentFinancials, specs: effectiveSpecs, roomSpecs: effectiveRoomSpecs });
+          if (step !== 3) alert(err.message);
+          return;
+      }
       
-      updateProject({ pricing: newPricing, financials: currentFinancials, specs: effectiveSpecs, roomSpecs: effectiveRoomSpecs });
+      // Install lines follow the box count, so they're rebuilt with every repricing
+      const newFin = applyFreightEstimate({ ...project, items: currentItems, pricing: newPricing }, mfg, applyLabor(newPricing, laborRateCards, currentFinancials));
+      if (newFin !== currentFinancials) setFinancials(newFin);
+      updateProject({ pricing: newPricing, financials: newFin, specs: effectiveSpecs, roomSpecs: effectiveRoomSpecs });
   };
 
   const updateFinancials = async (field: keyof ProjectFinancials, value: number) => {
-      const newFin = { ...financials, [field]: value };
-      setFinancials(newFin);
-      
+      let newFin: ProjectFinancials = { ...financials, [field]: value };
+      // Hand-typed freight wins over the estimate from here on
+      if (field === 'shippingCost' || field === 'fuelSurcharge') newFin.freightManual = true;
+      if (field === 'taxRate') newFin.taxManual = true;
+
       // If Pricing Logic fields change, we must re-calculate everything
       if (field === 'pricingFactor' || field === 'globalMargin' || field === 'roomFactors') {
+          setFinancials(newFin);
           await recalculateAllPricing(newFin, project?.items || []);
       } else {
+          // The discount can move the order over a free-freight threshold
+          if (project) newFin = applyFreightEstimate(project, manufacturers.find(m => m.id === project.manufacturerId), newFin);
+          setFinancials(newFin);
           updateProject({ financials: newFin });
       }
   };
 
+  const handleUseFreightEstimate = () => {
+      if (!project) return;
+      const newFin = applyFreightEstimate(project, manufacturers.find(m => m.id === project.manufacturerId), { ...financials, freightManual: false });
+      setFinancials(newFin);
+      updateProject({ financials: newFin });
+  };
+
+  const handleUseAddressTaxRate = () => {
+      if (!project) return;
+      const newFin = applySalesTax(project, { ...financials, taxManual: false });
+      setFinancials(newFin);
+      updateProject({ financials: newFin });
+  };
+
+  // Picking a card (or services) prices the install lines from the current quote; no card removes labor
+  const updateLabor = (rateCardId: string | null, serviceIds: string[] = financials.labor?.serviceIds || []) => {
+      const card = laborRateCards.find(c => c.id === rateCardId);
+      const labor: ProjectLabor | undefined = card
+          ? { rateCardId: card.id, serviceIds, lines: buildLaborLines(project?.pricing || [], card, serviceIds) }
+          : undefined;
+      const newFin = { ...financials, labor };
+      setFinancials(newFin);
+      updateProject({ financials: newFin });
+  };
+
+  const updateTaxExemption = (updates: Pick<ProjectFinancials, 'taxExempt' | 'taxExemptCertificate'>) => {
+      const newFin = { ...financials, ...updates };
+      setFinancials(newFin);
+      updateProject({ financials: newFin });
+  };
+
   const updateRoomFactor = async (roomName: string, factor: number | null) => {
       const newRoomFactors = { ...financials.roomFactors };
       if (factor === null) {
@@ -227,6 +318,10 @@ export const QuotationFlow: React.FC = () => {
       if (updates.originalCode) {
           updates.normalizedCode = normalizeNKBACode(updates.originalCode);
       }
+      // A manual edit counts as the user having reviewed any validation flags on the item
+      if (!('validationIssues' in updates)) updates.validationIssues = undefined;
+      // Fixing the code or quantity takes the item out of the needs-review queue
+      if (updates.originalCode !== undefined || updates.quantity !== undefined) updates.reviewed = true;
       const newItems = project.items.map(item => 
           item.id === itemId ? { ...item, ...updates } : item
       );
@@ -282,6 +377,35 @@ export const QuotationFlow: React.FC = () => {
       setToastMessage("New manual entry added");
   };
 
+  // Reprice one BOM line against the catalog, keeping its id, room and quantity
+  const repriceLine = (item: PricingLineItem, mfg: Manufacturer): PricingLineItem => {
+      const updated = { ...item, matchConfirmed: undefined };
+      const rePricedItems = calculateProjectPricing([item], mfg, project?.selectedTierId || 'default', project?.specs, financials);
+      if (rePricedItems.length > 0) {
+          const newItem = rePricedItems[0];
+          updated.basePrice = newItem.basePrice;
+          updated.tierMultiplier = newItem.tierMultiplier;
+
+          // Sync new fields
+          (updated as any).unitCost = (newItem as any).unitCost;
+          (updated as any).pricingFactor = (newItem as any).pricingFactor;
+          (updated as any).margin = (newItem as any).margin;
+
+          updated.finalUnitPrice = newItem.finalUnitPrice;
+          updated.totalPrice = newItem.totalPrice;
+          updated.lineCharge = newItem.lineCharge;
+          updated.lineChargeCost = newItem.lineChargeCost;
+          updated.source = newItem.source;
+          updated.tierName = newItem.tierName;
+          updated.matchTrace = newItem.matchTrace;
+      } else {
+          updated.finalUnitPrice = 0;
+          updated.totalPrice = 0;
+          updated.source = "Not Found in Catalog";
+      }
+      return updated;
+  };
+
   const handleBOMUpdate = async (itemId: string, field: 'code' | 'quantity' | 'price', value: string | number) => {
       if (!project || !project.pricing) return;
       
@@ -291,6 +415,7 @@ export const QuotationFlow: React.FC = () => {
       
       let item = { ...newPricing[index] };
       let shouldReprice = false;
+      const previousCode = item.originalCode;
 
       if (field === 'code') {
           const newCode = (value as string).toUpperCase();
@@ -302,13 +427,13 @@ export const QuotationFlow: React.FC = () => {
           const newQty = value as number;
           if (item.quantity === newQty) return;
           item.quantity = newQty;
-          item.totalPrice = item.finalUnitPrice * item.quantity;
+          item.totalPrice = fromCents(toCents(extendPrice(item.finalUnitPrice, item.quantity)) + toCents(item.lineCharge));
       } else if (field === 'price') {
           const newPrice = value as number;
           if (item.finalUnitPrice === newPrice) return;
-          item.finalUnitPrice = newPrice;
+          item.finalUnitPrice = roundMoney(newPrice);
           item.source = "Manual Override";
-          item.totalPrice = item.finalUnitPrice * item.quantity;
+          item.totalPrice = fromCents(toCents(extendPrice(item.finalUnitPrice, item.quantity)) + toCents(item.lineCharge));
       }
 
       if (shouldReprice) {
@@ -324,34 +449,28 @@ export const QuotationFlow: React.FC = () => {
                        setLoadingMessage("");
                    }
                    
-                   const rePricedItems = calculateProjectPricing([item], mfg, project.selectedTierId || 'default', project.specs, financials);
-                   if (rePricedItems.length > 0) {
-                       const newItem = rePricedItems[0];
-                       item.basePrice = newItem.basePrice;
-                       item.tierMultiplier = newItem.tierMultiplier;
-                       
-                       // Sync new fields
-                       (item as any).unitCost = (newItem as any).unitCost;
-                       (item as any).pricingFactor = (newItem as any).pricingFactor;
-                       (item as any).margin = (newItem as any).margin;
-                       
-                       item.finalUnitPrice = newItem.finalUnitPrice;
-                       item.totalPrice = newItem.totalPrice;
-                       item.source = newItem.source;
-                       item.tierName = newItem.tierName;
-                   } else {
-                       item.finalUnitPrice = 0;
-                       item.totalPrice = 0;
-                       item.source = "Not Found in Catalog";
+                   try {
+                       item = repriceLine(item, mfg);
+                   } catch (err) {
+                       if (!(err instanceof OptionConstraintError)) throw err;
+                       alert(err.message);
+                       return;
+                   }
+
+                   // Learn the correction for future quotes, but only when the new code actually priced
+                   const priced = item.matchTrace?.acceptedPass && item.matchTrace.acceptedPass !== 'extracted-price';
+                   const from = aliasKey(previousCode);
+                   if (priced && from && from !== 'NEW ITEM' && from !== aliasKey(item.originalCode)) {
+                       storage.recordSkuCorrection(mfgId, from, aliasKey(item.originalCode))
+                           .then(saved => setSkuSuggestions(prev => [...prev.filter(s => s.id !== saved.id), saved]))
+                           .catch(e => console.warn("Could not record SKU correction", e));
                    }
                }
            }
       }
 
       newPricing[index] = item;
-      const updatedProject = { ...project, pricing: newPricing };
-      setProject(updatedProject);
-      await storage.saveActiveProject(updatedProject);
+      await updateProject({ pricing: newPricing });
   };
 
   const handleBack = () => {
@@ -554,8 +673,9 @@ export const QuotationFlow: React.FC = () => {
     if (!proj || !proj.pricing) throw new Error("No project data");
     const doc = new jsPDF();
     const today = new Date().toLocaleDateString();
-    const validItems = proj.pricing.filter(item => item.totalPrice > 0);
+    const validItems = getQuotedLines(proj.pricing);
     const fin = proj.financials || { taxRate: 0, shippingCost: 0, discountRate: 0, fuelSurcharge: 0, miscCharge: 0 };
+    const totals = computeQuoteTotals(proj.pricing, fin);
     const dealer = proj.dealerDetails || dealerDetails;
     const customer = proj.customerDetails || customerDetails;
     const s: ProjectSpecs = proj.specs || {};
@@ -716,21 +836,21 @@ export const QuotationFlow: React.FC = () => {
     // 1. Group All Items by Room for PDF
     const roomGroups: Record<string, PricingLineItem[]> = {};
     validItems.forEach(item => {
-        const room = item.room || "General / Additional Items";
+        const room = getQuoteRoom(item);
         if (!roomGroups[room]) roomGroups[room] = [];
         roomGroups[room].push(item);
     });
+    const roomLabel = (room: string) => room === GENERAL_ROOM ? "General / Additional Items" : room;
 
     if (summaryOnly) {
          // --- SUMMARY TABLE ---
          const summaryBody: any[] = [];
          
          // Items by Room
-         Object.entries(roomGroups).forEach(([roomName, items]) => {
-             const roomTotal = items.reduce((sum, i) => sum + i.totalPrice, 0);
-             const itemCount = items.reduce((sum, i) => sum + i.quantity, 0);
-             summaryBody.push([roomName, `${itemCount} items`, `$${roomTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}`]);
+         totals.byRoom.forEach(room => {
+             summaryBody.push([roomLabel(room.name), `${room.quantity} items`, formatCents(room.subtotal)]);
          });
+         if (totals.labor > 0) summaryBody.push(["Installation & Services", '', formatCents(totals.labor)]);
          
          autoTable(doc, {
             startY: yPos,
@@ -837,19 +957,19 @@ export const QuotationFlow: React.FC = () => {
                         globalIndex.toString(),
                         item.quantity.toString(),
                         codeWithDims,
-                        `$${item.totalPrice.toLocaleString(undefined, {minimumFractionDigits: 2})}`
+                        formatCents(toCents(item.totalPrice))
                     ]);
                     globalIndex++;
                     
                     // Modifications & Options logic...
                     if (item.modifications) {
                         item.modifications.forEach((mod) => {
-                            tableBody.push(['', '', `${mod.description.includes('FINISH END') ? (mod.description.includes('Left') ? 'FEL' : 'FER') : 'MOD'} - ${mod.description}`, `$${(mod.price || 0).toFixed(2)}`]);
+                            tableBody.push(['', '', `${mod.description.includes('FINISH END') ? (mod.description.includes('Left') ? 'FEL' : 'FER') : 'MOD'} - ${mod.description}`, formatCents(toCents(mod.price))]);
                         });
                     }
                     if (item.appliedOptions) {
                         item.appliedOptions.forEach((opt) => {
-                            tableBody.push(['', '', `OPT - ${opt.name}`, `$${opt.price.toFixed(2)}`]);
+                            tableBody.push(['', '', `OPT - ${opt.name}`, formatCents(toCents(opt.price))]);
                         });
                     }
                 });
@@ -883,38 +1003,67 @@ export const QuotationFlow: React.FC = () => {
             yPos = (doc as any).lastAutoTable.finalY + 2;
 
             // Subtotal
-            const total = items.reduce((sum, i) => sum + i.totalPrice, 0);
+            const total = sumLineTotals(items);
             if (yPos > doc.internal.pageSize.getHeight() - 15) {
                 doc.addPage();
                 yPos = 20;
             }
             doc.setFontSize(9);
             doc.setFont("helvetica", "bold");
-            doc.text(`${title} Total: $${total.toLocaleString(undefined, {minimumFractionDigits: 2})}`, 196 - 14, yPos + 5, { align: 'right' });
+            doc.text(`${title} Total: ${formatCents(total)}`, 196 - 14, yPos + 5, { align: 'right' });
             yPos += 12;
         };
 
         // 1. Room Tables (Includes all categories)
         Object.entries(roomGroups).forEach(([roomName, items]) => {
-            printTable(roomName, items);
+            printTable(roomLabel(roomName), items);
         });
         
         // 4. Appliances (Optional - usually not priced, but if we wanted to show them...)
         // We typically exclude them from the formal quote unless they have prices.
+
+        // 5. Installation & Services (labor lines priced from the rate card)
+        const laborLines = proj.financials?.labor?.lines || [];
+        if (laborLines.length > 0) {
+            if (yPos > doc.internal.pageSize.getHeight() - 40) {
+                doc.addPage();
+                yPos = 20;
+            }
+            autoTable(doc, {
+                startY: yPos,
+                head: [['Installation & Services', 'Quantity', 'Rate', 'Price']],
+                body: laborLines.map(line => [
+                    line.label,
+                    line.unit === 'flat' ? '' : `${line.quantity} ${line.unit}`,
+                    line.unit === 'flat' ? '' : formatCents(toCents(line.rate)),
+                    formatCents(toCents(line.total))
+                ]),
+                theme: 'plain',
+                styles: { fontSize: 8, cellPadding: 2, lineColor: [200, 200, 200], lineWidth: 0.1, valign: 'middle' },
+                headStyles: { fillColor: [240, 240, 240], textColor: [0, 0, 0], fontStyle: 'bold', lineWidth: 0.1, lineColor: [200, 200, 200] },
+                columnStyles: {
+                    0: { cellWidth: 110, fontStyle: 'bold' },
+                    1: { cellWidth: 25, halign: 'center' },
+                    2: { cellWidth: 25, halign: 'right' },
+                    3: { cellWidth: 30, halign: 'right' }
+                },
+                margin: { left: 14, right: 14, top: 20, bottom: 20 }
+            });
+            yPos = (doc as any).lastAutoTable.finalY + 2;
+            doc.setFontSize(9);
+            doc.setFont("helvetica", "bold");
+            doc.text(`Installation & Services Total: ${formatCents(totals.labor)}`, 196 - 14, yPos + 5, { align: 'right' });
+            yPos += 12;
+        }
     }
 
     // --- TOTALS ---
-    const subTotal = validItems.reduce((sum, i) => sum + i.totalPrice, 0);
-    const discountAmount = subTotal * (fin.discountRate / 100);
-    const postDiscount = subTotal - discountAmount;
-    const taxAmount = postDiscount * (fin.taxRate / 100);
-    const grandTotal = postDiscount + taxAmount + fin.shippingCost + fin.fuelSurcharge + fin.miscCharge;
 
     // Fix for Multi-page download:
     // Check if there is enough space for the summary on the current page.
     let finalY = yPos;
     const pageHeight = doc.internal.pageSize.getHeight();
-    const requiredSpaceForSummary = 80; // height of summary box + margins
+    const requiredSpaceForSummary = 95; // height of summary box + margins
 
     if (finalY + requiredSpaceForSummary > pageHeight - 14) {
         doc.addPage();
@@ -927,7 +1076,7 @@ export const QuotationFlow: React.FC = () => {
     doc.setFontSize(10);
     doc.setFont("helvetica", "bold");
     doc.text("Project Sub Total", 110, finalY + 5.5);
-    doc.text(`$${subTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}`, 196 - 14, finalY + 5.5, { align: 'right' });
+    doc.text(formatCents(totals.subtotal), 196 - 14, finalY + 5.5, { align: 'right' });
 
     // Summary Box
     const summaryY = finalY + 12;
@@ -940,10 +1089,6 @@ export const QuotationFlow: React.FC = () => {
     const sumTableY = summaryY;
     const rowH = 5;
     
-    // Summary Border
-    doc.setDrawColor(200);
-    doc.rect(sumTableX, sumTableY, 96, 60);
-
     doc.setFontSize(8);
     doc.setFont("helvetica", "normal");
     
@@ -960,35 +1105,50 @@ export const QuotationFlow: React.FC = () => {
         if (bold) doc.setFontSize(8);
     };
 
-    addSumRow("Cabinets Total", `$${subTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}`);
+    addSumRow("Cabinets Total", formatCents(totals.subtotal));
     
     if (fin.discountRate > 0) {
-        addSumRow(`Dealer Discount (${fin.discountRate}%)`, `($${discountAmount.toLocaleString(undefined, {minimumFractionDigits: 2})})`);
+        addSumRow(`Dealer Discount (${fin.discountRate}%)`, `(${formatCents(totals.discount)})`);
     } else {
         addSumRow("Dealer Discount", "($0.00)");
     }
+    if (totals.upcharge > 0) addSumRow(`Manufacturer Upcharge (${proj.financials?.manufacturerUpcharge}%)`, formatCents(totals.upcharge));
     
     addSumRow("Drawer Track Upgrade Total", "$0.00");
     addSumRow("Soft Close Hinge Upgrade Total", "$0.00"); 
     addSumRow("Construction/Mod Total", "$0.00");
-    addSumRow("Products Net Total", `$${postDiscount.toLocaleString(undefined, {minimumFractionDigits: 2})}`);
+    addSumRow("Products Net Total", formatCents(totals.netProducts));
 
-    if (fin.shippingCost > 0) addSumRow("Shipping Charges", `$${fin.shippingCost.toLocaleString(undefined, {minimumFractionDigits: 2})}`);
+    if (totals.shipping > 0) addSumRow("Shipping Charges", formatCents(totals.shipping));
     else addSumRow("Shipping Charges", "$0.00");
 
-    if (fin.fuelSurcharge > 0) addSumRow("Fuel Surcharge", `$${fin.fuelSurcharge.toLocaleString(undefined, {minimumFractionDigits: 2})}`);
+    if (totals.fuel > 0) addSumRow("Fuel Surcharge", formatCents(totals.fuel));
     else addSumRow("Fuel Surcharge", "$0.00");
 
-    if (fin.taxRate > 0) addSumRow(`Sales Tax (${fin.taxRate}%)`, `$${taxAmount.toLocaleString(undefined, {minimumFractionDigits: 2})}`);
+    if (totals.misc > 0) addSumRow("Misc Charges", formatCents(totals.misc));
+    if (totals.labor > 0) addSumRow("Installation & Services", formatCents(totals.labor));
+
+    const tax = totals.taxDetail;
+    if (tax.exempt) {
+        addSumRow(`Sales Tax (Exempt${tax.certificate ? ` - Cert ${tax.certificate}` : ''})`, "$0.00");
+    } else if (fin.taxRate > 0) {
+        addSumRow(`Sales Tax (${fin.taxRate}%${tax.jurisdiction ? ` ${tax.jurisdiction}` : ''})`, formatCents(totals.tax));
+        if (tax.split) addSumRow("    State / Local", `${formatCents(tax.split.state)} / ${formatCents(tax.split.local)}`);
+    }
     
     // Grand Total Background
     doc.setFillColor(230, 230, 230);
     doc.rect(sumTableX, cY - 3.5, 96, 7, 'F');
-    addSumRow("Order Grand Total *", `$${grandTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}`, true);
+    addSumRow("Order Grand Total *", formatCents(totals.grandTotal), true);
+
+    // Summary Border (grows with the optional rows above)
+    doc.setDrawColor(200);
+    doc.rect(sumTableX, sumTableY, 96, Math.max(60, cY - sumTableY));
 
     doc.setFontSize(7);
     doc.setFont("helvetica", "italic");
     doc.text("* Net Price with Factor Applied", sumTableX + 2, cY + 4);
+    if (tax.exempt || fin.taxRate > 0) doc.text(`Sales tax: ${describeTaxBasis(tax)}`, sumTableX + 2, cY + 8, { maxWidth: 94 });
 
     doc.setFontSize(8);
     doc.setFont("helvetica", "normal");
@@ -998,8 +1158,87 @@ export const QuotationFlow: React.FC = () => {
     return doc;
   };
 
+  // One page comparing every pricing scenario's totals side by side
+  const generateProposalPDF = (proj: Project): jsPDF => {
+    const scenarios = proj.scenarios || [];
+    if (scenarios.length === 0) throw new Error("No scenarios to export");
+    const doc = new jsPDF({ orientation: scenarios.length > 3 ? 'landscape' : 'portrait' });
+    const pageWidth = doc.internal.pageSize.getWidth();
+    const dealer = proj.dealerDetails || dealerDetails;
+    const customer = proj.customerDetails || customerDetails;
+    const mfg = manufacturers.find(m => m.id === proj.manufacturerId);
+    const comparison = compareScenarios(scenarios);
+
+    doc.setFontSize(24);
+    doc.setFont("times", "italic");
+    doc.text(proj.specs?.manufacturer || mfg?.name || "Cabinet Proposal", 14, 20);
+    doc.setFontSize(16);
+    doc.setFont("helvetica", "bold");
+    doc.text("Design Options", pageWidth - 14, 18, { align: 'right' });
+
+    doc.setFontSize(9);
+    doc.setFont("helvetica", "normal");
+    doc.text(`Project: ${proj.name || ''}`, 14, 30);
+    doc.text(`Customer: ${customer.name || ''}`, 14, 35);
+    doc.text(dealer.name || '', pageWidth - 14, 30, { align: 'right' });
+    doc.text(dealer.phone ? `Phone: ${dealer.phone}` : '', pageWidth - 14, 35, { align: 'right' });
+
+    const body: any[] = [
+        ['Selections', ...comparison.columns.map(c => describeScenario(c.scenario, mfg))],
+        ...comparison.rooms.map(room => [room === GENERAL_ROOM ? 'General / Additional Items' : room, ...comparison.columns.map(c => c.roomSubtotals[room] !== undefined ? formatCents(c.roomSubtotals[room]) : '-')]),
+        ['Cabinets Total', ...comparison.columns.map(c => formatCents(c.totals.subtotal))]
+    ];
+    if (comparison.columns.some(c => c.totals.discount > 0)) body.push(['Dealer Discount', ...comparison.columns.map(c => `(${formatCents(c.totals.discount)})`)]);
+    if (comparison.columns.some(c => c.totals.upcharge > 0)) body.push(['Manufacturer Upcharge', ...comparison.columns.map(c => formatCents(c.totals.upcharge))]);
+    if (comparison.columns.some(c => c.totals.shipping > 0)) body.push(['Shipping Charges', ...comparison.columns.map(c => formatCents(c.totals.shipping))]);
+    if (comparison.columns.some(c => c.totals.fuel > 0)) body.push(['Fuel Surcharge', ...comparison.columns.map(c => formatCents(c.totals.fuel))]);
+    if (comparison.columns.some(c => c.totals.misc > 0)) body.push(['Misc Charges', ...comparison.columns.map(c => formatCents(c.totals.misc))]);
+    if (comparison.columns.some(c => c.totals.labor > 0)) body.push(['Installation & Services', ...comparison.columns.map(c => formatCents(c.totals.labor))]);
+    if (comparison.columns.some(c => c.totals.tax > 0 || c.totals.taxDetail.exempt)) body.push(['Sales Tax', ...comparison.columns.map(c => c.totals.taxDetail.exempt ? 'Exempt' : formatCents(c.totals.tax))]);
+    body.push(['Grand Total *', ...comparison.columns.map(c => formatCents(c.totals.grandTotal))]);
+
+    autoTable(doc, {
+        startY: 44,
+        head: [['', ...scenarios.map(sc => sc.name)]],
+        body,
+        theme: 'plain',
+        styles: { fontSize: 9, cellPadding: 3, lineColor: [200, 200, 200], lineWidth: 0.1, valign: 'middle' },
+        headStyles: { fillColor: [230, 230, 230], textColor: [0, 0, 0], fontStyle: 'bold', halign: 'right' },
+        columnStyles: { 0: { fontStyle: 'bold', cellWidth: 45 } },
+        margin: { left: 14, right: 14 },
+        didParseCell: (data) => {
+            if (data.column.index > 0) data.cell.styles.halign = data.section === 'body' && data.row.index === 0 ? 'left' : 'right';
+            if (data.section === 'body' && data.row.index === body.length - 1) {
+                data.cell.styles.fontStyle = 'bold';
+                data.cell.styles.fillColor = [240, 240, 240];
+            }
+        }
+    });
+
+    const endY = (doc as any).lastAutoTable.finalY + 8;
+    doc.setFontSize(8);
+    doc.setFont("helvetica", "italic");
+    doc.text("* Each option prices the same cabinet list. Prices are valid for the selections shown.", 14, endY);
+    doc.setFont("helvetica", "normal");
+    doc.text(`Printed : ${new Date().toLocaleString()}`, 14, doc.internal.pageSize.getHeight() - 12);
+
+    return doc;
+  };
+
   const handleDownloadPDF = (summary: boolean = false) => {
       if (!project) return;
+      // Unpriced cabinets must be resolved (or knowingly overridden) before a quote goes out
+      if (getBlockingLines(project.pricing).length > 0 && !isUnmatchedOverrideValid(project)) {
+          openWorkbench(true);
+          return;
+      }
+      // Below-floor margins need an admin's sign-off
+      const mfg = manufacturers.find(m => m.id === project.manufacturerId);
+      if (mfg && needsMarginApproval(project, checkMargins(project, mfg, marginFloors))) {
+          alert("This quote is below its margin floor and needs an admin's approval before a PDF can be issued. See the Pricing step.");
+          setStep(4);
+          return;
+      }
       try {
           const suffix = summary ? "_Summary" : "";
           const defaultName = `Order_${project.id.substring(0,6)}${suffix}`;
@@ -1010,18 +1249,198 @@ export const QuotationFlow: React.FC = () => {
           // Ensure .pdf extension
           const finalName = fileName.endsWith('.pdf') ? fileName : `${fileName}.pdf`;
           doc.save(finalName);
+
+          // Every issued PDF gets an immutable revision so the quoted numbers can be recovered later
+          storage.createRevision(project, 'pdf', finalName)
+              .catch(err => console.warn("Revision snapshot failed", err));
+
+          // First generated quote moves the project out of Draft on the dashboard
+          if (project.status === 'Draft') updateProject({ status: 'Quoted' });
       } catch (err) {
           console.error("PDF Generation Failed", err);
           alert("Failed to generate PDF. Please try again or reduce item count.");
       }
   };
 
+  // --- Pricing Scenarios ---
+
+  const handleSaveScenarios = async (scenarios: PricingScenario[]) => {
+      await updateProject({ scenarios });
+  };
+
+  const handleRepriceScenarios = async (scenarios: PricingScenario[], ids: string[]) => {
+      if (!project?.manufacturerId) return;
+      const mfg = manufacturers.find(m => m.id === project.manufacturerId);
+      if (!mfg) return;
+      if (!mfg.catalog || Object.keys(mfg.catalog).length === 0) {
+          mfg.catalog = await storage.getManufacturerCatalog(mfg.id);
+      }
+      await updateProject({ scenarios: scenarios.map(sc => ids.includes(sc.id) ? priceScenario(sc, project.items, mfg) : sc) });
+  };
+
+  // The loaded scenario becomes the working quote; the scenario itself is left as it was
+  const handleLoadScenario = (scenario: PricingScenario) => {
+      if (!window.confirm(`Replace the current specs and pricing with "${scenario.name}"? Save the current quote as a scenario first if you want to keep it.`)) return;
+      const updates = scenarioToProjectUpdates(scenario);
+      if (updates.financials) setFinancials(updates.financials);
+      updateProject(updates);
+      setShowScenarios(false);
+  };
+
+  const handleExportProposal = () => {
+      if (!project) return;
+      // Same unpriced-cabinet gate as a single quote, for the live pricing and every scenario
+      if (getBlockingLines(project.pricing).length > 0 && !isUnmatchedOverrideValid(project)) {
+          setShowScenarios(false);
+          openWorkbench(true);
+          return;
+      }
+      const unpriced = (project.scenarios || []).filter(sc => getBlockingLines(sc.pricing).length > 0 && !isUnmatchedOverrideValid({ ...project, pricing: sc.pricing }));
+      if (unpriced.length > 0) {
+          alert(`These scenarios have unpriced cabinet lines: ${unpriced.map(sc => `${sc.name} (${getBlockingLines(sc.pricing).map(l => l.originalCode).join(', ')})`).join('; ')}. Resolve the codes in the Unmatched workbench, then reprice the scenarios.`);
+          return;
+      }
+      // Scenarios carry their own factors and margins, so each one is held to the margin floors
+      const mfg = manufacturers.find(m => m.id === project.manufacturerId);
+      if (mfg) {
+          const belowFloor = [{ name: 'Current pricing', pricing: project.pricing, financials: project.financials }, ...(project.scenarios || [])]
+              .filter(sc => needsMarginApproval(project, checkMargins({ ...project, pricing: sc.pricing, financials: sc.financials }, mfg, marginFloors)));
+          if (belowFloor.length > 0) {
+              alert(`${belowFloor.map(sc => sc.name).join(', ')} ${belowFloor.length === 1 ? 'is' : 'are'} below the margin floor and need${belowFloor.length === 1 ? 's' : ''} an admin's approval before a proposal can be issued. See the Pricing step.`);
+              setShowScenarios(false);
+              setStep(4);
+              return;
+          }
+      }
+      try {
+          const doc = generateProposalPDF(project);
+          doc.save(`Proposal_${project.id.substring(0,6)}.pdf`);
+      } catch (err) {
+          console.error("Proposal PDF Generation Failed", err);
+          alert("Failed to generate the proposal PDF.");
+      }
+  };
+
+  const handleApproveMargin = (check: MarginCheck) => {
+      if (!project || !marginApprovalReason.trim()) return;
+      const worst = [...check.issues].filter(i => i.marginPct !== undefined).sort((a, b) => a.marginPct! - b.marginPct!)[0];
+      updateProject({
+          marginApproval: {
+              approvedBy: sessionStorage.getItem('kabs_admin_user') || 'admin',
+              approvedAt: new Date().toISOString(),
+              reason: marginApprovalReason.trim(),
+              marginPct: check.lowestMarginPct ?? 0,
+              floorPct: worst?.floorPct ?? check.floorPct ?? 0,
+              issueKeys: check.issues.map(issue => issue.key)
+          }
+      });
+      setMarginApprovalReason('');
+  };
+
   const handleOrderDetailsSubmit = () => {
-      updateProject({ customerDetails, dealerDetails, deliveryDetails });
+      if (!project) return;
+      // Zip-zone freight surcharges and the sales tax rate depend on the delivery address entered here
+      const withDelivery = { ...project, deliveryDetails };
+      const newFin = applySalesTax(withDelivery, applyFreightEstimate(withDelivery, manufacturers.find(m => m.id === project.manufacturerId), financials));
+      setFinancials(newFin);
+      updateProject({ customerDetails, dealerDetails, deliveryDetails, financials: newFin });
       setStep(6);
   };
 
   const [isDragging, setIsDragging] = useState(false);
+  const [extractionProvider, setExtractionProvider] = useState<ExtractionProviderId>(getDefaultProviderId());
+  const [pageProgress, setPageProgress] = useState<PageProgress[]>([]);
+  const [forceReanalyze, setForceReanalyze] = useState(false);
+  const [lastUploadedFile, setLastUploadedFile] = useState<File | null>(null); // Kept for "Re-analyze anyway" and the source viewer
+  const [sourceViewer, setSourceViewer] = useState<{ page: number; code?: string; itemId?: string } | null>(null);
+  const [reviewFilter, setReviewFilter] = useState<'all' | 'needsReview'>('all');
+  const [expandedTraceId, setExpandedTraceId] = useState<string | null>(null);
+  const [skuSuggestions, setSkuSuggestions] = useState<SkuAliasSuggestion[]>([]);
+
+  // Learned code corrections for the connected manufacturer
+  useEffect(() => {
+      if (!project?.manufacturerId) {
+          setSkuSuggestions([]);
+          return;
+      }
+      storage.listSkuAliasSuggestions(project.manufacturerId)
+          .then(setSkuSuggestions)
+          .catch(e => console.warn("SKU suggestions unavailable", e));
+  }, [project?.manufacturerId]);
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [showScenarios, setShowScenarios] = useState(false);
+  const [showMfgComparison, setShowMfgComparison] = useState(false);
+
+  // --- Unmatched SKU Workbench ---
+  const [workbench, setWorkbench] = useState<{ blockedDownload: boolean } | null>(null);
+  const [workbenchCatalog, setWorkbenchCatalog] = useState<Record<string, Record<string, number>> | null>(null);
+
+  const openWorkbench = async (blockedDownload: boolean = false) => {
+      setWorkbench({ blockedDownload });
+      const mfg = manufacturers.find(m => m.id === project?.manufacturerId);
+      if (!mfg) {
+          setWorkbenchCatalog({});
+          return;
+      }
+      if (!mfg.catalog || Object.keys(mfg.catalog).length === 0) {
+          setWorkbenchCatalog(null);
+          mfg.catalog = await storage.getManufacturerCatalog(mfg.id);
+      }
+      setWorkbenchCatalog(mfg.catalog || {});
+  };
+
+  const handleWorkbenchAccept = async (line: PricingLineItem, sku: string, saveAsAlias: boolean) => {
+      if (!project?.pricing) return;
+      if (!saveAsAlias) {
+          await handleBOMUpdate(line.id, 'code', sku);
+          return;
+      }
+
+      const mfg = manufacturers.find(m => m.id === project.manufacturerId);
+      if (!mfg) return;
+      const from = aliasKey(line.originalCode);
+      const updatedMfg: Manufacturer = {
+          ...mfg,
+          skuAliases: [
+              ...(mfg.skuAliases || []).filter(a => aliasKey(a.from) !== from),
+              { id: crypto.randomUUID(), from, to: aliasKey(sku), note: `Accepted while quoting ${project.name}` }
+          ]
+      };
+      try {
+          await storage.saveManufacturerMetadata(updatedMfg);
+      } catch (err: any) {
+          alert("Failed to save alias: " + (err.message || err));
+          return;
+      }
+      setManufacturers(prev => prev.map(m => m.id === updatedMfg.id ? updatedMfg : m));
+
+      // The alias keeps the drawing code on the line, so every line with that code now resolves
+      let newPricing: PricingLineItem[];
+      try {
+          newPricing = project.pricing.map(l =>
+              aliasKey(l.originalCode) === from && l.source !== 'Manual Override' ? repriceLine(l, updatedMfg) : l
+          );
+      } catch (err) {
+          if (!(err instanceof OptionConstraintError)) throw err;
+          alert(`Alias saved, but the lines could not be repriced. ${err.message}`);
+          return;
+      }
+      await updateProject({ pricing: newPricing });
+      setToastMessage(`Alias ${from} → ${aliasKey(sku)} saved`);
+  };
+
+  const handleWorkbenchConfirm = (line: PricingLineItem) => {
+      if (!project?.pricing) return;
+      updateProject({ pricing: project.pricing.map(l => l.id === line.id ? { ...l, matchConfirmed: true } : l) });
+  };
+
+  const handleWorkbenchOverride = async (reason: string) => {
+      if (!project) return;
+      const codes = getBlockingLines(project.pricing).map(l => aliasKey(l.originalCode));
+      await updateProject({ unmatchedOverride: { at: new Date().toISOString(), reason, codes } });
+      setWorkbench(null);
+      setToastMessage("Override saved. The PDF can now be generated.");
+  };
 
   const handleDragOver = (e: React.DragEvent) => {
       e.preventDefault();
@@ -1049,7 +1468,7 @@ export const QuotationFlow: React.FC = () => {
       }
   };
 
-  const processUploadedFile = async (file: File) => {
+  const processUploadedFile = async (file: File, force: boolean = forceReanalyze) => {
     // Check file size immediately to prevent browser freeze/timeout
     if (file.size > 20 * 1024 * 1024) {
          setUploadError(`File is too large (${(file.size / 1024 / 1024).toFixed(1)}MB). Max size is 20MB. Please compress or split the PDF.`);
@@ -1066,7 +1485,13 @@ export const QuotationFlow: React.FC = () => {
         await new Promise(r => setTimeout(r, 100));
 
         setLoadingMessage("AI Vision Analyzing Plan...");
-        const result = await analyzePlan(file, nkbaRules?.data, setLoadingMessage);
+        const result = await analyzePlan(file, nkbaRules?.data, (message, pages) => {
+            setLoadingMessage(message);
+            if (pages) setPageProgress(pages);
+        }, { provider: extractionProvider, forceReanalyze: force });
+        setPageProgress([]);
+        setLastUploadedFile(file);
+        setForceReanalyze(false);
         
         if (result.items.length === 0) {
             setUploadError("No cabinets detected. Please ensure the PDF contains a clear schedule or plan.");
@@ -1074,7 +1499,7 @@ export const QuotationFlow: React.FC = () => {
             setLoadingMessage("");
             return;
         }
-        await updateProject({ items: result.items, specs: result.specs });
+        await updateProject({ items: result.items, specs: result.specs, extractionIssues: result.issues, extractionMeta: result.meta });
         setIsLoading(false);
         setLoadingMessage("");
         setStep(1); 
@@ -1083,6 +1508,23 @@ export const QuotationFlow: React.FC = () => {
         setUploadError(err.message || "Failed to process file.");
         setIsLoading(false);
         setLoadingMessage("");
+        setPageProgress([]);
+    }
+  };
+
+  // Review: open the source viewer on the page the item was extracted from
+  const showItemSource = (item: CabinetItem) => {
+    setSourceViewer({ page: item.sourcePage || sourceViewer?.page || 1, code: item.originalCode, itemId: item.id });
+  };
+
+  // Re-run the AI on the same file, bypassing the cache. After a page reload the File is gone,
+  // so send the user back to Upload with the override pre-ticked.
+  const handleReanalyze = async () => {
+    if (lastUploadedFile) {
+        await processUploadedFile(lastUploadedFile, true);
+    } else {
+        setForceReanalyze(true);
+        setStep(0);
     }
   };
 
@@ -1094,7 +1536,9 @@ export const QuotationFlow: React.FC = () => {
 
   const handleConfirmExtraction = () => setStep(2);
 
-  const handleConnectMfg = async (mfg: Manufacturer) => {
+  // `tierId` preselects a tier, e.g. when picked from the manufacturer comparison
+  const handleConnectMfg = async (mfg: Manufacturer, tierId?: string) => {
+    const tier = mfg.tiers.find(t => t.id === tierId);
     setSelectedMfgId(mfg.id);
     setIsConnecting(mfg.id);
     setLoadingMessage(`Establishing connection to ${mfg.name} database...`);
@@ -1107,8 +1551,8 @@ export const QuotationFlow: React.FC = () => {
     const defaultSpecs: any = {
         ...project?.specs,
         manufacturer: mfg.name,
-        priceGroup: mfg.tiers[0]?.name || 'Standard',
-        seriesName: defaultSeries,
+        priceGroup: tier?.name || mfg.tiers[0]?.name || 'Standard',
+        seriesName: tier?.name || defaultSeries,
         lineType: mfg.name, // Default preference
         cardboardBoxed: 'No',
         softCloseHinges: 'Yes',
@@ -1118,7 +1562,8 @@ export const QuotationFlow: React.FC = () => {
         finishOption2: 'None',
         selectedOptions: {}
     };
-    await updateProject({ manufacturerId: mfg.id, specs: defaultSpecs });
+    // Re-score now that catalog presence can be checked
+    await updateProject({ manufacturerId: mfg.id, specs: defaultSpecs, items: applyConfidence(project?.items || [], catalogData, mfg), ...(tier ? { selectedTierId: tier.id } : {}) });
     setIsConnecting(null);
     setLoadingMessage("");
     setStep(3); 
@@ -1155,7 +1600,16 @@ export const QuotationFlow: React.FC = () => {
              mfg.tiers = [{ id: 'default', name: 'Standard', multiplier: 1.0 }];
          }
          if (tierIdToUse) {
-             const pricing = calculateProjectPricing(project.items, mfg, tierIdToUse, project.specs, financials, project.roomSpecs);
+             let pricing: PricingLineItem[];
+             try {
+                 pricing = calculateProjectPricing(project.items, mfg, tierIdToUse, project.specs, financials, project.roomSpecs);
+             } catch (err) {
+                 setIsLoading(false);
+                 setLoadingMessage("");
+                 if (!(err instanceof OptionConstraintError)) throw err;
+                 alert(`Please fix the highlighted specifications first.\n\n${err.violations.map(v => `• ${v.message}`).join('\n')}`);
+                 return;
+             }
              await updateProject({ pricing, selectedTierId: tierIdToUse });
              setIsLoading(false);
              setLoadingMessage("");
@@ -1240,7 +1694,25 @@ export const QuotationFlow: React.FC = () => {
 
   if (!project) return null;
   const currentMfg = manufacturers.find(m => m.id === project.manufacturerId);
-  const groupedReviewItems = getGroupedItems(project.items);
+  const unresolvedCount = (project.pricing || []).filter(l => getLineMatchStatus(l) !== 'ok').length;
+  const blockingCount = getBlockingLines(project.pricing).length;
+  const quoteTotals = computeQuoteTotals(project.pricing, financials);
+  const marginCheck: MarginCheck = currentMfg ? checkMargins(project, currentMfg, marginFloors) : { issues: [] };
+  const marginApproved = isMarginApprovalValid(project, marginCheck);
+  const freightEstimate = currentMfg ? estimateProjectFreight(project, currentMfg, financials) : undefined;
+  const laborCard = laborRateCards.find(c => c.id === financials.labor?.rateCardId);
+  const specViolations = currentMfg ? findConstraintViolations(currentMfg, project.specs, project.roomSpecs, Array.from(new Set(project.items.map(i => i.room || "General")))) : [];
+
+  // Dropdown entry for an option; choices that would break a constraint are disabled with the reason
+  const optionChoice = (opt: ManufacturerOption | undefined, id: string, label: string, value: string, specs: ProjectSpecs | undefined = project.specs) => {
+      const conflicts = opt && currentMfg ? getOptionConflicts(opt, currentMfg, specs) : [];
+      const blocking = conflicts.filter(c => c.kind !== 'requires');
+      if (blocking.length > 0) return { id, label: `${label} — ${blocking[0].message}`, value, disabled: true, title: blocking.map(c => c.message).join('\n') };
+      if (conflicts.length > 0) return { id, label: `${label} (requires ${conflicts.map(c => c.otherName).join(', ')})`, value, title: conflicts.map(c => c.message).join('\n') };
+      return { id, label, value };
+  };
+  const needsReviewCount = project.items.filter(needsReview).length;
+  const groupedReviewItems = getGroupedItems(reviewFilter === 'needsReview' ? project.items.filter(needsReview) : project.items);
 
   // Group options for display
   const groupedOptions: Record<string, ManufacturerOption[]> = {};
@@ -1373,6 +1845,34 @@ export const QuotationFlow: React.FC = () => {
                  <RefreshCw className="w-12 h-12 text-brand-600 animate-spin mb-4" />
                  <h3 className="text-xl font-bold text-slate-900">{loadingMessage || "Processing..."}</h3>
                  <p className="text-slate-500">Please wait while we connect.</p>
+                 {pageProgress.length > 1 && (
+                     <div className="mt-6 max-w-xl">
+                         <div className="flex flex-wrap justify-center gap-1">
+                             {pageProgress.map(p => (
+                                 <div
+                                     key={p.pageNumber}
+                                     title={`Page ${p.pageNumber} (${p.mode === 'image' ? 'scanned' : 'text'}): ${p.status}${p.itemCount !== undefined ? ` (${p.itemCount} items)` : ''}`}
+                                     className={`w-7 h-7 rounded text-[10px] font-bold flex items-center justify-center transition-colors ${
+                                         p.status === 'done' ? 'bg-green-500 text-white' :
+                                         p.status === 'failed' ? 'bg-red-500 text-white' :
+                                         p.status === 'retrying' ? 'bg-amber-400 text-white animate-pulse' :
+                                         p.status === 'running' ? 'bg-brand-500 text-white animate-pulse' :
+                                         'bg-slate-200 text-slate-500'
+                                     } ${p.mode === 'image' ? 'ring-1 ring-offset-1 ring-slate-400' : ''}`}
+                                 >
+                                     {p.pageNumber}
+                                 </div>
+                             ))}
+                         </div>
+                         <div className="flex justify-center gap-4 mt-3 text-[10px] text-slate-500 uppercase font-bold">
+                             <span><span className="inline-block w-2 h-2 rounded-sm bg-brand-500 mr-1"></span>Analyzing</span>
+                             <span><span className="inline-block w-2 h-2 rounded-sm bg-amber-400 mr-1"></span>Retrying</span>
+                             <span><span className="inline-block w-2 h-2 rounded-sm bg-green-500 mr-1"></span>Done</span>
+                             <span><span className="inline-block w-2 h-2 rounded-sm bg-red-500 mr-1"></span>Failed</span>
+                             {pageProgress.some(p => p.mode === 'image') && <span><span className="inline-block w-2 h-2 rounded-sm ring-1 ring-slate-400 mr-1"></span>Scanned</span>}
+                         </div>
+                     </div>
+                 )}
             </div>
         )}
 
@@ -1395,6 +1895,22 @@ export const QuotationFlow: React.FC = () => {
                     <UploadCloud className={`w-12 h-12 mb-4 ${isDragging ? 'text-brand-600' : 'text-slate-400'}`} />
                     <p className="font-medium text-slate-700">{isDragging ? "Drop file here" : "Click to Browse or Drag File"}</p>
                  </div>
+                 {project.extractionMeta && (
+                     <div className="text-xs text-slate-500">
+                         Last analysis: <span className="font-medium text-slate-700">{project.extractionMeta.fileName}</span>
+                         {project.extractionMeta.fromCache && <span className="ml-2 bg-blue-50 text-blue-700 border border-blue-100 px-2 py-0.5 rounded-full font-bold uppercase text-[10px]"><Database className="w-3 h-3 inline -mt-0.5 mr-1"/>Served from cache</span>}
+                     </div>
+                 )}
+                 <label className="flex items-center gap-2 text-sm text-slate-500 cursor-pointer">
+                    <input type="checkbox" className="rounded border-slate-300 text-brand-600 focus:ring-brand-500" checked={forceReanalyze} onChange={e => setForceReanalyze(e.target.checked)} />
+                    Re-analyze anyway (ignore cached results for this file)
+                 </label>
+                 <div className="flex items-center gap-2 text-sm text-slate-500">
+                    <label htmlFor="extraction-provider">Extraction engine:</label>
+                    <select id="extraction-provider" className="p-1.5 border border-slate-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-brand-500 outline-none" value={extractionProvider} onChange={e => setExtractionProvider(e.target.value as ExtractionProviderId)}>
+                        {EXTRACTION_PROVIDERS.map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+                    </select>
+                 </div>
                  {uploadError && <div className="text-red-600 bg-red-50 p-3 rounded-lg"><AlertCircle className="w-4 h-4 inline mr-2"/>{uploadError}</div>}
              </div>
           </div>
@@ -1403,9 +1919,45 @@ export const QuotationFlow: React.FC = () => {
              <div className="space-y-6">
                 <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                     <div className="flex items-start gap-3"><Button variant="ghost" size="sm" onClick={handleBack} className="mt-1 shrink-0"><ArrowLeft className="w-5 h-5" /></Button><div><h2 className="text-2xl font-bold text-slate-900">Extraction Review</h2><p className="text-slate-500 text-sm">Review extracted codes. <span className="text-brand-600 font-bold">You can edit codes here if AI misread them.</span></p></div></div>
-                    <Button onClick={handleConfirmExtraction} className="w-full sm:w-auto">Next: Manufacturer <ArrowRight className="w-4 h-4 ml-2" /></Button>
+                    <div className="flex gap-2 w-full sm:w-auto">
+                        <Button variant="outline" onClick={() => setSourceViewer(sourceViewer ? null : { page: 1 })} className="flex-1 sm:flex-none gap-2"><FileText className="w-4 h-4" /> {sourceViewer ? 'Hide Source' : 'View Source'}</Button>
+                        <Button onClick={handleConfirmExtraction} className="flex-1 sm:flex-none">Next: Manufacturer <ArrowRight className="w-4 h-4 ml-2" /></Button>
+                    </div>
                 </div>
-                <div className="overflow-hidden border border-slate-200 rounded-lg">
+                {project.extractionMeta?.fromCache && (
+                    <div className="bg-blue-50 border border-blue-100 rounded-lg p-3 text-sm text-blue-800 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                        <div className="flex items-center gap-2">
+                            <Database className="w-4 h-4 shrink-0" />
+                            <span>
+                                <span className="font-bold">Served from cache.</span> {project.extractionMeta.fileName} was analyzed on {new Date(project.extractionMeta.analyzedAt).toLocaleString()} with {project.extractionMeta.model} ({project.extractionMeta.promptVersion}).
+                            </span>
+                        </div>
+                        <Button variant="outline" size="sm" className="shrink-0 gap-1" onClick={handleReanalyze}><RefreshCw className="w-3 h-3" /> Re-analyze anyway</Button>
+                    </div>
+                )}
+                {(() => {
+                    const flaggedCount = project.items.filter(i => i.validationIssues?.length).length;
+                    const responseIssues = project.extractionIssues || [];
+                    if (flaggedCount === 0 && responseIssues.length === 0) return null;
+                    return (
+                        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-800 flex gap-3">
+                            <AlertTriangle className="w-5 h-5 shrink-0 text-amber-500" />
+                            <div className="space-y-1">
+                                {responseIssues.map((issue, i) => <p key={i} className="font-medium">{issue}</p>)}
+                                {flaggedCount > 0 && <p>{flaggedCount} item(s) had invalid or missing fields that were corrected automatically. They are marked below — please double check them.</p>}
+                            </div>
+                        </div>
+                    );
+                })()}
+                <div className="flex items-center gap-2 text-sm">
+                    <div className="inline-flex rounded-lg border border-slate-200 bg-white p-0.5">
+                        <button className={`px-3 py-1 rounded-md font-medium ${reviewFilter === 'all' ? 'bg-slate-800 text-white' : 'text-slate-600 hover:bg-slate-100'}`} onClick={() => setReviewFilter('all')}>All ({project.items.length})</button>
+                        <button className={`px-3 py-1 rounded-md font-medium ${reviewFilter === 'needsReview' ? 'bg-amber-500 text-white' : 'text-slate-600 hover:bg-slate-100'}`} onClick={() => setReviewFilter('needsReview')}>Needs Review ({needsReviewCount})</button>
+                    </div>
+                    {reviewFilter === 'needsReview' && needsReviewCount === 0 && <span className="text-green-600 flex items-center gap-1"><CheckCircle2 className="w-4 h-4" /> Everything has been reviewed.</span>}
+                </div>
+                <div className={sourceViewer ? "flex flex-col xl:flex-row gap-4 items-start" : ""}>
+                <div className="overflow-hidden border border-slate-200 rounded-lg flex-1 min-w-0 w-full">
                     <table className="min-w-full divide-y divide-slate-200">
                          <thead className="bg-slate-100"><tr><th className="w-10 px-3 py-3 text-center"><input type="checkbox" disabled className="rounded border-slate-300"/></th><th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase">Item Description</th><th className="px-6 py-3 text-left text-xs font-bold text-slate-500 uppercase">PDF Code (Editable)</th><th className="px-6 py-3 text-left text-xs font-bold text-brand-600 uppercase">Normalized</th><th className="px-6 py-3 text-center text-xs font-bold text-slate-500 uppercase">Qty (Editable)</th><th className="px-4 py-3 text-right text-xs font-bold text-slate-500 uppercase">Action</th></tr></thead>
                 <tbody className="divide-y divide-slate-100 bg-white">
@@ -1507,7 +2059,15 @@ export const QuotationFlow: React.FC = () => {
                                </td>
                            </tr>
                            {categorized[category].map(item => (
-                                <tr key={item.id} className={`hover:bg-blue-50 group border-b border-slate-100 ${selectedItems.has(item.id) ? 'bg-blue-50' : ''}`}>
+                                <tr 
+                                    key={item.id} 
+                                    className={`hover:bg-blue-50 group border-b border-slate-100 cursor-pointer ${selectedItems.has(item.id) ? 'bg-blue-50' : ''} ${sourceViewer?.itemId === item.id ? 'ring-2 ring-inset ring-yellow-400' : ''}`}
+                                    onClick={e => {
+                                        // Editing a field shouldn't yank the viewer around
+                                        if ((e.target as HTMLElement).closest('input, button, select')) return;
+                                        showItemSource(item);
+                                    }}
+                                >
                                     <td className="px-3 py-3 text-center">
                                         <input 
                                             type="checkbox" 
@@ -1524,12 +2084,19 @@ export const QuotationFlow: React.FC = () => {
                                         />
                                         <div className="text-xs text-slate-400 mt-0.5">
                                             {item.width > 0 && `${item.width}" W x `}{item.height}" H x {item.depth}" D
+                                            {item.sourcePage ? <span className="ml-2 text-brand-600 font-medium">· Page {item.sourcePage}</span> : null}
                                         </div>
                                         {item.modifications && item.modifications.length > 0 && (
                                             <div className="mt-1 pl-2 border-l-2 border-slate-200 text-xs text-slate-500">
                                                 {item.modifications.map((m, i) => (<div key={i}>+ {m.description}</div>))}
                                             </div>
                                         )}
+                                        {item.validationIssues && item.validationIssues.length > 0 && (
+                                            <div className="mt-1 flex items-start gap-1 text-[11px] text-amber-700" title="Corrected during validation of the AI response">
+                                                <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                                                <span>{item.validationIssues.join(' • ')}</span>
+                                            </div>
+                                        )}
                                     </td>
                                    <td className="px-6 py-3 text-sm text-slate-500 font-mono">
                                        <DebouncedInput 
@@ -1540,6 +2107,14 @@ export const QuotationFlow: React.FC = () => {
                                    </td>
                                    <td className="px-6 py-3 text-sm text-brand-700 font-bold font-mono">
                                        {item.normalizedCode || item.originalCode}
+                                       {typeof item.confidence === 'number' && (
+                                           <div
+                                               className={`mt-1 inline-block font-sans text-[10px] font-bold px-1.5 py-0.5 rounded ${item.reviewed ? 'bg-slate-100 text-slate-500' : needsReview(item) ? 'bg-amber-100 text-amber-700' : 'bg-green-100 text-green-700'}`}
+                                               title={item.confidenceReasons?.length ? item.confidenceReasons.join('\n') : 'No concerns'}
+                                           >
+                                               {Math.round(item.confidence * 100)}%{item.reviewed ? ' · Reviewed' : ''}
+                                           </div>
+                                       )}
                                    </td>
                                    <td className="px-6 py-3 text-center font-medium">
                                        <DebouncedInput 
@@ -1549,7 +2124,17 @@ export const QuotationFlow: React.FC = () => {
                                            onChange={(val: number) => updateProjectItem(item.id, { quantity: val || 0 })}
                                        />
                                    </td>
-                                   <td className="px-4 py-3 text-right">
+                                   <td className="px-4 py-3 text-right whitespace-nowrap">
+                                       {needsReview(item) && (
+                                           <button
+                                               type="button"
+                                               onClick={() => updateProjectItem(item.id, { reviewed: true })}
+                                               className="p-1.5 text-amber-500 hover:text-green-600 hover:bg-green-50 rounded transition-colors"
+                                               title="Mark Reviewed"
+                                           >
+                                               <Check className="w-4 h-4"/>
+                                           </button>
+                                       )}
                                        <button 
                                            type="button" 
                                            onClick={() => deleteProjectItem(item.id)} 
@@ -1578,6 +2163,19 @@ export const QuotationFlow: React.FC = () => {
                         </tbody>
                     </table>
                 </div>
+                {sourceViewer && (
+                    <div className="w-full xl:w-[45%] h-[75vh] xl:sticky xl:top-4 shrink-0">
+                        <SourcePageViewer
+                            file={lastUploadedFile}
+                            pageNumber={sourceViewer.page}
+                            highlightCode={sourceViewer.code}
+                            onPageChange={page => setSourceViewer({ ...sourceViewer, page })}
+                            onFileSelected={setLastUploadedFile}
+                            onClose={() => setSourceViewer(null)}
+                        />
+                    </div>
+                )}
+                </div>
                 
                 <div className="flex justify-end pt-2">
                     <Button 
@@ -1627,7 +2225,7 @@ export const QuotationFlow: React.FC = () => {
         )}
         {step === 2 && (
             <div className="space-y-6">
-                <div className="flex items-start gap-3"><Button variant="ghost" size="sm" onClick={handleBack} className="mt-1 shrink-0"><ArrowLeft className="w-5 h-5" /></Button><div><h2 className="text-2xl font-bold text-slate-900">Select Manufacturer</h2><p className="text-slate-500">Connect to a live manufacturer database to pull pricing and specs.</p></div></div>
+                <div className="flex items-start gap-3"><Button variant="ghost" size="sm" onClick={handleBack} className="mt-1 shrink-0"><ArrowLeft className="w-5 h-5" /></Button><div className="flex-1"><h2 className="text-2xl font-bold text-slate-900">Select Manufacturer</h2><p className="text-slate-500">Connect to a live manufacturer database to pull pricing and specs.</p></div>{project.items.length > 0 && manufacturers.length > 0 && <Button variant="outline" onClick={() => setShowMfgComparison(true)} className="gap-2 shrink-0"><Scale className="w-4 h-4"/> Compare Lines</Button>}</div>
                 
                 {/* Dealer Filter */}
                 {Array.from(new Set(manufacturers.map(m => m.dealerName).filter(Boolean))).length > 0 && (
@@ -1660,8 +2258,16 @@ export const QuotationFlow: React.FC = () => {
              <div className="space-y-8 animate-in fade-in slide-in-from-right-4 duration-500">
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between border-b border-slate-100 pb-4 gap-4">
                      <div className="flex items-start gap-3"><Button variant="ghost" size="sm" onClick={handleBack} className="mt-1 shrink-0"><ArrowLeft className="w-5 h-5" /></Button><div><h2 className="text-2xl font-bold text-slate-900">Kitchen Specifications</h2><p className="text-slate-500">Configure specifications exactly as per job requirements.</p></div></div>
-                     <Button size="lg" onClick={handleSpecsConfirmed} className="gap-2 w-full sm:w-auto">Calculate Final Quote <ArrowRight className="w-4 h-4"/></Button>
+                     <Button size="lg" onClick={handleSpecsConfirmed} disabled={specViolations.length > 0} className="gap-2 w-full sm:w-auto">Calculate Final Quote <ArrowRight className="w-4 h-4"/></Button>
                 </div>
+                {specViolations.length > 0 && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-sm text-red-800">
+                        <div className="font-bold flex items-center gap-2 mb-1"><AlertOctagon className="w-4 h-4"/> These selections can't be combined</div>
+                        <ul className="list-disc pl-6 space-y-0.5">
+                            {specViolations.map((v, i) => <li key={i}>{v.message}</li>)}
+                        </ul>
+                    </div>
+                )}
                 {/* --- EXTERIOR DESIGN SECTION --- */}
                 <div className="bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
                     <div className="bg-slate-50/80 px-8 py-4 border-b border-slate-200 flex items-center justify-between">
@@ -1717,7 +2323,7 @@ export const QuotationFlow: React.FC = () => {
                                             key="DoorStyle"
                                             label="Door Style"
                                             type={isSelect ? "select" : "text"} 
-                                            options={isSelect ? Array.from(new Set(options.map(o => o.name))).map((name, i) => ({ id: `door_${i}`, label: name, value: name })) : []}
+                                            options={isSelect ? Array.from(new Set(options.map(o => o.name))).map((name, i) => optionChoice(options.find(o => o.name === name), `door_${i}`, name, name)) : []}
                                             value={project.specs?.dynamicSelections?.['DoorStyle'] || ''} 
                                             onChange={(v: string) => updateDynamicSelection('DoorStyle', v)} 
                                         />
@@ -1746,7 +2352,7 @@ export const QuotationFlow: React.FC = () => {
                                                 if (opt && opt.pricingType !== 'included' && opt.price > 0) {
                                                     label += ` (${opt.pricingType === 'percentage' ? '+' + (opt.price * 100).toFixed(0) + '%' : '+$' + opt.price})`;
                                                 }
-                                                return { id: `${cat}_opt_${i}`, label, value: name };
+                                                return optionChoice(opt, `${cat}_opt_${i}`, label, name);
                                             })}
                                             value={project.specs?.dynamicSelections?.[cat] || ''} 
                                             onChange={(v: string) => updateDynamicSelection(cat, v)} 
@@ -1824,7 +2430,7 @@ export const QuotationFlow: React.FC = () => {
                                                                     type="select" 
                                                                     options={[
                                                                         { id: 'default', label: 'Use Project Default', value: '' },
-                                                                        ...Array.from(new Set(options.map(o => o.name))).map((name, i) => ({ id: `r_door_${i}`, label: name, value: name }))
+                                                                        ...Array.from(new Set(options.map(o => o.name))).map((name, i) => optionChoice(options.find(o => o.name === name), `r_door_${i}`, name, name, { ...project.specs, ...roomSpec }))
                                                                     ]}
                                                                     value={roomDyn['DoorStyle'] || ''} 
                                                                     onChange={(v: string) => updateRoomDynamicSelection(roomName, 'DoorStyle', v)} 
@@ -1848,9 +2454,37 @@ export const QuotationFlow: React.FC = () => {
             <div className="space-y-6">
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 print:hidden">
                     <div className="flex items-start gap-3"><Button variant="ghost" size="sm" onClick={handleBack} className="mt-1 shrink-0"><ArrowLeft className="w-5 h-5" /></Button><div><h2 className="text-2xl font-bold text-slate-900">Bill of Materials</h2><p className="text-slate-500">Review calculated pricing based on {project.specs?.priceGroup}</p></div></div>
-                    <div className="flex gap-2 w-full sm:w-auto"><Button variant="outline" onClick={() => setStep(3)} className="flex-1 sm:flex-none">Edit Specs</Button><Button onClick={() => setStep(5)} className="flex-1 sm:flex-none">Next: Details</Button></div>
+                    <div className="flex gap-2 w-full sm:w-auto">{unresolvedCount > 0 && <Button variant="outline" onClick={() => openWorkbench()} className="flex-1 sm:flex-none gap-2 text-red-600 border-red-200 hover:bg-red-50"><SearchX className="w-4 h-4"/> Resolve ({unresolvedCount})</Button>}<Button variant="outline" onClick={() => setShowScenarios(true)} className="flex-1 sm:flex-none gap-2"><Columns3 className="w-4 h-4"/> Scenarios{project.scenarios?.length ? ` (${project.scenarios.length})` : ''}</Button><Button variant="outline" onClick={() => setShowRevisions(true)} className="flex-1 sm:flex-none gap-2"><History className="w-4 h-4"/> Revisions</Button><Button variant="outline" onClick={() => setStep(3)} className="flex-1 sm:flex-none">Edit Specs</Button><Button onClick={() => setStep(5)} className="flex-1 sm:flex-none">Next: Details</Button></div>
                 </div>
 
+                {blockingCount > 0 && (
+                    <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800 flex flex-col sm:flex-row sm:items-center justify-between gap-2 print:hidden">
+                        <span className="flex items-center gap-2"><AlertTriangle className="w-4 h-4 shrink-0"/> {blockingCount} cabinet line(s) have no catalog match and are priced at $0. {isUnmatchedOverrideValid(project) ? `Overridden: "${project.unmatchedOverride?.reason}"` : 'The PDF is blocked until they are resolved.'}</span>
+                        <Button size="sm" variant="outline" onClick={() => openWorkbench()} className="shrink-0">Open Workbench</Button>
+                    </div>
+                )}
+
+                {marginCheck.issues.length > 0 && (
+                    <div className={`rounded-lg p-3 text-sm border print:hidden ${marginApproved ? 'bg-amber-50 border-amber-200 text-amber-800' : 'bg-red-50 border-red-200 text-red-800'}`}>
+                        <div className="flex items-start gap-2">
+                            <ShieldAlert className="w-4 h-4 shrink-0 mt-0.5"/>
+                            <div className="flex-1">
+                                <ul className="space-y-0.5">{marginCheck.issues.map(issue => <li key={issue.key}>{issue.message}</li>)}</ul>
+                                {marginApproved ? (
+                                    <p className="mt-1 text-xs">Approved by {project.marginApproval!.approvedBy} on {new Date(project.marginApproval!.approvedAt).toLocaleString()}: "{project.marginApproval!.reason}"</p>
+                                ) : isAdminLoggedIn ? (
+                                    <div className="mt-2 flex gap-2">
+                                        <input className="flex-1 border border-red-200 rounded px-2 py-1 text-xs bg-white" placeholder="Reason for approving (required)" value={marginApprovalReason} onChange={e => setMarginApprovalReason(e.target.value)} />
+                                        <Button size="sm" variant="outline" onClick={() => handleApproveMargin(marginCheck)} disabled={!marginApprovalReason.trim()} className="shrink-0">Approve</Button>
+                                    </div>
+                                ) : (
+                                    <p className="mt-1 text-xs">The PDF is blocked until an admin approves this margin{project.marginApproval ? ` (the earlier approval at ${project.marginApproval.marginPct.toFixed(1)}% no longer covers it)` : ''}.</p>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 <div className="bg-slate-50 rounded-lg p-4 border border-slate-200 flex flex-wrap gap-6 text-sm">
                     <div><span className="text-slate-500 font-medium">Manufacturer:</span> <span className="font-bold">{project.specs?.manufacturer}</span></div>
                     <div><span className="text-slate-500 font-medium">Line:</span> <span className="font-bold">{project.specs?.lineType || 'All'}</span></div>
@@ -2009,7 +2643,8 @@ export const QuotationFlow: React.FC = () => {
                                                         </td>
                                                     </tr>
                                                     {categorized[cat].map((item, index) => (
-                                                        <tr key={item.id} className={`hover:bg-slate-50 ${item.totalPrice === 0 ? 'bg-red-50/30' : ''}`}>
+                                                        <React.Fragment key={item.id}>
+                                                        <tr className={`hover:bg-slate-50 ${item.totalPrice === 0 ? 'bg-red-50/30' : ''}`}>
                                                             <td className="px-4 py-3 text-slate-400 text-sm">{index + 1}</td>
                                                             <td className="px-4 py-3 font-mono font-bold text-slate-800 text-sm">
                                                                 <DebouncedInput 
@@ -2018,6 +2653,20 @@ export const QuotationFlow: React.FC = () => {
                                                                     onChange={(val: string) => handleBOMUpdate(item.id, 'code', val)}
                                                                 />
                                                                 {item.originalCode !== item.normalizedCode && (<div className="text-xs text-slate-400 font-normal mt-0.5">Norm: {item.normalizedCode}</div>)}
+                                                                {(() => {
+                                                                    const suggestion = findSkuSuggestion(item.originalCode, skuSuggestions, currentMfg);
+                                                                    if (!suggestion) return null;
+                                                                    return (
+                                                                        <button
+                                                                            type="button"
+                                                                            onClick={() => handleBOMUpdate(item.id, 'code', suggestion.to)}
+                                                                            className="mt-1 flex items-center gap-1 text-[10px] font-sans font-bold bg-purple-50 text-purple-700 border border-purple-200 rounded px-1.5 py-0.5 hover:bg-purple-100"
+                                                                            title={`Estimators changed ${suggestion.from} to ${suggestion.to} ${suggestion.count} time(s) for this manufacturer`}
+                                                                        >
+                                                                            <Sparkles className="w-3 h-3" /> Use {suggestion.to} ({suggestion.count}×)
+                                                                        </button>
+                                                                    );
+                                                                })()}
                                                                 
                                                                 {/* Dimensions & Options moved here */}
                                                                 <div className="text-xs text-slate-500 mt-0.5 font-normal">{item.width}"W x {item.height}"H x {item.depth}"D</div>
@@ -2028,7 +2677,16 @@ export const QuotationFlow: React.FC = () => {
                                                                         ))}
                                                                     </div>
                                                                 )}
-                                                                <div className="text-[10px] text-slate-400 mt-1 truncate max-w-[150px] font-sans font-normal" title={item.source}>{item.source}</div>
+                                                                <button
+                                                                    type="button"
+                                                                    onClick={() => setExpandedTraceId(expandedTraceId === item.id ? null : item.id)}
+                                                                    className={`flex items-center gap-1 text-[10px] mt-1 max-w-[180px] font-sans font-normal hover:text-brand-600 ${item.matchTrace?.usedFallbackTier ? 'text-amber-600' : 'text-slate-400'}`}
+                                                                    title="Show how this price was matched"
+                                                                >
+                                                                    <ChevronRight className={`w-3 h-3 shrink-0 transition-transform ${expandedTraceId === item.id ? 'rotate-90' : ''}`} />
+                                                                    <span className="truncate">{item.source}</span>
+                                                                    {item.matchTrace?.usedFallbackTier && <AlertTriangle className="w-3 h-3 shrink-0" />}
+                                                                </button>
                                                             </td>
                                                             <td className="px-4 py-3 text-center text-sm font-medium">
                                                                 <DebouncedInput 
@@ -2063,6 +2721,14 @@ export const QuotationFlow: React.FC = () => {
                                                                 </button>
                                                             </td>
                                                         </tr>
+                                                        {expandedTraceId === item.id && (
+                                                            <tr className="bg-slate-50">
+                                                                <td colSpan={6} className="px-4 py-3">
+                                                                    <MatchTracePanel item={item} />
+                                                                </td>
+                                                            </tr>
+                                                        )}
+                                                        </React.Fragment>
                                                     ))}
                                                 </React.Fragment>
                                             ))}
@@ -2087,7 +2753,7 @@ export const QuotationFlow: React.FC = () => {
                                             <span className="bg-orange-100 text-orange-800 px-2 py-0.5 rounded-full text-xs font-medium">{hardwareItems.length} items</span>
                                         </div>
                                         <span className="text-sm font-bold text-orange-900">
-                                            Subtotal: <span className="text-lg text-orange-950">${hardwareItems.reduce((acc, i) => acc + i.totalPrice, 0).toLocaleString()}</span>
+                                            Subtotal: <span className="text-lg text-orange-950">{formatCents(quoteTotals.byCategory.find(c => c.name === 'Hardware')?.subtotal || 0)}</span>
                                         </span>
                                     </div>
                                     <table className="min-w-full divide-y divide-orange-100">
@@ -2132,7 +2798,7 @@ export const QuotationFlow: React.FC = () => {
                                             <span className="bg-purple-100 text-purple-800 px-2 py-0.5 rounded-full text-xs font-medium">{finishingItems.length} items</span>
                                         </div>
                                         <span className="text-sm font-bold text-purple-900">
-                                            Subtotal: <span className="text-lg text-purple-950">${finishingItems.reduce((acc, i) => acc + i.totalPrice, 0).toLocaleString()}</span>
+                                            Subtotal: <span className="text-lg text-purple-950">{formatCents(quoteTotals.byCategory.find(c => c.name === 'Finishing')?.subtotal || 0)}</span>
                                         </span>
                                     </div>
                                     <table className="min-w-full divide-y divide-purple-100">
@@ -2236,53 +2902,114 @@ export const QuotationFlow: React.FC = () => {
 
                                  <div><label className="text-xs font-bold text-slate-500 uppercase">Add'l Discount (%)</label><div className="relative mt-1"><DebouncedInput type="number" min="0" max="100" className="w-full pl-3 pr-8 py-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-brand-500" value={financials.discountRate} onChange={(val: number) => updateFinancials('discountRate', val || 0)} /><span className="absolute right-3 top-2 text-slate-400 text-sm">%</span></div></div>
                                  <div><label className="text-xs font-bold text-slate-500 uppercase">Sales Tax Rate (%)</label><div className="relative mt-1"><DebouncedInput type="number" min="0" max="100" step="0.1" className="w-full pl-3 pr-8 py-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-brand-500" value={financials.taxRate} onChange={(val: number) => updateFinancials('taxRate', val || 0)} /><span className="absolute right-3 top-2 text-slate-400 text-sm">%</span></div></div>
+                                 <div className="text-[11px] text-slate-500 bg-slate-50 border border-slate-100 rounded px-2 py-1.5 space-y-1">
+                                     {financials.taxJurisdiction ? (
+                                         <div className="flex items-center justify-between gap-2">
+                                             <span className="flex items-center gap-1"><Receipt className="w-3 h-3"/> {financials.taxJurisdiction.label}: {jurisdictionRate(financials.taxJurisdiction)}%{financials.taxManual ? ' (rate entered by hand)' : ''}</span>
+                                             {financials.taxManual && <button className="text-brand-600 hover:underline shrink-0" onClick={handleUseAddressTaxRate}>Use address rate</button>}
+                                         </div>
+                                     ) : (
+                                         <div className="flex items-center gap-1"><Receipt className="w-3 h-3"/> {project.deliveryDetails?.state ? `No rate table for ${project.deliveryDetails.state}; enter the rate by hand.` : 'Rate fills in from the delivery address in Order Details.'}</div>
+                                     )}
+                                     {quoteTotals.taxDetail.lines.length > 0 && <div>{describeTaxBasis(quoteTotals.taxDetail)}</div>}
+                                     <label className="flex items-center gap-1.5 cursor-pointer">
+                                         <input type="checkbox" checked={!!financials.taxExempt} onChange={e => updateTaxExemption({ taxExempt: e.target.checked })} />
+                                         Tax-exempt customer
+                                     </label>
+                                     {financials.taxExempt && (
+                                         <input className={`w-full px-2 py-1 border rounded text-xs ${financials.taxExemptCertificate?.trim() ? 'border-slate-300' : 'border-amber-300 bg-amber-50'}`} placeholder="Exemption certificate #" value={financials.taxExemptCertificate || ''} onChange={e => updateTaxExemption({ taxExemptCertificate: e.target.value })} />
+                                     )}
+                                 </div>
                                  <div><label className="text-xs font-bold text-slate-500 uppercase">Freight / Shipping ($)</label><div className="relative mt-1"><span className="absolute left-3 top-2 text-slate-400 text-sm">$</span><DebouncedInput type="number" min="0" className="w-full pl-8 pr-3 py-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-brand-500" value={financials.shippingCost} onChange={(val: number) => updateFinancials('shippingCost', val || 0)} /></div></div>
                                  <div><label className="text-xs font-bold text-slate-500 uppercase">Fuel Surcharge ($)</label><div className="relative mt-1"><span className="absolute left-3 top-2 text-slate-400 text-sm">$</span><DebouncedInput type="number" min="0" className="w-full pl-8 pr-3 py-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-brand-500" value={financials.fuelSurcharge} onChange={(val: number) => updateFinancials('fuelSurcharge', val || 0)} /></div></div>
+                                 {freightEstimate && (
+                                     <div className="text-[11px] text-slate-500 bg-slate-50 border border-slate-100 rounded px-2 py-1.5">
+                                         <div className="flex items-center justify-between gap-2">
+                                             <span className="flex items-center gap-1"><Truck className="w-3 h-3"/> {financials.freightManual ? 'Entered by hand' : 'Estimated'}: {formatCents(freightEstimate.shipping)} + {formatCents(freightEstimate.fuel)} fuel</span>
+                                             {financials.freightManual && <button className="text-brand-600 hover:underline shrink-0" onClick={handleUseFreightEstimate}>Use estimate</button>}
+                                         </div>
+                                         <div>{freightEstimate.boxes} boxes · {freightEstimate.cubicFeet.toFixed(1)} cu ft · ~{Math.round(freightEstimate.weightLbs).toLocaleString()} lbs{freightEstimate.waived ? ' · free freight threshold met' : ''}{freightEstimate.zone ? ` · ${freightEstimate.zone.label || `zip ${freightEstimate.zone.zipPrefix}*`} +${formatCents(freightEstimate.zoneSurcharge)}` : ''}</div>
+                                         {!project.deliveryDetails?.zip && currentMfg?.freight?.zones?.length ? <div className="text-amber-600">Zone surcharge applies once the delivery zip is entered.</div> : null}
+                                     </div>
+                                 )}
                                  <div><label className="text-xs font-bold text-slate-500 uppercase">Misc Charges ($)</label><div className="relative mt-1"><span className="absolute left-3 top-2 text-slate-400 text-sm">$</span><DebouncedInput type="number" min="0" className="w-full pl-8 pr-3 py-2 border border-slate-300 rounded text-sm focus:ring-2 focus:ring-brand-500" value={financials.miscCharge} onChange={(val: number) => updateFinancials('miscCharge', val || 0)} /></div></div>
+
+                                 <div className="border-t border-slate-200 my-2"></div>
+
+                                 <div>
+                                     <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-1"><HardHat className="w-3 h-3"/> Installation</label>
+                                     {laborRateCards.length === 0 && !financials.labor ? (
+                                         <p className="text-[11px] text-slate-400 mt-1">No labor rate cards yet. An admin can add them on the Admin page.</p>
+                                     ) : (
+                                         <>
+                                             <select className="w-full mt-1 p-2 border border-slate-300 rounded text-sm bg-white focus:ring-2 focus:ring-brand-500" value={financials.labor?.rateCardId || ''} onChange={e => updateLabor(e.target.value || null)}>
+                                                 <option value="">Not included (product only)</option>
+                                                 {findLaborRateCards(laborRateCards, currentMfg?.dealerName).map(c => <option key={c.id} value={c.id}>{c.name}{c.dealerName ? ` (${c.dealerName})` : ''}</option>)}
+                                                 {financials.labor && !laborCard && <option value={financials.labor.rateCardId}>Removed rate card (last prices kept)</option>}
+                                             </select>
+                                             {laborCard && laborCard.services.length > 0 && (
+                                                 <div className="mt-2 space-y-1">
+                                                     {laborCard.services.map(service => {
+                                                         const selected = financials.labor?.serviceIds || [];
+                                                         const on = selected.includes(service.id);
+                                                         return (
+                                                             <label key={service.id} className="flex items-center gap-1.5 text-xs text-slate-600 cursor-pointer">
+                                                                 <input type="checkbox" checked={on} onChange={() => updateLabor(laborCard.id, on ? selected.filter(id => id !== service.id) : [...selected, service.id])} />
+                                                                 {service.label} <span className="text-slate-400">({formatCents(toCents(service.rate))}{service.unit === 'per-box' ? '/box' : ''})</span>
+                                                             </label>
+                                                         );
+                                                     })}
+                                                 </div>
+                                             )}
+                                             {financials.labor && financials.labor.lines.length > 0 && (
+                                                 <div className="mt-2 text-[11px] text-slate-500 bg-slate-50 border border-slate-100 rounded px-2 py-1.5 space-y-0.5">
+                                                     {financials.labor.lines.map(line => (
+                                                         <div key={line.key} className="flex justify-between gap-2">
+                                                             <span>{line.label}{line.unit !== 'flat' ? ` · ${line.quantity} ${line.unit} @ ${formatCents(toCents(line.rate))}` : ''}</span>
+                                                             <span className="font-mono">{formatCents(toCents(line.total))}</span>
+                                                         </div>
+                                                     ))}
+                                                 </div>
+                                             )}
+                                         </>
+                                     )}
+                                 </div>
                                  
                                  <div className="pt-4 border-t border-slate-200 mt-4">
-                                     {(() => {
-                                         // Use the updated logic: totalPrice IS the Sell Price (calculated with Margin)
-                                         const sellTotal = project.pricing.reduce((acc, i) => acc + i.totalPrice, 0);
-                                         
-                                         // Cost Calculation for Display (Optional)
-                                         const costTotal = project.pricing.reduce((acc, i) => acc + ((i as any).unitCost || 0) * i.quantity, 0);
-                                         const profit = sellTotal - costTotal;
-                                         const margin = sellTotal > 0 ? (profit / sellTotal) * 100 : 0;
-
-                                         // Additional Discount (Dealer Discount) applies to Sell Price
-                                         const discountAmount = sellTotal * (financials.discountRate / 100);
-                                         const postDiscount = sellTotal - discountAmount;
-                                         const taxAmount = postDiscount * (financials.taxRate / 100);
-                                         const grandTotal = postDiscount + financials.shippingCost + financials.fuelSurcharge + financials.miscCharge + taxAmount;
-                                         
-                                         return (
-                                             <>
-                                                 <div className="mb-4 pb-4 border-b border-dashed border-slate-200">
-                                                     <div className="flex justify-between text-xs mb-1 text-slate-400"><span>Est. Mfg Cost:</span><span>${costTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>
-                                                     <div className="flex justify-between text-xs mb-1 text-slate-400"><span>Est. Profit:</span><span className="text-green-600">${profit.toLocaleString(undefined, {minimumFractionDigits: 2})} ({margin.toFixed(1)}%)</span></div>
-                                                 </div>
+                                     {/* Same totals the PDF prints (totalPrice IS the Sell Price, calculated with Margin) */}
+                                     <div className="mb-4 pb-4 border-b border-dashed border-slate-200">
+                                         <div className="flex justify-between text-xs mb-1 text-slate-400"><span>Est. Mfg Cost:</span><span>{formatCents(quoteTotals.cost)}</span></div>
+                                         <div className="flex justify-between text-xs mb-1 text-slate-400"><span>Est. Profit:</span><span className="text-green-600">{formatCents(quoteTotals.profit)} ({quoteTotals.marginPct.toFixed(1)}%)</span></div>
+                                     </div>
+
+                                     <div className="flex justify-between text-sm mb-2"><span className="text-slate-500">Sell Price Subtotal:</span><span className="font-medium">{formatCents(quoteTotals.subtotal)}</span></div>
+                                     {financials.discountRate > 0 && <div className="flex justify-between text-sm mb-2"><span className="text-slate-500">Add'l Discount ({financials.discountRate}%):</span><span className="font-medium text-red-600">- {formatCents(quoteTotals.discount)}</span></div>}
+                                     {quoteTotals.upcharge > 0 && <div className="flex justify-between text-sm mb-2"><span className="text-slate-500">Mfg Upcharge ({financials.manufacturerUpcharge}%):</span><span className="font-medium">+ {formatCents(quoteTotals.upcharge)}</span></div>}
+                                     
+                                     {/* Actual Price (Product Only) */}
+                                     <div className="flex justify-between text-sm mb-2 pt-2 border-t border-slate-100 font-bold text-slate-700"><span className="">Actual Price:</span><span className="">{formatCents(quoteTotals.netProducts)}</span></div>
+                                     
+                                     {/* Fees & Taxes Section */}
+                                     {(financials.taxRate > 0 || financials.taxExempt || financials.shippingCost > 0 || financials.fuelSurcharge > 0 || financials.miscCharge > 0 || quoteTotals.labor > 0) && (
+                                         <div className="my-3 py-2 bg-slate-50 rounded px-2 text-xs space-y-1 border border-slate-100">
+                                             {quoteTotals.taxDetail.exempt ? (
+                                                 <div className="flex justify-between text-slate-500"><span>Tax (exempt{quoteTotals.taxDetail.certificate ? `, cert ${quoteTotals.taxDetail.certificate}` : ''}):</span><span>{formatCents(0)}</span></div>
+                                             ) : financials.taxRate > 0 && (
+                                                 <>
+                                                     <div className="flex justify-between text-slate-500"><span>Tax ({financials.taxRate}% on {formatCents(quoteTotals.taxDetail.taxableBase)}):</span><span>{formatCents(quoteTotals.tax)}</span></div>
+                                                     {quoteTotals.taxDetail.split && (
+                                                         <div className="pl-3 text-[11px] text-slate-400 flex justify-between"><span>State {formatCents(quoteTotals.taxDetail.split.state)} · Local {formatCents(quoteTotals.taxDetail.split.local)}</span></div>
+                                                     )}
+                                                 </>
+                                             )}
+                                             {financials.shippingCost > 0 && <div className="flex justify-between text-slate-500"><span>Shipping:</span><span>{formatCents(quoteTotals.shipping)}</span></div>}
+                                             {financials.fuelSurcharge > 0 && <div className="flex justify-between text-slate-500"><span>Fuel Surcharge:</span><span>{formatCents(quoteTotals.fuel)}</span></div>}
+                                             {financials.miscCharge > 0 && <div className="flex justify-between text-slate-500"><span>Misc Charges:</span><span>{formatCents(quoteTotals.misc)}</span></div>}
+                                             {quoteTotals.labor > 0 && <div className="flex justify-between text-slate-500"><span>Installation & Services:</span><span>{formatCents(quoteTotals.labor)}</span></div>}
+                                         </div>
+                                     )}
 
-                                                 <div className="flex justify-between text-sm mb-2"><span className="text-slate-500">Sell Price Subtotal:</span><span className="font-medium">${sellTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>
-                                                 {financials.discountRate > 0 && <div className="flex justify-between text-sm mb-2"><span className="text-slate-500">Add'l Discount ({financials.discountRate}%):</span><span className="font-medium text-red-600">- ${discountAmount.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>}
-                                                 
-                                                 {/* Actual Price (Product Only) */}
-                                                 <div className="flex justify-between text-sm mb-2 pt-2 border-t border-slate-100 font-bold text-slate-700"><span className="">Actual Price:</span><span className="">${postDiscount.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>
-                                                 
-                                                 {/* Fees & Taxes Section */}
-                                                 {(financials.taxRate > 0 || financials.shippingCost > 0 || financials.fuelSurcharge > 0 || financials.miscCharge > 0) && (
-                                                     <div className="my-3 py-2 bg-slate-50 rounded px-2 text-xs space-y-1 border border-slate-100">
-                                                         {financials.taxRate > 0 && <div className="flex justify-between text-slate-500"><span>Tax ({financials.taxRate}%):</span><span>${taxAmount.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>}
-                                                         {financials.shippingCost > 0 && <div className="flex justify-between text-slate-500"><span>Shipping:</span><span>${financials.shippingCost.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>}
-                                                         {financials.fuelSurcharge > 0 && <div className="flex justify-between text-slate-500"><span>Fuel Surcharge:</span><span>${financials.fuelSurcharge.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>}
-                                                         {financials.miscCharge > 0 && <div className="flex justify-between text-slate-500"><span>Misc Charges:</span><span>${financials.miscCharge.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>}
-                                                     </div>
-                                                 )}
-
-                                                 <div className="flex justify-between text-xl font-extrabold text-brand-700 mt-3 pt-3 border-t-2 border-slate-200"><span>Grand Total:</span><span>${grandTotal.toLocaleString(undefined, {minimumFractionDigits: 2})}</span></div>
-                                             </>
-                                         );
-                                     })()}
+                                     <div className="flex justify-between text-xl font-extrabold text-brand-700 mt-3 pt-3 border-t-2 border-slate-200"><span>Grand Total:</span><span>{formatCents(quoteTotals.grandTotal)}</span></div>
                                  </div>
                              </div>
                         </div>
@@ -2368,9 +3095,9 @@ export const QuotationFlow: React.FC = () => {
                  <h2 className="text-4xl font-extrabold text-slate-900 mb-2">Quotation Ready!</h2>
                  <p className="text-slate-500 text-lg mb-8 max-w-md text-center">
                     Your quote has been generated with 
-                    <span className="font-bold text-slate-800"> {project.pricing?.filter(i => i.totalPrice > 0).length} items </span>
+                    <span className="font-bold text-slate-800"> {quoteTotals.lineCount} items </span>
                     totaling
-                    <span className="font-bold text-slate-800"> ${((project.pricing?.reduce((acc, i) => acc + i.totalPrice, 0) || 0) * (1 - (financials.discountRate/100)) + financials.shippingCost + financials.fuelSurcharge).toLocaleString(undefined, {maximumFractionDigits:0})}</span>.
+                    <span className="font-bold text-slate-800"> {formatCents(quoteTotals.grandTotal)}</span>.
                  </p>
 
                  <div className="flex flex-col sm:flex-row gap-4 w-full max-w-md">
@@ -2388,6 +3115,14 @@ export const QuotationFlow: React.FC = () => {
                      <Button variant="ghost" onClick={handleBack} className="text-slate-500">
                         <ArrowLeft className="w-4 h-4 mr-2"/> Back to Details
                      </Button>
+                     <Button variant="ghost" onClick={() => setShowRevisions(true)} className="text-slate-500">
+                        <History className="w-4 h-4 mr-2"/> Revision History
+                     </Button>
+                     {(project.scenarios?.length || 0) > 0 && (
+                         <Button variant="ghost" onClick={() => setShowScenarios(true)} className="text-slate-500">
+                            <Columns3 className="w-4 h-4 mr-2"/> Compare Scenarios
+                         </Button>
+                     )}
                      <Button variant="ghost" onClick={() => navigate('/')} className="text-slate-500">
                         Start New Quote
                      </Button>
@@ -2400,6 +3135,40 @@ export const QuotationFlow: React.FC = () => {
         )}
 
       </div>
+
+      {showRevisions && <RevisionHistory project={project} onClose={() => setShowRevisions(false)} />}
+      {showMfgComparison && (
+        <ManufacturerComparison
+          project={project}
+          manufacturers={manufacturers}
+          dealerName={selectedDealer}
+          onUse={(mfg, tierId) => { setShowMfgComparison(false); handleConnectMfg(mfg, tierId); }}
+          onClose={() => setShowMfgComparison(false)}
+        />
+      )}
+      {showScenarios && (
+        <ScenarioComparison
+          project={project}
+          manufacturer={currentMfg}
+          onSave={handleSaveScenarios}
+          onReprice={handleRepriceScenarios}
+          onLoad={handleLoadScenario}
+          onExportProposal={handleExportProposal}
+          onClose={() => setShowScenarios(false)}
+        />
+      )}
+      {workbench && (
+        <UnmatchedWorkbench
+          project={project}
+          catalog={workbenchCatalog}
+          tierName={currentMfg?.tiers.find(t => t.id === project.selectedTierId)?.name}
+          blockedDownload={workbench.blockedDownload}
+          onAccept={handleWorkbenchAccept}
+          onConfirm={handleWorkbenchConfirm}
+          onOverride={handleWorkbenchOverride}
+          onClose={() => setWorkbench(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file